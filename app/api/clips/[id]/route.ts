@@ -0,0 +1,12 @@
+import { clipResponse, readClip } from "@/lib/server";
+
+export const runtime = "nodejs";
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const clip = await readClip(id);
+  if (!clip) {
+    return Response.json({ error: "Clip not found." }, { status: 404 });
+  }
+  return clipResponse(clip, request.headers.get("Range"));
+}
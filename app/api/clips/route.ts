@@ -0,0 +1,15 @@
+import { ClipUploadError, saveClip } from "@/lib/server";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  try {
+    const clip = await saveClip(request);
+    return Response.json(clip, { status: 201, headers: { Location: clip.url } });
+  } catch (err) {
+    if (err instanceof ClipUploadError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,29 @@
+import { EnhancementError, readBrief } from "@/lib/enhance";
+import { getPromptProvider, listPromptProviders } from "@/lib/server";
+
+export const runtime = "nodejs";
+
+export function GET() {
+  return Response.json({ providers: listPromptProviders() });
+}
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON." }, { status: 400 });
+  }
+
+  try {
+    const { brief, provider: providerId } = (body ?? {}) as Record<string, unknown>;
+    const provider = getPromptProvider(providerId);
+    const enhancement = await provider.enhance(readBrief(brief), request.signal);
+    return Response.json({ provider: provider.id, enhancement });
+  } catch (err) {
+    if (err instanceof EnhancementError) {
+      return Response.json({ error: err.message }, { status: err.status });
+    }
+    throw err;
+  }
+}
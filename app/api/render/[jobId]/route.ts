@@ -0,0 +1,15 @@
+import { getRenderJob, summarizeRenderJob } from "@/lib/server";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ jobId: string }> },
+) {
+  const { jobId } = await params;
+  const job = getRenderJob(jobId);
+  if (!job) {
+    return Response.json({ error: "Render job not found." }, { status: 404 });
+  }
+  return Response.json(summarizeRenderJob(job));
+}
@@ -0,0 +1,21 @@
+import { getRenderJob, summarizeRenderJob, videoResponse } from "@/lib/server";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ jobId: string }> },
+) {
+  const { jobId } = await params;
+  const job = getRenderJob(jobId);
+  if (!job) {
+    return Response.json({ error: "Render job not found." }, { status: 404 });
+  }
+  return (
+    videoResponse(job) ??
+    Response.json(
+      { ...summarizeRenderJob(job), error: job.error ?? "The render has not finished yet." },
+      { status: 409 },
+    )
+  );
+}
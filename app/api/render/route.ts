@@ -0,0 +1,57 @@
+import {
+  RenderQueueFullError,
+  RenderRequestError,
+  createRenderJob,
+  parseRenderRequest,
+  summarizeRenderJob,
+  videoResponse,
+  waitForRenderJob,
+} from "@/lib/server";
+
+export const runtime = "nodejs";
+
+export async function POST(request: Request) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: "Request body must be valid JSON." }, { status: 400 });
+  }
+
+  let renderRequest;
+  try {
+    renderRequest = parseRenderRequest(body);
+  } catch (err) {
+    if (err instanceof RenderRequestError) {
+      return Response.json({ error: err.message }, { status: 400 });
+    }
+    throw err;
+  }
+
+  let job;
+  try {
+    job = createRenderJob(renderRequest);
+  } catch (err) {
+    if (err instanceof RenderQueueFullError) {
+      return Response.json(
+        { error: err.message },
+        { status: 429, headers: { "Retry-After": "30" } },
+      );
+    }
+    throw err;
+  }
+
+  // `?wait=1` keeps the connection open and answers with the encoded file itself.
+  if (new URL(request.url).searchParams.get("wait") === "1") {
+    await waitForRenderJob(job.id);
+    return (
+      videoResponse(job) ??
+      Response.json(summarizeRenderJob(job), { status: 500 })
+    );
+  }
+
+  return Response.json(summarizeRenderJob(job), {
+    status: 202,
+    headers: { Location: `/api/render/${job.id}` },
+  });
+}
@@ -1,276 +1,622 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
-
-type GenerationPhase = "idle" | "preparing" | "rendering" | "encoding" | "complete" | "error";
-
-type VisualStyle =
-  | "cosmic"
-  | "tropical"
-  | "noir"
-  | "sunrise"
-  | "aqua"
-  | "mono";
-
-interface GenerationSettings {
-  fps: number;
-  segmentSeconds: number;
-  style: VisualStyle;
-}
-
-interface TimelineSlice {
-  sentence: string;
-  index: number;
-  palette: [string, string];
-}
-
-const DEFAULT_PROMPT =
-  "A flowing introduction for an AI demo reel that highlights innovation, creativity, and futuristic design with subtle particle motion and layered typography.";
+import {
+  useCallback,
+  useEffect,
+  useEffectEvent,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore,
+} from "react";
+import { flushSync } from "react-dom";
+import { AssetLibrary } from "@/components/asset-library";
+import { FontLibrary } from "@/components/font-library";
+import { ProductionTimeline } from "@/components/production-timeline";
+import { OutputSizePicker } from "@/components/output-size-picker";
+import { PreviewPlayer } from "@/components/preview-player";
+import { ProjectPanel } from "@/components/project-panel";
+import { PromptEnhancer } from "@/components/prompt-enhancer";
+import { RenderQueuePanel } from "@/components/render-queue-panel";
+import { RenderReportPanel } from "@/components/render-report-panel";
+import { SoundtrackPanel, type LoadedAudioTrack } from "@/components/soundtrack-panel";
+import { StillExportPanel } from "@/components/still-export-panel";
+import { ThemeEditor } from "@/components/theme-editor";
+import {
+  deleteAsset,
+  listAssets,
+  loadAssetImages,
+  releaseAssetImage,
+  saveAsset,
+  type StoredAsset,
+} from "@/lib/assets";
+import {
+  analyseAudio,
+  decodeAudioFile,
+  mixAudioTrack,
+  snapSceneDurations,
+  type AudioTrackSettings,
+  type SceneTimingMode,
+} from "@/lib/audio";
+import {
+  BUILT_IN_THEMES,
+  DEFAULT_THEME,
+  TRANSITION_LABELS,
+  collectAssetIds,
+  collectFontUsage,
+  createMeasureContext,
+  createPaletteTimeline,
+  findTheme,
+  formatScriptIssue,
+  getOutputDimensions,
+  getSceneTimings,
+  isBuiltInTheme,
+  getTotalFrames,
+  keyScenes,
+  mergeSentenceWithNext,
+  moveSentenceInPrompt,
+  paletteToCss,
+  parseScript,
+  splitOverflowingScenes,
+  splitSentenceInPrompt,
+  splitSentences,
+  updateSceneOverride,
+  type AspectRatio,
+  type AssetImages,
+  type ExportFormat,
+  type CaptionStyle,
+  type FontUsage,
+  type GenerationSettings,
+  type OutputSize,
+  type SceneOverrides,
+  type Theme,
+  type TimelineSlice,
+  type TransitionDirection,
+  type TransitionSettings,
+  type TransitionType,
+  type VisualStyle,
+} from "@/lib/compositor";
+import {
+  diffScenes,
+  formatEnhancementScript,
+  readPromptScenes,
+  type PromptEnhancement,
+  type PromptProviderSummary,
+} from "@/lib/enhance";
+import {
+  DEFAULT_GIF_OPTIONS,
+  FORMAT_LABELS,
+  RenderFrameError,
+  buildCaptionCues,
+  buildRenderReport,
+  clampFrameRange,
+  createPauseController,
+  createQueueArchive,
+  createQueueJob,
+  createRenderTrace,
+  createWorkerRenderer,
+  downloadBlob,
+  formatSrt,
+  formatWebVtt,
+  getDefaultPosterFrame,
+  getFullFrameRange,
+  isAbortError,
+  isOfflineRenderSupported,
+  isWorkerRenderSupported,
+  recordTimelineRealtime,
+  renderGif,
+  renderPngSequence,
+  renderSceneThumbnails,
+  renderStill,
+  renderTimelineOffline,
+  scaledHeight,
+  throttleProgress,
+  tracePhase,
+  type CaptionCue,
+  type EncodedClip,
+  type FrameRange,
+  type GifOptions,
+  type OfflineCheckpoint,
+  type OfflineRenderControl,
+  type PauseController,
+  type QueueJob,
+  type QueueSoundtrack,
+  type RecorderPhase,
+  type RenderEngine,
+  type RenderMode,
+  type RenderReport,
+  type StillExportKind,
+  type WorkerRenderer,
+} from "@/lib/export";
+import {
+  collectFontSources,
+  deleteFont,
+  findFontFallbacks,
+  formatFontFallback,
+  listFonts,
+  loadFonts,
+  releaseFont,
+  saveFont,
+  type FontSource,
+  type StoredFont,
+} from "@/lib/fonts";
+import {
+  ProjectFileError,
+  buildShareUrl,
+  createProject,
+  decodeProjectState,
+  deleteProject,
+  encodeProjectState,
+  listRecentProjects,
+  loadProject,
+  parseProjectFile,
+  projectFilename,
+  readShareLink,
+  saveProject,
+  serializeProject,
+  type NebulaProject,
+  type ProjectSummary,
+} from "@/lib/project";
+import {
+  getCustomThemes,
+  getServerCustomThemes,
+  subscribeCustomThemes,
+  upsertCustomTheme,
+} from "@/lib/themes";
 
-const STYLE_PALETTES: Record<VisualStyle, [string, string][]> = {
-  cosmic: [
-    ["#1b0033", "#5c00b3"],
-    ["#0b1a4a", "#170e75"],
-    ["#2a0a4a", "#4a117a"],
-    ["#05010f", "#2d1c7a"],
-  ],
-  tropical: [
-    ["#ff8a5c", "#ffd452"],
-    ["#ff6b6b", "#ffd166"],
-    ["#ffbe0b", "#ffb4a2"],
-    ["#ff9f1c", "#ffbf69"],
-  ],
-  noir: [
-    ["#0b0b0b", "#1f1f1f"],
-    ["#111111", "#2b2b2b"],
-    ["#090909", "#202020"],
-    ["#131313", "#292929"],
-  ],
-  sunrise: [
-    ["#ff758f", "#ffe2e2"],
-    ["#ff9b73", "#ffc773"],
-    ["#ff6f91", "#ff9671"],
-    ["#f9ada0", "#f8ede3"],
-  ],
-  aqua: [
-    ["#003f5c", "#2f4b7c"],
-    ["#005377", "#3185fc"],
-    ["#2f4b7c", "#00b8a9"],
-    ["#1f4068", "#2a9d8f"],
-  ],
-  mono: [
-    ["#111827", "#374151"],
-    ["#0f172a", "#1f2937"],
-    ["#18181b", "#27272a"],
-    ["#1a202c", "#2d3748"],
-  ],
-};
-
-function splitSentences(input: string): string[] {
-  return input
-    .split(/[\n\.!?]+/)
-    .map((sentence) => sentence.trim())
-    .filter(Boolean);
-}
+type GenerationPhase =
+  | "idle"
+  | "preparing"
+  | "rendering"
+  | "encoding"
+  | "complete"
+  | "cancelled"
+  | "error";
 
-function createPaletteTimeline(sentences: string[], style: VisualStyle): TimelineSlice[] {
-  const palettes = STYLE_PALETTES[style];
-  return sentences.map((sentence, index) => ({
-    sentence,
-    index,
-    palette: palettes[index % palettes.length],
-  }));
-}
+type MonitorView = "preview" | "clip";
 
-function wrapLines(ctx: CanvasRenderingContext2D, text: string, maxWidth: number) {
-  const words = text.split(/\s+/);
-  const lines: string[] = [];
-  let line = "";
-  for (const word of words) {
-    const tentative = line ? `${line} ${word}` : word;
-    if (ctx.measureText(tentative).width > maxWidth && line) {
-      lines.push(line);
-      line = word;
-    } else {
-      line = tentative;
-    }
-  }
-  if (line) {
-    lines.push(line);
-  }
-  return lines;
+interface ActiveRender {
+  controller: AbortController;
+  pause: PauseController;
+  /** Queue runs carry on through a reset; clip renders are cancelled by it. */
+  queue: boolean;
+  /** Set by a reset: the render winds down without touching the page, then frees its slot. */
+  discarded: boolean;
 }
 
-async function sleep(ms: number) {
-  await new Promise((resolve) => setTimeout(resolve, ms));
+/** Enough of a failed offline render to carry on with the same inputs. */
+interface ResumePoint {
+  timeline: TimelineSlice[];
+  settings: GenerationSettings;
+  batchAspectRatios: AspectRatio[];
+  /** Clips of the batch outputs that finished before the failure. */
+  clips: EncodedClip[];
+  fingerprint: string | null;
+  checkpoint: OfflineCheckpoint;
 }
 
-function drawGradientBackground(
-  ctx: CanvasRenderingContext2D,
-  width: number,
-  height: number,
-  colors: [string, string],
-  phase: number,
-) {
-  const gradient = ctx.createLinearGradient(0, 0, width, height);
-  gradient.addColorStop(0, colors[0]);
-  gradient.addColorStop(1, colors[1]);
-  ctx.fillStyle = gradient;
-  ctx.fillRect(0, 0, width, height);
-
-  ctx.fillStyle = `rgba(255, 255, 255, 0.08)`;
-  const waveCount = 4;
-  for (let i = 0; i < waveCount; i++) {
-    const offset = (phase + i * 0.5) % (2 * Math.PI);
-    ctx.beginPath();
-    const amplitude = height * 0.08 * (1 - i * 0.15);
-    ctx.moveTo(0, height * 0.2 * (i + 1));
-    const segments = 8;
-    for (let s = 0; s <= segments; s++) {
-      const x = (s / segments) * width;
-      const y =
-        height * 0.15 * (i + 1) +
-        Math.sin(offset + (s / segments) * Math.PI * 2) * amplitude;
-      ctx.lineTo(x, y);
-    }
-    ctx.lineTo(width, height);
-    ctx.lineTo(0, height);
-    ctx.closePath();
-    ctx.fill();
-  }
+interface BatchClip {
+  output: OutputSize;
+  url: string;
+  extension: ExportFormat;
 }
 
-async function renderTimelineToVideo(
-  canvas: HTMLCanvasElement,
-  timeline: TimelineSlice[],
-  settings: GenerationSettings,
-  onProgress: (complete: number) => void,
-) {
-  const ctx = canvas.getContext("2d");
-  if (!ctx) {
-    throw new Error("Canvas context is not available.");
-  }
-
-  const fps = settings.fps;
-  const segmentFrames = fps * settings.segmentSeconds;
-  const totalFrames = segmentFrames * timeline.length;
-  let currentFrame = 0;
-
-  const textAreaWidth = canvas.width * 0.7;
-  const centerX = canvas.width / 2;
-  const centerY = canvas.height / 2;
-
-  ctx.textAlign = "center";
-  ctx.textBaseline = "middle";
-
-  while (currentFrame < totalFrames) {
-    const sliceIndex = Math.floor(currentFrame / segmentFrames);
-    const frameInSlice = currentFrame % segmentFrames;
-    const sliceProgress = frameInSlice / segmentFrames;
-    const slice = timeline[sliceIndex];
-    const oscillation = Math.sin(sliceProgress * Math.PI * 2);
-
-    drawGradientBackground(
-      ctx,
-      canvas.width,
-      canvas.height,
-      slice.palette,
-      sliceProgress * Math.PI * 2,
-    );
+const AUTOSAVE_DELAY_MS = 800;
+const THUMBNAIL_DELAY_MS = 400;
+const THUMBNAIL_WIDTH = 160;
 
-    const titleOpacity = Math.sin(Math.PI * Math.min(sliceProgress, 1 - sliceProgress));
-    ctx.globalAlpha = Math.max(0.2, titleOpacity);
-    ctx.fillStyle = "rgba(255,255,255,0.8)";
-    ctx.font = `${Math.round(canvas.height * 0.06)}px 'Space Grotesk', sans-serif`;
-    ctx.fillText("AI Concept Visualizer", centerX, canvas.height * 0.18);
-
-    ctx.globalAlpha = 1;
-    ctx.font = `${Math.round(canvas.height * 0.14)}px 'Space Grotesk', sans-serif`;
-    ctx.fillStyle = "rgba(255,255,255,0.04)";
-    ctx.fillText(String(sliceIndex + 1).padStart(2, "0"), centerX, canvas.height * 0.82);
-
-    const displacement = Math.sin(sliceProgress * Math.PI) * canvas.height * 0.03;
-    ctx.font = `${Math.round(canvas.height * 0.07)}px 'DM Sans', sans-serif`;
-    const lines = wrapLines(ctx, slice.sentence, textAreaWidth);
-    const lineHeight = canvas.height * 0.1;
-    const totalHeight = lineHeight * lines.length;
-
-    ctx.fillStyle = "rgba(255,255,255,0.9)";
-    lines.forEach((line, lineIndex) => {
-      const alpha = Math.max(
-        0,
-        1 -
-          Math.abs(
-            sliceProgress - lineIndex / Math.max(1, lines.length - 1),
-          ) *
-            2.4,
-      );
-      ctx.globalAlpha = Math.max(alpha, 0.15);
-      const y =
-        centerY -
-        totalHeight / 2 +
-        lineIndex * lineHeight +
-        displacement * (lineIndex - (lines.length - 1) / 2);
-      ctx.fillText(line, centerX, y);
-    });
-
-    ctx.globalAlpha = 0.4;
-    ctx.strokeStyle = "rgba(255,255,255,0.35)";
-    ctx.lineWidth = 3;
-    const orbitRadius = canvas.height * 0.42;
-    const satelliteCount = 6;
-    ctx.beginPath();
-    ctx.arc(centerX, centerY, orbitRadius, 0, Math.PI * 2);
-    ctx.stroke();
-    ctx.globalAlpha = 0.9;
-    for (let i = 0; i < satelliteCount; i++) {
-      const angle = sliceProgress * Math.PI * 2 + (i / satelliteCount) * Math.PI * 2;
-      const x = centerX + Math.cos(angle) * orbitRadius;
-      const y = centerY + Math.sin(angle) * orbitRadius;
-      ctx.beginPath();
-      ctx.fillStyle = `rgba(255,255,255,${0.3 + 0.4 * Math.sin(angle + oscillation)})`;
-      ctx.arc(x, y, canvas.height * 0.012, 0, Math.PI * 2);
-      ctx.fill();
-    }
-
-    ctx.globalAlpha = 1;
-    currentFrame += 1;
-    onProgress(currentFrame / totalFrames);
-    await sleep(1000 / fps);
-  }
-}
-
-function pickMimeType() {
-  if (typeof window === "undefined") {
-    return null;
-  }
-  const candidates = [
-    "video/webm;codecs=vp9",
-    "video/webm;codecs=vp8",
-    "video/webm",
-    "video/mp4",
-  ];
-  return candidates.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
-}
+const DEFAULT_PROMPT =
+  "A flowing introduction for an AI demo reel that highlights innovation, creativity, and futuristic design with subtle particle motion and layered typography.";
 
 export default function Home() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const [prompt, setPrompt] = useState(DEFAULT_PROMPT);
+  const renderRef = useRef<ActiveRender | null>(null);
+  const workerCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const workerRendererRef = useRef<WorkerRenderer | null>(null);
+  const stillExportRef = useRef<AbortController | null>(null);
+  const queueJobsRef = useRef<QueueJob[]>([]);
+  const [initialProject] = useState(() => createProject(DEFAULT_PROMPT));
+  const [projectId, setProjectId] = useState(initialProject.id);
+  const [projectName, setProjectName] = useState(initialProject.name);
+  const [createdAt, setCreatedAt] = useState(initialProject.createdAt);
+  const [savedAt, setSavedAt] = useState<string | null>(null);
+  const [recentProjects, setRecentProjects] = useState<ProjectSummary[]>([]);
+  const [projectRestored, setProjectRestored] = useState(false);
+  const [projectIssues, setProjectIssues] = useState<string[]>([]);
+  const [prompt, setPrompt] = useState(initialProject.prompt);
   const [phase, setPhase] = useState<GenerationPhase>("idle");
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [paused, setPaused] = useState(false);
+  const [queueJobs, setQueueJobs] = useState<QueueJob[]>([]);
+  const [queueRunning, setQueueRunning] = useState(false);
+  const [stopping, setStopping] = useState(false);
+  const [renderPosition, setRenderPosition] = useState<{
+    frameIndex: number;
+    sceneIndex: number;
+  } | null>(null);
+  const [resumePoint, setResumePoint] = useState<ResumePoint | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
-  const [style, setStyle] = useState<VisualStyle>("cosmic");
-  const [segmentSeconds, setSegmentSeconds] = useState(3);
-  const [fps, setFps] = useState(24);
+  const [posterUrl, setPosterUrl] = useState<string | null>(null);
+  const [themeId, setThemeId] = useState(initialProject.settings.theme.id);
+  const [segmentSeconds, setSegmentSeconds] = useState(initialProject.settings.segmentSeconds);
+  const [fps, setFps] = useState(initialProject.settings.fps);
+  const [transition, setTransition] = useState<TransitionSettings>(
+    initialProject.settings.transition,
+  );
+  const [output, setOutput] = useState<OutputSize>(initialProject.settings.output);
+  const [batchAspectRatios, setBatchAspectRatios] = useState<AspectRatio[]>(
+    initialProject.batchAspectRatios,
+  );
+  const [format, setFormat] = useState<ExportFormat>(initialProject.settings.format);
+  const [bitrate, setBitrate] = useState(initialProject.settings.bitrate);
+  const [videoExtension, setVideoExtension] = useState<ExportFormat>("mp4");
+  /** Set once `videoUrl` has been uploaded to, or opened from, `/api/clips`. */
+  const [sharedClipId, setSharedClipId] = useState<string | null>(null);
+  const [clipUploading, setClipUploading] = useState(false);
+  const [shareNotice, setShareNotice] = useState<string | null>(null);
+  const [batchClips, setBatchClips] = useState<BatchClip[]>([]);
+  /** Null follows the whole clip, so the range keeps up with edits to the timeline. */
+  const [frameRangeInput, setFrameRangeInput] = useState<FrameRange | null>(null);
+  /** Null uses the default poster frame, in the first scene. */
+  const [posterFrameInput, setPosterFrameInput] = useState<number | null>(null);
+  const [gifOptions, setGifOptions] = useState<GifOptions>(DEFAULT_GIF_OPTIONS);
+  const [stillExport, setStillExport] = useState<{
+    kind: StillExportKind;
+    progress: number;
+  } | null>(null);
+  const [stillError, setStillError] = useState<string | null>(null);
+  /** Object URLs of scene stills, keyed by scene key. */
+  const [thumbnails, setThumbnails] = useState<Record<string, string>>({});
+  const [sceneOverrides, setSceneOverrides] = useState<SceneOverrides>(
+    initialProject.sceneOverrides,
+  );
+  const [audioTrack, setAudioTrack] = useState<LoadedAudioTrack | null>(null);
+  const [audioLoading, setAudioLoading] = useState(false);
+  const [audioSettings, setAudioSettings] = useState<AudioTrackSettings>(
+    initialProject.audio.settings,
+  );
+  const [timingMode, setTimingMode] = useState<SceneTimingMode>(initialProject.audio.timingMode);
+  const [captionStyle, setCaptionStyle] = useState<CaptionStyle>(
+    initialProject.settings.captionStyle,
+  );
+  const [captionCues, setCaptionCues] = useState<CaptionCue[] | null>(null);
+  const [renderMode, setRenderMode] = useState<RenderMode>(initialProject.renderMode);
+  const [fingerprintFrames, setFingerprintFrames] = useState(false);
+  const [fingerprint, setFingerprint] = useState<string | null>(null);
+  const [renderReport, setRenderReport] = useState<RenderReport | null>(null);
+  const [monitorView, setMonitorView] = useState<MonitorView>("preview");
+  const [assetLibrary, setAssetLibrary] = useState<StoredAsset[]>([]);
+  const [assetUploading, setAssetUploading] = useState(false);
+  const [assetIssues, setAssetIssues] = useState<string[]>([]);
+  const [assetImages, setAssetImages] = useState<AssetImages>(() => new Map());
+  const [fontLibrary, setFontLibrary] = useState<StoredFont[]>([]);
+  const [fontUploading, setFontUploading] = useState(false);
+  const [fontIssues, setFontIssues] = useState<string[]>([]);
+  const [fontSources, setFontSources] = useState<FontSource[] | null>(null);
+  const [fontLoadError, setFontLoadError] = useState<string | null>(null);
+  /** The fonts the last load waited for; nothing is measured or drawn until it is current. */
+  const [loadedFonts, setLoadedFonts] = useState<{ key: string; usage: FontUsage[] } | null>(
+    null,
+  );
+  const [promptProviders, setPromptProviders] = useState<PromptProviderSummary[]>([]);
+  const [promptProviderId, setPromptProviderId] = useState<string | null>(null);
+  const [enhancing, setEnhancing] = useState(false);
+  const [enhanceError, setEnhanceError] = useState<string | null>(null);
+  /** A provider's suggestion as a script, waiting to be accepted or discarded. */
+  const [suggestion, setSuggestion] = useState<{
+    prompt: string;
+    style: VisualStyle | null;
+  } | null>(null);
   const clipboardAvailable =
     typeof navigator !== "undefined" && !!navigator.clipboard;
 
-  const sentences = useMemo(() => splitSentences(prompt), [prompt]);
+  const customThemes = useSyncExternalStore(
+    subscribeCustomThemes,
+    getCustomThemes,
+    getServerCustomThemes,
+  );
+  const themes = useMemo(() => [...BUILT_IN_THEMES, ...customThemes], [customThemes]);
+  const theme = findTheme(themes, themeId) ?? DEFAULT_THEME;
+
+  const settings = useMemo<GenerationSettings>(
+    () => ({ fps, segmentSeconds, theme, output, format, bitrate, transition, captionStyle }),
+    [fps, segmentSeconds, theme, output, format, bitrate, transition, captionStyle],
+  );
+
+  const script = useMemo(() => parseScript(prompt, themes), [prompt, themes]);
+  const sentences = useMemo(() => script.scenes.map((scene) => scene.text), [script]);
+  const buildTimeline = useCallback(
+    (timelineTheme: Theme) => {
+      const base = createPaletteTimeline(sentences, timelineTheme, sceneOverrides, script.scenes);
+      if (!audioTrack || timingMode === "fixed") {
+        return base;
+      }
+      const markers =
+        timingMode === "beats" ? audioTrack.analysis.beats : audioTrack.analysis.pauses;
+      return snapSceneDurations(base, { fps, segmentSeconds }, markers);
+    },
+    [sentences, script, sceneOverrides, audioTrack, timingMode, fps, segmentSeconds],
+  );
+  const sceneTimeline = useMemo(() => buildTimeline(theme), [buildTimeline, theme]);
+  const fontUsage = useMemo(() => collectFontUsage(sceneTimeline, theme), [sceneTimeline, theme]);
+  const fontsKey = [...new Set(fontUsage.map((usage) => usage.family))].sort().join("\n");
+  const fontsReady = loadedFonts?.key === fontsKey;
+  // Measures scene text on this thread; null while rendering on the server.
+  const [measureContext] = useState(createMeasureContext);
+  // Sentences too long for the frame become continuation scenes, which depends on the output
+  // and on the fonts, so text is only measured once they have loaded.
+  const fitTimeline = useCallback(
+    (base: TimelineSlice[], fitSettings: GenerationSettings) =>
+      measureContext && fontsReady
+        ? splitOverflowingScenes(measureContext, base, fitSettings)
+        : base,
+    [measureContext, fontsReady],
+  );
   const timeline = useMemo(
-    () => createPaletteTimeline(sentences, style),
-    [sentences, style],
+    () => fitTimeline(sceneTimeline, settings),
+    [fitTimeline, sceneTimeline, settings],
   );
+  const sceneParts = useMemo(
+    () =>
+      Object.fromEntries(
+        timeline.flatMap((slice) =>
+          slice.continuation?.part === 0 ? [[slice.key, slice.continuation.parts]] : [],
+        ),
+      ),
+    [timeline],
+  );
+
+  const fontFallbacks = useMemo(
+    () =>
+      measureContext && loadedFonts ? findFontFallbacks(measureContext, loadedFonts.usage) : [],
+    [measureContext, loadedFonts],
+  );
+
+  const totalFrames = getTotalFrames(timeline, settings);
+  const frameRange = clampFrameRange(
+    frameRangeInput ?? getFullFrameRange(timeline, settings),
+    timeline,
+    settings,
+  );
+  const posterFrame = Math.min(
+    Math.max(0, posterFrameInput ?? getDefaultPosterFrame(timeline, settings)),
+    Math.max(0, totalFrames - 1),
+  );
+  const sceneRanges = useMemo(
+    () =>
+      getSceneTimings(timeline, settings).map(({ startFrame, frameCount }) => ({
+        start: startFrame,
+        end: startFrame + frameCount,
+      })),
+    [timeline, settings],
+  );
+
+  const suggestionDiff = useMemo(
+    () =>
+      suggestion &&
+      diffScenes(readPromptScenes(prompt, themes), readPromptScenes(suggestion.prompt, themes)),
+    [suggestion, prompt, themes],
+  );
+
+  const assetIdsKey = collectAssetIds(timeline, theme).join(",");
+
+  useEffect(() => {
+    listAssets()
+      .then(setAssetLibrary)
+      .catch((err) => console.error("The asset library could not be loaded.", err));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAssetImages(assetLibrary, assetIdsKey.split(","))
+      .then((images) => {
+        if (!cancelled) setAssetImages(images);
+      })
+      .catch((err) => console.error("Scene images could not be decoded.", err));
+    return () => {
+      cancelled = true;
+    };
+  }, [assetLibrary, assetIdsKey]);
+
+  useEffect(() => {
+    fetch("/api/enhance")
+      .then((response) => response.json() as Promise<{ providers?: PromptProviderSummary[] }>)
+      .then((body) => setPromptProviders(body.providers ?? []))
+      .catch((err) => console.error("Prompt providers could not be listed.", err));
+  }, []);
+
+  useEffect(() => {
+    listFonts()
+      .then(setFontLibrary)
+      .catch((err) => console.error("Uploaded fonts could not be loaded.", err));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    collectFontSources(fontLibrary)
+      .then((sources) => {
+        if (!cancelled) setFontSources(sources);
+      })
+      .catch((err) => {
+        console.error("Uploaded fonts could not be read.", err);
+        if (cancelled) return;
+        setFontSources([]);
+        setFontLoadError("Uploaded fonts could not be read, so fallback fonts are used.");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fontLibrary]);
+
+  useEffect(() => {
+    if (!fontSources) return;
+    let cancelled = false;
+    loadFonts(document.fonts, fontSources, fontUsage)
+      .then(() => {
+        if (cancelled) return;
+        setLoadedFonts({ key: fontsKey, usage: fontUsage });
+        setFontLoadError(null);
+      })
+      .catch((err) => {
+        console.error("Fonts could not be loaded.", err);
+        if (cancelled) return;
+        // Settled all the same, so the preview and renders go ahead in the fallback fonts.
+        setLoadedFonts({ key: fontsKey, usage: fontUsage });
+        setFontLoadError(
+          `Fonts could not be loaded, so fallback fonts are used: ${
+            err instanceof Error ? err.message : String(err)
+          }`,
+        );
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [fontSources, fontUsage, fontsKey]);
+
+  const uploadFonts = async (files: File[]) => {
+    setFontUploading(true);
+    const issues: string[] = [];
+    let library = fontLibrary;
+    for (const file of files) {
+      try {
+        library = [...library, await saveFont(file, library)];
+      } catch (err) {
+        console.error(err);
+        issues.push(err instanceof Error ? err.message : `${file.name} could not be saved.`);
+      }
+    }
+    setFontLibrary(library);
+    setFontIssues(issues);
+    setFontUploading(false);
+  };
+
+  const removeFont = async (id: string) => {
+    try {
+      await deleteFont(id);
+      const font = fontLibrary.find((item) => item.id === id);
+      if (font) releaseFont(document.fonts, font.family);
+      setFontLibrary((current) => current.filter((item) => item.id !== id));
+      setFontIssues([]);
+    } catch (err) {
+      console.error(err);
+      setFontIssues(["The font could not be deleted."]);
+    }
+  };
+
+  const uploadAssets = async (files: File[]) => {
+    setAssetUploading(true);
+    const issues: string[] = [];
+    for (const file of files) {
+      try {
+        await saveAsset(file);
+      } catch (err) {
+        console.error(err);
+        issues.push(err instanceof Error ? err.message : `${file.name} could not be saved.`);
+      }
+    }
+    try {
+      setAssetLibrary(await listAssets());
+    } catch (err) {
+      console.error(err);
+      issues.push("The asset library could not be loaded.");
+    }
+    setAssetIssues(issues);
+    setAssetUploading(false);
+  };
+
+  const removeAsset = async (id: string) => {
+    try {
+      await deleteAsset(id);
+      // Committed before the bitmap closes, so the preview never draws a closed image.
+      flushSync(() =>
+        setAssetImages((current) => {
+          const next = new Map(current);
+          next.delete(id);
+          return next;
+        }),
+      );
+      releaseAssetImage(id);
+      setAssetLibrary((current) => current.filter((asset) => asset.id !== id));
+      setAssetIssues([]);
+    } catch (err) {
+      console.error(err);
+      setAssetIssues(["The image could not be deleted."]);
+    }
+  };
+
+  const enhancePrompt = async () => {
+    setEnhancing(true);
+    setEnhanceError(null);
+    try {
+      const response = await fetch("/api/enhance", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ brief: prompt, provider: promptProviderId ?? undefined }),
+      });
+      const body = (await response.json()) as {
+        enhancement?: PromptEnhancement;
+        error?: string;
+      };
+      if (!response.ok || !body.enhancement) {
+        throw new Error(body.error ?? "The prompt could not be enhanced.");
+      }
+      setSuggestion({
+        prompt: formatEnhancementScript(body.enhancement),
+        style: body.enhancement.style,
+      });
+    } catch (err) {
+      console.error(err);
+      setSuggestion(null);
+      setEnhanceError(err instanceof Error ? err.message : "The prompt could not be enhanced.");
+    } finally {
+      setEnhancing(false);
+    }
+  };
+
+  const acceptSuggestion = () => {
+    if (!suggestion) return;
+    setPrompt(suggestion.prompt);
+    if (suggestion.style) setThemeId(suggestion.style);
+    setSuggestion(null);
+  };
+
+  const handleAudioFile = async (file: File) => {
+    setAudioLoading(true);
+    try {
+      const buffer = await decodeAudioFile(file);
+      setAudioTrack({ name: file.name, buffer, analysis: analyseAudio(buffer) });
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setError("That audio file could not be decoded.");
+    } finally {
+      setAudioLoading(false);
+    }
+  };
+
+  // Split and merge rewrite the prompt, so carry the look of the edited scene over to the
+  // scenes it turns into. Durations are left to the new scenes.
+  const restructurePrompt = (nextPrompt: string, carry: [from: number, to: number][]) => {
+    const nextKeys = keyScenes(splitSentences(nextPrompt));
+    setSceneOverrides((current) => {
+      let next = current;
+      for (const [from, to] of carry) {
+        const override = current[sceneTimeline[from]?.key];
+        if (override && nextKeys[to]) {
+          next = updateSceneOverride(next, nextKeys[to], {
+            palette: override.palette,
+            textAlign: override.textAlign,
+            layerToggles: override.layerToggles,
+            animation: override.animation,
+            assets: override.assets,
+          });
+        }
+      }
+      return next;
+    });
+    setPrompt(nextPrompt);
+  };
 
   useEffect(() => {
     return () => {
@@ -280,84 +626,781 @@ export default function Home() {
     };
   }, [videoUrl]);
 
-  const canGenerate = sentences.length > 0;
+  useEffect(() => {
+    return () => {
+      if (posterUrl) {
+        URL.revokeObjectURL(posterUrl);
+      }
+    };
+  }, [posterUrl]);
+
+  useEffect(() => {
+    return () => batchClips.forEach((clip) => URL.revokeObjectURL(clip.url));
+  }, [batchClips]);
 
-  const handleGenerate = async () => {
-    if (!canGenerate) return;
+  // Scene stills for the Production Timeline, drawn once edits settle and the fonts are in.
+  useEffect(() => {
+    if (!fontsReady) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      const { width, height } = getOutputDimensions(settings.output);
+      const canvas = document.createElement("canvas");
+      canvas.width = THUMBNAIL_WIDTH;
+      canvas.height = scaledHeight(THUMBNAIL_WIDTH, width, height);
+      const ctx = canvas.getContext("2d", { willReadFrequently: true });
+      if (!ctx) return;
+      renderSceneThumbnails(ctx, timeline, settings, assetImages)
+        .then((stills) => {
+          if (cancelled) return;
+          // Continuation scenes share a key, and the first part pictures the scene.
+          const next: Record<string, string> = {};
+          timeline.forEach((slice, index) => {
+            next[slice.key] ??= URL.createObjectURL(stills[index]);
+          });
+          setThumbnails(next);
+        })
+        .catch((err) => console.error("Scene thumbnails could not be drawn.", err));
+    }, THUMBNAIL_DELAY_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [timeline, settings, assetImages, fontsReady]);
 
-    setVideoUrl(null);
-    setError(null);
-    setPhase("preparing");
-    setProgress(0);
+  useEffect(() => {
+    return () => Object.values(thumbnails).forEach((url) => URL.revokeObjectURL(url));
+  }, [thumbnails]);
 
+  useEffect(() => {
+    return () => {
+      renderRef.current?.controller.abort();
+      stillExportRef.current?.abort();
+      workerRendererRef.current?.dispose();
+      workerRendererRef.current = null;
+      queueJobsRef.current.forEach((job) => job.url && URL.revokeObjectURL(job.url));
+    };
+  }, []);
+
+  // Renders in a worker where the browser supports it, keeping the page responsive. The
+  // worker keeps the canvas it was handed, so it is created once and reused.
+  const getWorkerRenderer = () => {
+    if (!workerRendererRef.current && workerCanvasRef.current && isWorkerRenderSupported()) {
+      workerRendererRef.current = createWorkerRenderer(workerCanvasRef.current);
+    }
+    return workerRendererRef.current;
+  };
+
+  const canGenerate = sentences.length > 0 && script.issues.length === 0 && fontsReady;
+  const rendering = phase === "preparing" || phase === "rendering" || phase === "encoding";
+  // Resuming needs the exact inputs of the failed render, so any edit since starts over.
+  const canResume =
+    resumePoint !== null &&
+    renderMode === "offline" &&
+    resumePoint.timeline === timeline &&
+    resumePoint.settings === settings &&
+    resumePoint.batchAspectRatios === batchAspectRatios;
+  const outputDimensions = getOutputDimensions(output);
+  // Preview at 720p in every format; the layout scales, so only sharpness differs.
+  const previewDimensions = getOutputDimensions({ ...output, resolution: "720p" });
+  const gifHeight = scaledHeight(
+    gifOptions.width,
+    outputDimensions.width,
+    outputDimensions.height,
+  );
+
+  const loadRenderInputs = async (
+    renderTimeline: TimelineSlice[],
+    renderSettings: GenerationSettings,
+    soundtrack: QueueSoundtrack | null,
+  ) => {
+    const audio = soundtrack
+      ? await mixAudioTrack(
+          soundtrack.buffer,
+          soundtrack.settings,
+          getTotalFrames(renderTimeline, renderSettings) / renderSettings.fps,
+        )
+      : null;
+    // Every image is decoded and every font loaded up front so frame zero already shows them.
+    const images = await loadAssetImages(
+      assetLibrary,
+      collectAssetIds(renderTimeline, renderSettings.theme),
+    );
+    const fonts = fontSources ?? [];
+    await loadFonts(
+      document.fonts,
+      fonts,
+      collectFontUsage(renderTimeline, renderSettings.theme),
+    ).catch((err) => console.error("Fonts could not be loaded; rendering in fallbacks.", err));
+    return { audio, images, fonts };
+  };
+
+  // Shared by the Render button and the queue. Offline renders go to the worker where one is
+  // available; real-time capture records the page's own canvas.
+  const renderClip = async ({
+    timeline: renderTimeline,
+    settings: renderSettings,
+    mode,
+    audio,
+    images,
+    fonts,
+    control,
+    onProgress,
+    onPhase,
+    onFrame,
+  }: {
+    timeline: TimelineSlice[];
+    settings: GenerationSettings;
+    mode: RenderMode;
+    audio: AudioBuffer | null;
+    images: AssetImages;
+    fonts: FontSource[];
+    control: OfflineRenderControl;
+    onProgress: (complete: number) => void;
+    onPhase: (phase: RecorderPhase) => void;
+    onFrame?: (frameIndex: number, sceneIndex: number) => void;
+  }): Promise<{ clip: EncodedClip; fingerprint: string | null; engine: RenderEngine }> => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      throw new Error("The rendering surface could not be prepared.");
+    }
+    if (mode === "offline" && !isOfflineRenderSupported()) {
+      throw new Error("WebCodecs is not available in this browser. Switch to real-time capture.");
+    }
+    const { width, height } = getOutputDimensions(renderSettings.output);
+    canvas.width = width;
+    canvas.height = height;
+
+    if (mode === "realtime") {
+      const clip = await recordTimelineRealtime(
+        canvas,
+        renderTimeline,
+        renderSettings,
+        onPhase,
+        onProgress,
+        audio,
+        images,
+        control,
+      );
+      return { clip, fingerprint: null, engine: "mediarecorder" };
+    }
+
+    onPhase("rendering");
+    const workerRenderer = getWorkerRenderer();
+    if (workerRenderer) {
+      const result = await workerRenderer.render(
+        renderTimeline,
+        renderSettings,
+        onProgress,
+        audio,
+        images,
+        fonts,
+        control,
+        onFrame,
+      );
+      return { ...result, engine: "worker" };
+    }
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error("Canvas context is not available.");
+    }
+    const result = await renderTimelineOffline(
+      ctx,
+      renderTimeline,
+      renderSettings,
+      onProgress,
+      audio,
+      images,
+      control,
+    );
+    return { ...result, engine: "webcodecs" };
+  };
+
+  // Drawn on the page canvas, which is free again once the clip has been rendered.
+  const renderPoster = async (
+    renderTimeline: TimelineSlice[],
+    renderSettings: GenerationSettings,
+    frameIndex: number,
+    images: AssetImages,
+  ) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d", { willReadFrequently: true });
+    if (!canvas || !ctx) return null;
+    const { width, height } = getOutputDimensions(renderSettings.output);
+    canvas.width = width;
+    canvas.height = height;
     try {
-      if (videoUrl) {
-        URL.revokeObjectURL(videoUrl);
-        setVideoUrl(null);
-      }
+      return await renderStill(ctx, renderTimeline, renderSettings, frameIndex, images);
+    } catch (err) {
+      console.error("The poster frame could not be drawn.", err);
+      return null;
+    }
+  };
 
-      if (typeof window === "undefined" || !window.MediaRecorder) {
-        throw new Error("MediaRecorder is not available in this environment.");
+  const exportStill = async (kind: StillExportKind) => {
+    const canvas = canvasRef.current;
+    if (!canvas || stillExportRef.current) return;
+    const controller = new AbortController();
+    stillExportRef.current = controller;
+    setStillExport({ kind, progress: 0 });
+    setStillError(null);
+    try {
+      const { images } = await loadRenderInputs(timeline, settings, null);
+      canvas.width = kind === "gif" ? gifOptions.width : outputDimensions.width;
+      canvas.height = kind === "gif" ? gifHeight : outputDimensions.height;
+      const ctx = canvas.getContext("2d", { willReadFrequently: true });
+      if (!ctx) {
+        throw new Error("Canvas context is not available.");
       }
-      const mimeType = pickMimeType();
-      if (!mimeType) {
-        throw new Error("No supported video MIME type found for this browser.");
+      const onProgress = throttleProgress((complete) =>
+        setStillExport({ kind, progress: complete }),
+      );
+      const control = { signal: controller.signal };
+      if (kind === "poster") {
+        const poster = await renderStill(ctx, timeline, settings, posterFrame, images);
+        downloadBlob(poster, "nebula-synth-poster.png");
+      } else if (kind === "gif") {
+        downloadBlob(
+          await renderGif(
+            ctx,
+            timeline,
+            settings,
+            frameRange,
+            gifOptions,
+            onProgress,
+            images,
+            control,
+          ),
+          "nebula-synth.gif",
+        );
+      } else {
+        downloadBlob(
+          await renderPngSequence(ctx, timeline, settings, frameRange, onProgress, images, control),
+          "nebula-synth-frames.zip",
+        );
       }
-
-      const canvas = canvasRef.current;
-      if (!canvas) {
-        throw new Error("The rendering surface could not be prepared.");
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error(err);
+        setStillError(err instanceof Error ? err.message : "The export failed.");
       }
+    } finally {
+      stillExportRef.current = null;
+      setStillExport(null);
+    }
+  };
 
-      const stream = canvas.captureStream(fps);
-      const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 6_000_000 });
-      const chunks: BlobPart[] = [];
-      const videoPromise = new Promise<Blob>((resolve, reject) => {
-        recorder.ondataavailable = (event) => {
-          if (event.data.size > 0) {
-            chunks.push(event.data);
-          }
-        };
-        recorder.onerror = (event) => {
-          const message = event.error?.message ?? "An unknown recording error occurred.";
-          reject(new Error(message));
-        };
-        recorder.onstop = () => {
-          resolve(new Blob(chunks, { type: mimeType }));
-        };
-      });
+  const handleGenerate = async (resume: ResumePoint | null = null) => {
+    if (!canGenerate || renderRef.current || stillExportRef.current) return;
 
-      setPhase("rendering");
-      recorder.start();
+    const render: ActiveRender = {
+      controller: new AbortController(),
+      pause: createPauseController(),
+      queue: false,
+      discarded: false,
+    };
+    renderRef.current = render;
+    render.pause.subscribe(setPaused);
+    const { signal } = render.controller;
+    // A render thrown away by a reset must not overwrite the page's state.
+    const isCurrent = () => !render.discarded;
 
-      await renderTimelineToVideo(
-        canvas,
+    if (videoUrl) {
+      URL.revokeObjectURL(videoUrl);
+    }
+    setVideoUrl(null);
+    setPosterUrl(null);
+    setSharedClipId(null);
+    setBatchClips([]);
+    setFingerprint(null);
+    setRenderReport(null);
+    setCaptionCues(null);
+    setError(null);
+    setPaused(false);
+    setResumePoint(null);
+    setRenderPosition(null);
+    setPhase("preparing");
+    setProgress(0);
+
+    const clips: EncodedClip[] = [...(resume?.clips ?? [])];
+    let firstFingerprint = resume?.fingerprint ?? null;
+    // The report covers the main clip; other aspect ratios render the same way.
+    const trace = createRenderTrace();
+    const startedAt = performance.now();
+    let engine: RenderEngine | null = null;
+    try {
+      const { audio, images, fonts } = await loadRenderInputs(
         timeline,
-        { fps, segmentSeconds, style },
-        (ratio) => setProgress(ratio),
+        settings,
+        audioTrack && { buffer: audioTrack.buffer, settings: audioSettings },
       );
+      tracePhase(trace, "inputs", startedAt);
+      signal.throwIfAborted();
 
-      setPhase("encoding");
-      recorder.stop();
+      const outputs = [
+        settings.output,
+        ...batchAspectRatios
+          .filter((aspectRatio) => aspectRatio !== settings.output.aspectRatio)
+          .map((aspectRatio) => ({ aspectRatio, resolution: settings.output.resolution })),
+      ];
+      for (const [index, output] of outputs.entries()) {
+        if (index < clips.length) continue;
+        const result = await renderClip({
+          timeline: index === 0 ? timeline : fitTimeline(sceneTimeline, { ...settings, output }),
+          settings: { ...settings, output },
+          mode: renderMode,
+          audio,
+          images,
+          fonts,
+          control: {
+            signal,
+            pause: render.pause,
+            resumeFrom: index === resume?.clips.length ? resume.checkpoint : null,
+            trace: index === 0 ? trace : undefined,
+            fingerprint: fingerprintFrames,
+          },
+          onProgress: throttleProgress((ratio) => {
+            if (isCurrent()) setProgress((index + ratio) / outputs.length);
+          }),
+          onPhase: (next) => {
+            if (isCurrent()) setPhase(next);
+          },
+          onFrame: (frameIndex, sceneIndex) => {
+            if (isCurrent()) setRenderPosition({ frameIndex, sceneIndex });
+          },
+        });
+        clips.push(result.clip);
+        if (index === 0) {
+          firstFingerprint = result.fingerprint;
+          engine = result.engine;
+          setFingerprint(result.fingerprint);
+        }
+      }
+      const posterStart = performance.now();
+      const poster = await renderPoster(timeline, settings, posterFrame, images);
+      tracePhase(trace, "poster", posterStart);
+      // No report when the main clip came from before a resume, as nothing traced it.
+      const report =
+        engine &&
+        (await buildRenderReport({
+          clip: clips[0],
+          timeline,
+          settings,
+          mode: renderMode,
+          engine,
+          hasAudio: audio !== null,
+          trace,
+          totalMs: performance.now() - startedAt,
+          fingerprint: firstFingerprint,
+        }));
 
-      const blob = await videoPromise;
+      if (!isCurrent()) return;
+      const [clip, ...extraClips] = clips;
+      setFingerprint(firstFingerprint);
+      setRenderReport(report);
       setPhase("complete");
       setProgress(1);
-      setVideoUrl(URL.createObjectURL(blob));
+      setVideoExtension(clip.extension);
+      setCaptionCues(buildCaptionCues(timeline, settings));
+      setVideoUrl(URL.createObjectURL(clip.blob));
+      setPosterUrl(poster && URL.createObjectURL(poster));
+      setBatchClips(
+        extraClips.map((extra, index) => ({
+          output: outputs[index + 1],
+          url: URL.createObjectURL(extra.blob),
+          extension: extra.extension,
+        })),
+      );
+      setMonitorView("clip");
     } catch (err) {
+      if (!isCurrent()) return;
+      setPaused(false);
+      if (isAbortError(err)) {
+        setPhase("cancelled");
+        return;
+      }
       console.error(err);
       setPhase("error");
       setError(err instanceof Error ? err.message : "Failed to generate video.");
+      if (renderMode === "offline" && err instanceof RenderFrameError && err.checkpoint) {
+        setResumePoint({
+          timeline,
+          settings,
+          batchAspectRatios,
+          clips,
+          fingerprint: firstFingerprint,
+          checkpoint: err.checkpoint,
+        });
+      }
+    } finally {
+      // The canvas and worker stay taken until the render has actually stopped.
+      if (renderRef.current === render) renderRef.current = null;
+      if (render.discarded) setStopping(false);
+    }
+  };
+
+  const updateQueue = (update: (jobs: QueueJob[]) => QueueJob[]) => {
+    queueJobsRef.current = update(queueJobsRef.current);
+    setQueueJobs(queueJobsRef.current);
+  };
+
+  const patchQueueJob = (id: string, patch: Partial<QueueJob>) =>
+    updateQueue((jobs) => jobs.map((job) => (job.id === id ? { ...job, ...patch } : job)));
+
+  // One job per output, like the Render button, snapshotting the project as it is now. Each
+  // style's fonts are loaded first, since splitting overlong scenes measures text in them.
+  const addToQueue = async (queueThemes: Theme[]) => {
+    await Promise.all(
+      queueThemes.map((queueTheme) =>
+        loadFonts(
+          document.fonts,
+          fontSources ?? [],
+          collectFontUsage(buildTimeline(queueTheme), queueTheme),
+        ),
+      ),
+    );
+    const outputs = [
+      output,
+      ...batchAspectRatios
+        .filter((aspectRatio) => aspectRatio !== output.aspectRatio)
+        .map((aspectRatio) => ({ aspectRatio, resolution: output.resolution })),
+    ];
+    const jobs = queueThemes.flatMap((queueTheme) =>
+      outputs.map((jobOutput) => {
+        const jobSettings = { ...settings, theme: queueTheme, output: jobOutput };
+        return createQueueJob({
+          label: `${projectName} · ${queueTheme.name} · ${jobOutput.aspectRatio}`,
+          prompt,
+          timeline: fitTimeline(buildTimeline(queueTheme), jobSettings),
+          settings: jobSettings,
+          renderMode,
+          soundtrack: audioTrack && { buffer: audioTrack.buffer, settings: audioSettings },
+        });
+      }),
+    );
+    updateQueue((current) => [...current, ...jobs]);
+  };
+
+  const moveQueueJob = (index: number, offset: -1 | 1) =>
+    updateQueue((jobs) => {
+      const next = [...jobs];
+      const [job] = next.splice(index, 1);
+      next.splice(index + offset, 0, job);
+      return next;
+    });
+
+  const removeQueueJobs = (remove: (job: QueueJob) => boolean) =>
+    updateQueue((jobs) =>
+      jobs.filter((job) => {
+        if (!remove(job) || job.status === "rendering") return true;
+        if (job.url) URL.revokeObjectURL(job.url);
+        return false;
+      }),
+    );
+
+  const runQueue = async () => {
+    if (renderRef.current || stillExportRef.current) return;
+    const render: ActiveRender = {
+      controller: new AbortController(),
+      pause: createPauseController(),
+      queue: true,
+      discarded: false,
+    };
+    renderRef.current = render;
+    const { signal } = render.controller;
+    setQueueRunning(true);
+    try {
+      for (
+        let job = queueJobsRef.current.find((item) => item.status === "queued");
+        job && !signal.aborted;
+        job = queueJobsRef.current.find((item) => item.status === "queued")
+      ) {
+        const { id } = job;
+        patchQueueJob(id, { status: "rendering", progress: 0, error: null });
+        try {
+          const { audio, images, fonts } = await loadRenderInputs(
+            job.timeline,
+            job.settings,
+            job.soundtrack,
+          );
+          const result = await renderClip({
+            timeline: job.timeline,
+            settings: job.settings,
+            mode: job.renderMode,
+            audio,
+            images,
+            fonts,
+            control: { signal, pause: render.pause, fingerprint: fingerprintFrames },
+            onProgress: throttleProgress((complete) => patchQueueJob(id, { progress: complete })),
+            onPhase: () => undefined,
+          });
+          const poster = await renderPoster(
+            job.timeline,
+            job.settings,
+            getDefaultPosterFrame(job.timeline, job.settings),
+            images,
+          );
+          patchQueueJob(id, {
+            status: "complete",
+            progress: 1,
+            clip: result.clip,
+            url: URL.createObjectURL(result.clip.blob),
+            poster,
+            fingerprint: result.fingerprint,
+            renderedAt: new Date().toISOString(),
+          });
+        } catch (err) {
+          if (isAbortError(err)) {
+            patchQueueJob(id, { status: "cancelled" });
+            break;
+          }
+          console.error(err);
+          patchQueueJob(id, {
+            status: "error",
+            error: err instanceof Error ? err.message : "Failed to generate video.",
+          });
+        }
+      }
+    } finally {
+      if (renderRef.current === render) renderRef.current = null;
+      setQueueRunning(false);
     }
   };
 
+  const downloadQueueArchive = async () => {
+    try {
+      downloadBlob(await createQueueArchive(queueJobsRef.current), "nebula-queue.zip");
+    } catch (err) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "The ZIP archive could not be created.");
+    }
+  };
+
+  const cancelRender = () => renderRef.current?.controller.abort();
+
+  const togglePause = () => {
+    const pause = renderRef.current?.pause;
+    if (pause?.paused) pause.resume();
+    else pause?.pause();
+  };
+
   const reset = () => {
+    const render = renderRef.current;
+    if (render && !render.queue) {
+      render.discarded = true;
+      render.controller.abort();
+      setStopping(true);
+    }
+    setPaused(false);
+    setResumePoint(null);
     setVideoUrl(null);
+    setPosterUrl(null);
+    setSharedClipId(null);
+    setShareNotice(null);
+    setBatchClips([]);
+    setFingerprint(null);
+    setRenderReport(null);
+    setCaptionCues(null);
     setProgress(0);
     setPhase("idle");
     setError(null);
   };
 
+  const project = useMemo<NebulaProject>(
+    () => ({
+      id: projectId,
+      name: projectName,
+      createdAt,
+      updatedAt: createdAt,
+      prompt,
+      settings,
+      sceneOverrides,
+      batchAspectRatios,
+      renderMode,
+      audio: { settings: audioSettings, timingMode },
+    }),
+    [
+      projectId,
+      projectName,
+      createdAt,
+      prompt,
+      settings,
+      sceneOverrides,
+      batchAspectRatios,
+      renderMode,
+      audioSettings,
+      timingMode,
+    ],
+  );
+
+  const applyProject = (next: NebulaProject) => {
+    const nextTheme = next.settings.theme;
+    if (!isBuiltInTheme(nextTheme.id) && !findTheme(customThemes, nextTheme.id)) {
+      upsertCustomTheme(nextTheme);
+    }
+    setProjectId(next.id);
+    setProjectName(next.name);
+    setCreatedAt(next.createdAt);
+    setSavedAt(null);
+    setProjectIssues([]);
+    setPrompt(next.prompt);
+    setThemeId(nextTheme.id);
+    setFps(next.settings.fps);
+    setSegmentSeconds(next.settings.segmentSeconds);
+    setOutput(next.settings.output);
+    setBatchAspectRatios(next.batchAspectRatios);
+    setFormat(next.settings.format);
+    setBitrate(next.settings.bitrate);
+    setTransition(next.settings.transition);
+    setCaptionStyle(next.settings.captionStyle);
+    setSceneOverrides(next.sceneOverrides);
+    setRenderMode(next.renderMode);
+    setAudioSettings(next.audio.settings);
+    setTimingMode(next.audio.timingMode);
+    setAudioTrack(null);
+    setFrameRangeInput(null);
+    setPosterFrameInput(null);
+    setSuggestion(null);
+    reset();
+  };
+
+  const showProjectError = (err: unknown) => {
+    console.error(err);
+    setProjectIssues(
+      err instanceof ProjectFileError
+        ? err.issues
+        : [err instanceof Error ? err.message : "The project could not be opened."],
+    );
+  };
+
+  // A share link in the URL wins over the most recently saved project.
+  const restoreProject = useEffectEvent(async () => {
+    try {
+      const shared = readShareLink(window.location.hash);
+      if (shared) {
+        window.history.replaceState(null, "", window.location.pathname + window.location.search);
+      }
+      const recent = await listRecentProjects();
+      setRecentProjects(recent);
+      if (shared) {
+        const next = await decodeProjectState(shared.token);
+        applyProject(next);
+        if (shared.clipId) {
+          setVideoUrl(`/api/clips/${encodeURIComponent(shared.clipId)}`);
+          setVideoExtension(next.settings.format);
+          setSharedClipId(shared.clipId);
+          setMonitorView("clip");
+        }
+        return;
+      }
+      const latest = recent[0] ? await loadProject(recent[0].id) : null;
+      if (latest) applyProject(latest);
+    } catch (err) {
+      showProjectError(err);
+    } finally {
+      setProjectRestored(true);
+    }
+  });
+
+  useEffect(() => {
+    void restoreProject();
+  }, []);
+
+  useEffect(() => {
+    if (!projectRestored) return;
+    const timer = setTimeout(() => {
+      const updatedAt = new Date().toISOString();
+      saveProject({ ...project, updatedAt })
+        .then(() => {
+          setSavedAt(updatedAt);
+          return listRecentProjects();
+        })
+        .then(setRecentProjects)
+        .catch((err) => console.error("Autosave failed.", err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [project, projectRestored]);
+
+  const openProjectFile = async (file: File) => {
+    try {
+      applyProject(parseProjectFile(JSON.parse(await file.text())));
+    } catch (err) {
+      showProjectError(
+        err instanceof SyntaxError ? new Error(`${file.name} is not valid JSON.`) : err,
+      );
+    }
+  };
+
+  const openRecentProject = async (id: string) => {
+    try {
+      const saved = await loadProject(id);
+      if (saved) applyProject(saved);
+    } catch (err) {
+      showProjectError(err);
+    }
+  };
+
+  const removeRecentProject = async (id: string) => {
+    try {
+      await deleteProject(id);
+      setRecentProjects(await listRecentProjects());
+    } catch (err) {
+      showProjectError(err);
+    }
+  };
+
+  const copyShareLink = async (clipId: string | null) => {
+    if (!navigator.clipboard) {
+      throw new Error("Clipboard access is not available in this environment.");
+    }
+    const token = await encodeProjectState(project);
+    await navigator.clipboard.writeText(buildShareUrl(window.location.href, { token, clipId }));
+    setShareNotice(
+      clipId
+        ? "Link copied. It opens this project with the rendered clip."
+        : "Link copied. It opens this project, ready to render.",
+    );
+  };
+
+  const shareProject = async () => {
+    try {
+      await copyShareLink(null);
+      setProjectIssues([]);
+    } catch (err) {
+      setShareNotice(null);
+      showProjectError(err);
+    }
+  };
+
+  const shareClip = async () => {
+    if (!videoUrl) return;
+    setClipUploading(true);
+    try {
+      let clipId = sharedClipId;
+      if (!clipId) {
+        const blob = await (await fetch(videoUrl)).blob();
+        const response = await fetch("/api/clips", {
+          method: "POST",
+          headers: { "Content-Type": blob.type },
+          body: blob,
+        });
+        const body = (await response.json()) as { id?: string; error?: string };
+        if (!response.ok || !body.id) {
+          throw new Error(body.error ?? "The clip could not be uploaded.");
+        }
+        clipId = body.id;
+        setSharedClipId(clipId);
+      }
+      await copyShareLink(clipId);
+      setError(null);
+    } catch (err) {
+      console.error(err);
+      setShareNotice(null);
+      setError(err instanceof Error ? err.message : "The clip could not be shared.");
+    } finally {
+      setClipUploading(false);
+    }
+  };
+
   return (
     <div className="flex min-h-screen flex-col bg-gradient-to-br from-zinc-950 via-zinc-900 to-black text-zinc-100">
       <header className="border-b border-white/10 bg-black/40 backdrop-blur">
@@ -386,6 +1429,30 @@ export default function Home() {
 
       <main className="mx-auto flex w-full max-w-6xl flex-1 flex-col gap-10 px-6 py-10 lg:flex-row">
         <section className="flex w-full flex-col gap-6 rounded-3xl border border-white/10 bg-white/[0.03] p-8 shadow-2xl shadow-indigo-500/5 backdrop-blur">
+          <ProjectPanel
+            name={projectName}
+            projectId={projectId}
+            recentProjects={recentProjects}
+            savedAt={savedAt}
+            issues={projectIssues}
+            onRename={setProjectName}
+            onNew={() => applyProject(createProject())}
+            onOpenFile={(file) => void openProjectFile(file)}
+            onDownload={() =>
+              downloadBlob(
+                new Blob([serializeProject({ ...project, updatedAt: new Date().toISOString() })], {
+                  type: "application/json",
+                }),
+                projectFilename(project),
+              )
+            }
+            onOpenRecent={(id) => void openRecentProject(id)}
+            onDeleteRecent={(id) => void removeRecentProject(id)}
+            canShare={clipboardAvailable}
+            shareNotice={shareNotice}
+            onShare={() => void shareProject()}
+          />
+
           <div className="flex flex-col gap-3">
             <label className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
               Narrative Prompt
@@ -396,6 +1463,38 @@ export default function Home() {
               className="min-h-[160px] rounded-2xl border border-white/10 bg-black/30 p-4 text-sm leading-relaxed text-zinc-100 shadow-inner shadow-black/20 transition focus:border-indigo-400/60 focus:outline-none focus:ring-0"
               placeholder="Describe the motion you want to see..."
             />
+            <p className="text-xs text-zinc-500">
+              {script.mode === "script"
+                ? `Script · ${script.scenes.length} scene${script.scenes.length === 1 ? "" : "s"}. `
+                : "Prose · one scene per sentence. "}
+              Separate scenes with blank lines or ---, title them with # Heading, and set
+              options with [duration: 4s], [style: aqua], [transition: wipe left],
+              [align: left] or [animation: typewriter].
+            </p>
+            {script.issues.length > 0 && (
+              <ul className="flex flex-col gap-1 rounded-xl border border-rose-500/40 bg-rose-500/10 p-3 text-xs text-rose-200">
+                {script.issues.map((issue, index) => (
+                  <li key={index}>{formatScriptIssue(issue)}</li>
+                ))}
+              </ul>
+            )}
+            <PromptEnhancer
+              providers={promptProviders}
+              providerId={promptProviderId}
+              enhancing={enhancing}
+              canEnhance={prompt.trim() !== "" && !rendering}
+              error={enhanceError}
+              diff={suggestionDiff}
+              currentStyle={theme.name}
+              suggestedStyle={
+                suggestion?.style ? (findTheme(themes, suggestion.style)?.name ?? null) : null
+              }
+              segmentSeconds={segmentSeconds}
+              onProviderChange={setPromptProviderId}
+              onEnhance={() => void enhancePrompt()}
+              onAccept={acceptSuggestion}
+              onDiscard={() => setSuggestion(null)}
+            />
           </div>
 
           <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
@@ -404,26 +1503,28 @@ export default function Home() {
                 Visual Style
               </label>
               <div className="grid grid-cols-3 gap-2 text-sm">
-                {Object.keys(STYLE_PALETTES).map((value) => {
-                  const palette = STYLE_PALETTES[value as VisualStyle][0];
-                  return (
-                    <button
-                      key={value}
-                      onClick={() => setStyle(value as VisualStyle)}
-                      className={`rounded-2xl border border-white/15 p-3 transition hover:border-white/40 ${
-                        style === value ? "ring-2 ring-indigo-400/80" : ""
-                      }`}
-                      style={{
-                        background: `linear-gradient(135deg, ${palette[0]}, ${palette[1]})`,
-                      }}
-                    >
-                      <span className="text-xs font-semibold uppercase tracking-widest text-white drop-shadow">
-                        {value}
-                      </span>
-                    </button>
-                  );
-                })}
+                {themes.map((option) => (
+                  <button
+                    key={option.id}
+                    onClick={() => setThemeId(option.id)}
+                    className={`rounded-2xl border border-white/15 p-3 transition hover:border-white/40 ${
+                      theme.id === option.id ? "ring-2 ring-indigo-400/80" : ""
+                    }`}
+                    style={{ background: paletteToCss(option.palettes[0], option.angle) }}
+                  >
+                    <span className="text-xs font-semibold uppercase tracking-widest text-white drop-shadow">
+                      {option.name}
+                    </span>
+                  </button>
+                ))}
               </div>
+              <ThemeEditor
+                theme={theme}
+                customThemes={customThemes}
+                assets={assetLibrary}
+                fonts={fontLibrary}
+                onSelect={setThemeId}
+              />
             </div>
 
             <div className="grid grid-cols-2 gap-4">
@@ -459,44 +1560,303 @@ export default function Home() {
             </div>
           </div>
 
+          <div className="flex flex-col gap-3">
+            <label className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+              Scene Transition
+            </label>
+            <div className="grid grid-cols-3 gap-2 text-sm">
+              {(Object.keys(TRANSITION_LABELS) as TransitionType[]).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setTransition((current) => ({ ...current, type: value }))}
+                  className={`rounded-2xl border border-white/15 bg-black/40 p-3 transition hover:border-white/40 ${
+                    transition.type === value ? "ring-2 ring-indigo-400/80" : ""
+                  }`}
+                >
+                  <span className="text-xs font-semibold uppercase tracking-widest text-white">
+                    {TRANSITION_LABELS[value]}
+                  </span>
+                </button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="flex flex-col gap-2 rounded-2xl border border-white/15 bg-black/40 p-4">
+                <span className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+                  Overlap
+                </span>
+                <input
+                  type="range"
+                  min={0.2}
+                  max={2}
+                  step={0.1}
+                  value={transition.durationSeconds}
+                  disabled={transition.type === "cut"}
+                  onChange={(event) =>
+                    setTransition((current) => ({
+                      ...current,
+                      durationSeconds: Number(event.target.value),
+                    }))
+                  }
+                  className="accent-indigo-400 disabled:opacity-40"
+                />
+                <span className="text-sm text-zinc-300">
+                  {transition.durationSeconds.toFixed(1)} sec overlap
+                </span>
+              </div>
+              <div className="flex flex-col gap-2 rounded-2xl border border-white/15 bg-black/40 p-4">
+                <span className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+                  Direction
+                </span>
+                <select
+                  value={transition.direction}
+                  disabled={transition.type !== "wipe" && transition.type !== "slide"}
+                  onChange={(event) =>
+                    setTransition((current) => ({
+                      ...current,
+                      direction: event.target.value as TransitionDirection,
+                    }))
+                  }
+                  className="rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-sm text-zinc-100 focus:border-indigo-400/60 focus:outline-none disabled:opacity-40"
+                >
+                  <option value="left">Left</option>
+                  <option value="right">Right</option>
+                  <option value="up">Up</option>
+                  <option value="down">Down</option>
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <label className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+              Caption Style
+            </label>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {(
+                [
+                  ["centered", "Centred", "Large wrapped text in the middle of the frame"],
+                  ["lower-third", "Lower third", "Burned-in caption band along the bottom"],
+                ] as const
+              ).map(([value, label, description]) => (
+                <button
+                  key={value}
+                  onClick={() => setCaptionStyle(value)}
+                  className={`flex flex-col items-start gap-1 rounded-2xl border border-white/15 bg-black/40 p-3 text-left transition hover:border-white/40 ${
+                    captionStyle === value ? "ring-2 ring-indigo-400/80" : ""
+                  }`}
+                >
+                  <span className="text-xs font-semibold uppercase tracking-widest text-white">
+                    {label}
+                  </span>
+                  <span className="text-xs text-zinc-400">{description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <SoundtrackPanel
+            track={audioTrack}
+            loading={audioLoading}
+            settings={audioSettings}
+            timingMode={timingMode}
+            onFile={handleAudioFile}
+            onRemove={() => setAudioTrack(null)}
+            onSettingsChange={(patch) => setAudioSettings((current) => ({ ...current, ...patch }))}
+            onTimingModeChange={setTimingMode}
+          />
+
+          <AssetLibrary
+            assets={assetLibrary}
+            uploading={assetUploading}
+            issues={assetIssues}
+            onUpload={uploadAssets}
+            onDelete={removeAsset}
+          />
+
+          <FontLibrary
+            fonts={fontLibrary}
+            uploading={fontUploading}
+            issues={fontIssues}
+            onUpload={uploadFonts}
+            onDelete={removeFont}
+          />
+
+          <div className="flex flex-col gap-3">
+            <label className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+              Render Mode
+            </label>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              {(
+                [
+                  ["offline", "Offline", "Frame-accurate, as fast as your device allows"],
+                  ["realtime", "Real-time", "MediaRecorder capture at playback speed"],
+                ] as const
+              ).map(([value, label, description]) => (
+                <button
+                  key={value}
+                  onClick={() => setRenderMode(value)}
+                  className={`flex flex-col items-start gap-1 rounded-2xl border border-white/15 bg-black/40 p-3 text-left transition hover:border-white/40 ${
+                    renderMode === value ? "ring-2 ring-indigo-400/80" : ""
+                  }`}
+                >
+                  <span className="text-xs font-semibold uppercase tracking-widest text-white">
+                    {label}
+                  </span>
+                  <span className="text-xs text-zinc-400">{description}</span>
+                </button>
+              ))}
+            </div>
+            {renderMode === "offline" && (
+              <label className="flex items-center gap-2 text-sm text-zinc-300">
+                <input
+                  type="checkbox"
+                  checked={fingerprintFrames}
+                  onChange={(event) => setFingerprintFrames(event.target.checked)}
+                  className="accent-indigo-400"
+                />
+                Fingerprint frames
+                <span className="text-xs text-zinc-500">
+                  Hashes every frame to compare renders; slower at large sizes
+                </span>
+              </label>
+            )}
+          </div>
+
+          <OutputSizePicker
+            output={output}
+            batchAspectRatios={batchAspectRatios}
+            onOutputChange={setOutput}
+            onBatchChange={setBatchAspectRatios}
+          />
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="flex flex-col gap-3">
+              <label className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+                Export Format
+              </label>
+              <div className="grid grid-cols-2 gap-2 text-sm">
+                {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map((value) => (
+                  <button
+                    key={value}
+                    onClick={() => setFormat(value)}
+                    className={`rounded-2xl border border-white/15 bg-black/40 p-3 transition hover:border-white/40 ${
+                      format === value ? "ring-2 ring-indigo-400/80" : ""
+                    }`}
+                  >
+                    <span className="text-xs font-semibold uppercase tracking-widest text-white">
+                      {FORMAT_LABELS[value]}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex flex-col gap-2 rounded-2xl border border-white/15 bg-black/40 p-4">
+              <span className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+                Bitrate
+              </span>
+              <input
+                type="range"
+                min={1_000_000}
+                max={20_000_000}
+                step={1_000_000}
+                value={bitrate}
+                onChange={(event) => setBitrate(Number(event.target.value))}
+                className="accent-indigo-400"
+              />
+              <span className="text-sm text-zinc-300">{bitrate / 1_000_000} Mbps target</span>
+            </div>
+          </div>
+
           <div className="rounded-2xl border border-white/10 bg-black/50 p-4 text-xs text-zinc-400">
             <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-indigo-200">
               Production Timeline
             </h3>
-            <div className="mt-4 flex flex-col gap-3">
-              {timeline.map((slice) => (
-                <div key={slice.index} className="flex items-center gap-4">
-                  <div
-                    className="h-12 w-12 flex-shrink-0 rounded-xl border border-white/10 shadow-inner shadow-black/40"
-                    style={{
-                      background: `linear-gradient(135deg, ${slice.palette[0]}, ${slice.palette[1]})`,
-                    }}
-                  />
-                  <div>
-                    <p className="text-xs uppercase tracking-[0.3em] text-white/60">
-                      Scene {String(slice.index + 1).padStart(2, "0")}
-                    </p>
-                    <p className="text-sm text-white/80">{slice.sentence}</p>
-                  </div>
-                </div>
-              ))}
-              {timeline.length === 0 && (
-                <p className="text-sm text-zinc-500">
-                  Add descriptive prose above to build your scene list. Each sentence
-                  becomes a unique animated beat in the final render.
-                </p>
-              )}
-            </div>
+            <ProductionTimeline
+              timeline={sceneTimeline}
+              sceneParts={sceneParts}
+              thumbnails={thumbnails}
+              palettes={theme.palettes}
+              angle={theme.angle}
+              layers={theme.layers}
+              assets={assetLibrary}
+              segmentSeconds={segmentSeconds}
+              transition={transition}
+              captionStyle={captionStyle}
+              onOverride={(key, patch) =>
+                setSceneOverrides((current) => updateSceneOverride(current, key, patch))
+              }
+              onResetScene={(key) =>
+                setSceneOverrides((current) => {
+                  const next = { ...current };
+                  delete next[key];
+                  return next;
+                })
+              }
+              onMove={(from, to) => setPrompt(moveSentenceInPrompt(prompt, from, to))}
+              onSplit={(sceneIndex, wordIndex) =>
+                restructurePrompt(splitSentenceInPrompt(prompt, sceneIndex, wordIndex), [
+                  [sceneIndex, sceneIndex],
+                  [sceneIndex, sceneIndex + 1],
+                ])
+              }
+              onMergeWithNext={(sceneIndex) =>
+                restructurePrompt(mergeSentenceWithNext(prompt, sceneIndex), [
+                  [sceneIndex, sceneIndex],
+                ])
+              }
+            />
           </div>
 
           <button
-            onClick={handleGenerate}
-            disabled={!canGenerate || phase === "rendering" || phase === "encoding"}
+            onClick={() => void handleGenerate()}
+            disabled={
+              !canGenerate || rendering || stopping || queueRunning || stillExport !== null
+            }
             className="relative flex items-center justify-center gap-3 rounded-full bg-indigo-500/90 px-6 py-3 text-sm font-semibold uppercase tracking-[0.35em] text-white transition enabled:hover:bg-indigo-400 disabled:cursor-not-allowed disabled:bg-white/20"
           >
-            {phase === "rendering" || phase === "encoding" ? "Generating..." : "Render"}
+            {rendering
+              ? "Generating..."
+              : stopping
+                ? "Stopping..."
+                : fontsReady
+                  ? "Render"
+                  : "Loading fonts..."}
           </button>
+          {(fontFallbacks.length > 0 || fontLoadError) && (
+            <ul className="flex flex-col gap-1 rounded-xl border border-amber-500/40 bg-amber-500/10 p-3 text-xs text-amber-200">
+              {fontLoadError && <li>{fontLoadError}</li>}
+              {fontFallbacks.map((fallback) => (
+                <li key={`${fallback.role}:${fallback.family}`}>{formatFontFallback(fallback)}</li>
+              ))}
+            </ul>
+          )}
+          {rendering && (
+            <div className="flex gap-3">
+              <button
+                onClick={togglePause}
+                disabled={phase !== "rendering"}
+                className="flex-1 rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-zinc-300 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:text-zinc-600"
+              >
+                {paused ? "Resume" : "Pause"}
+              </button>
+              <button
+                onClick={cancelRender}
+                className="flex-1 rounded-full border border-rose-500/40 px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-rose-200 transition hover:border-rose-400 hover:text-white"
+              >
+                Cancel
+              </button>
+            </div>
+          )}
           {error && <p className="text-sm text-red-400">{error}</p>}
+          {phase === "error" && canResume && resumePoint && (
+            <button
+              onClick={() => void handleGenerate(resumePoint)}
+              className="self-start rounded-full border border-indigo-400/60 px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-indigo-200 transition hover:border-indigo-300 hover:text-white"
+            >
+              Retry from frame {resumePoint.checkpoint.frameIndex + 1}
+              {resumePoint.clips.length > 0 && ` of clip ${resumePoint.clips.length + 1}`}
+            </button>
+          )}
         </section>
 
         <section className="flex w-full flex-col gap-6 rounded-3xl border border-white/10 bg-white/[0.02] p-8 shadow-2xl shadow-indigo-500/5 backdrop-blur">
@@ -506,42 +1866,84 @@ export default function Home() {
             </h2>
             <p className="text-sm text-zinc-400">
               Watch the compositor animate typography, gradients, and orbital motion as your
-              story plays out. Videos export in modern WebM for instant sharing.
+              story plays out. Clips export as MP4 (H.264) or WebM, ready for decks and social uploads.
             </p>
           </div>
 
-          <div className="relative flex aspect-video w-full items-center justify-center overflow-hidden rounded-3xl border border-white/10 bg-black/80">
-            {videoUrl ? (
-              <video
-                key={videoUrl}
-                src={videoUrl}
-                controls
-                playsInline
-                className="h-full w-full rounded-3xl object-cover"
-              />
-            ) : (
-              <div className="flex h-full w-full flex-col items-center justify-center gap-4 text-center text-sm text-zinc-500">
-                <div className="h-16 w-16 animate-pulse rounded-full bg-indigo-500/40" />
-                <p>Generated clips will appear here. Start rendering to preview the output.</p>
-              </div>
-            )}
-            <canvas
-              ref={canvasRef}
-              width={1280}
-              height={720}
-              className="pointer-events-none absolute left-0 top-0 h-0 w-0 opacity-0"
-            />
+          <div className="flex gap-2">
+            {(
+              [
+                ["preview", "Live Preview"],
+                ["clip", "Rendered Clip"],
+              ] as const
+            ).map(([view, label]) => (
+              <button
+                key={view}
+                onClick={() => setMonitorView(view)}
+                className={`rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] transition hover:border-white/40 hover:text-white ${
+                  monitorView === view ? "border-indigo-400/60 text-white" : "text-zinc-400"
+                }`}
+              >
+                {label}
+              </button>
+            ))}
           </div>
 
+          {monitorView === "preview" && (
+            <PreviewPlayer
+              timeline={timeline}
+              settings={settings}
+              images={assetImages}
+              ready={fontsReady}
+              width={previewDimensions.width}
+              height={previewDimensions.height}
+            />
+          )}
+
+          {monitorView === "clip" && (
+            <div
+              className="relative mx-auto flex max-h-[70vh] w-full items-center justify-center overflow-hidden rounded-3xl border border-white/10 bg-black/80"
+              style={{ aspectRatio: `${outputDimensions.width} / ${outputDimensions.height}` }}
+            >
+              {videoUrl ? (
+                <video
+                  key={videoUrl}
+                  src={videoUrl}
+                  poster={posterUrl ?? undefined}
+                  controls
+                  playsInline
+                  className="h-full w-full rounded-3xl object-contain"
+                />
+              ) : (
+                <div className="flex h-full w-full flex-col items-center justify-center gap-4 text-center text-sm text-zinc-500">
+                  <div className="h-16 w-16 animate-pulse rounded-full bg-indigo-500/40" />
+                  <p>Generated clips will appear here. Start rendering to preview the output.</p>
+                </div>
+              )}
+            </div>
+          )}
+          <canvas
+            ref={canvasRef}
+            width={outputDimensions.width}
+            height={outputDimensions.height}
+            className="pointer-events-none fixed left-0 top-0 h-0 w-0 opacity-0"
+          />
+          {/* Sized by the render worker once transferred, so React must not set its size. */}
+          <canvas
+            ref={workerCanvasRef}
+            className="pointer-events-none fixed left-0 top-0 h-0 w-0 opacity-0"
+          />
+
           <div className="flex flex-col gap-4">
             <div className="flex items-center justify-between text-xs uppercase tracking-[0.3em] text-indigo-200">
               <span>Status</span>
               <span className="text-white/80">
                 {phase === "idle" && "Idle"}
                 {phase === "preparing" && "Preparing Canvas"}
-                {phase === "rendering" && "Rendering Frames"}
+                {phase === "rendering" && (paused ? "Paused" : "Rendering Frames")}
                 {phase === "encoding" && "Encoding Clip"}
                 {phase === "complete" && "Complete"}
+                {phase === "cancelled" && "Cancelled"}
                 {phase === "error" && "Error"}
               </span>
             </div>
@@ -553,37 +1955,129 @@ export default function Home() {
             </div>
             <div className="flex justify-between text-xs text-zinc-500">
               <span>{Math.round(progress * 100)}%</span>
-              <span>{timeline.length} scenes</span>
+              <span>
+                {phase === "rendering" && renderPosition
+                  ? `Frame ${renderPosition.frameIndex + 1} · scene ${renderPosition.sceneIndex + 1} of ${timeline.length}`
+                  : `${timeline.length} scenes`}
+              </span>
             </div>
+            {fingerprint && (
+              <div className="flex justify-between text-xs text-zinc-500">
+                <span className="uppercase tracking-[0.3em]">Frame Fingerprint</span>
+                <span className="font-mono text-zinc-300">{fingerprint}</span>
+              </div>
+            )}
           </div>
 
           {videoUrl && (
             <div className="flex flex-wrap items-center gap-3">
               <a
                 href={videoUrl}
-                download="nebula-synth.webm"
+                download={`nebula-synth.${videoExtension}`}
                 className="rounded-full border border-indigo-400/60 px-4 py-2 text-sm font-semibold uppercase tracking-[0.3em] text-indigo-200 transition hover:border-indigo-300 hover:text-white"
               >
                 Download Clip
               </a>
+              {posterUrl && (
+                <a
+                  href={posterUrl}
+                  download="nebula-synth-poster.png"
+                  className="rounded-full border border-white/10 px-4 py-2 text-sm font-semibold uppercase tracking-[0.3em] text-zinc-300 transition hover:border-white/40 hover:text-white"
+                >
+                  Download Poster
+                </a>
+              )}
               <button
                 className="rounded-full border border-white/10 px-4 py-2 text-sm font-semibold uppercase tracking-[0.3em] text-zinc-300 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:border-white/10 disabled:text-zinc-500"
-                disabled={!clipboardAvailable}
-                onClick={() => {
-                  if (typeof navigator === "undefined" || !navigator.clipboard) {
-                    setError("Clipboard access is not available in this environment.");
-                    return;
+                disabled={!clipboardAvailable || clipUploading || rendering}
+                onClick={() => void shareClip()}
+              >
+                {clipUploading ? "Uploading…" : "Share with Clip"}
+              </button>
+              {sharedClipId && (
+                <span className="text-xs text-zinc-500">Hosted at /api/clips/{sharedClipId}</span>
+              )}
+            </div>
+          )}
+
+          {batchClips.length > 0 && (
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-xs uppercase tracking-[0.3em] text-indigo-200">
+                Other formats
+              </span>
+              {batchClips.map((clip) => (
+                <a
+                  key={clip.url}
+                  href={clip.url}
+                  download={`nebula-synth-${clip.output.aspectRatio.replace(":", "x")}.${clip.extension}`}
+                  className="rounded-full border border-white/10 px-4 py-2 text-sm font-semibold uppercase tracking-[0.3em] text-zinc-300 transition hover:border-white/40 hover:text-white"
+                >
+                  {clip.output.aspectRatio}
+                </a>
+              ))}
+            </div>
+          )}
+
+          {captionCues && (
+            <div className="flex flex-wrap items-center gap-3">
+              <span className="text-xs uppercase tracking-[0.3em] text-indigo-200">Captions</span>
+              {(
+                [
+                  ["srt", "SRT", "application/x-subrip", formatSrt],
+                  ["vtt", "WebVTT", "text/vtt", formatWebVtt],
+                ] as const
+              ).map(([extension, label, type, format]) => (
+                <button
+                  key={extension}
+                  onClick={() =>
+                    downloadBlob(
+                      new Blob([format(captionCues)], { type }),
+                      `nebula-synth.${extension}`,
+                    )
                   }
-                  navigator.clipboard
-                    .writeText(videoUrl)
-                    .then(() => setError(null))
-                    .catch(() => setError("Failed to copy share URL."));
-                }}
-          >
-            Copy Share Link
-          </button>
-        </div>
-      )}
+                  className="rounded-full border border-white/10 px-4 py-2 text-sm font-semibold uppercase tracking-[0.3em] text-zinc-300 transition hover:border-white/40 hover:text-white"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {renderReport && <RenderReportPanel report={renderReport} />}
+
+          <StillExportPanel
+            range={frameRange}
+            scenes={sceneRanges}
+            totalFrames={totalFrames}
+            fps={fps}
+            posterFrame={posterFrame}
+            gifOptions={gifOptions}
+            gifHeight={gifHeight}
+            exporting={stillExport}
+            canExport={canGenerate && !rendering && !stopping && !queueRunning}
+            error={stillError}
+            onRangeChange={setFrameRangeInput}
+            onPosterFrameChange={setPosterFrameInput}
+            onGifOptionsChange={setGifOptions}
+            onExport={(kind) => void exportStill(kind)}
+            onCancel={() => stillExportRef.current?.abort()}
+          />
+
+          <RenderQueuePanel
+            jobs={queueJobs}
+            running={queueRunning}
+            canAdd={canGenerate}
+            canRun={!rendering && !stopping && stillExport === null}
+            onAddCurrent={() => void addToQueue([theme])}
+            onAddStyleVariants={() => void addToQueue(BUILT_IN_THEMES)}
+            onMove={moveQueueJob}
+            onRemove={(id) => removeQueueJobs((job) => job.id === id)}
+            onRequeue={(id) => patchQueueJob(id, { status: "queued", progress: 0, error: null })}
+            onClearFinished={() => removeQueueJobs((job) => job.status === "complete")}
+            onRun={() => void runQueue()}
+            onStop={cancelRender}
+            onDownloadArchive={() => void downloadQueueArchive()}
+          />
 
           <div className="mt-auto space-y-3 rounded-2xl border border-white/10 bg-black/40 p-4 text-xs text-zinc-500">
             <h3 className="text-xs font-semibold uppercase tracking-[0.3em] text-indigo-200">
@@ -592,7 +2086,8 @@ export default function Home() {
             <ul className="space-y-1 text-sm leading-relaxed text-zinc-400">
               <li>
                 Combine short, vivid sentences to choreograph cinematic beats. Each
-                sentence becomes its own animated scene.
+                sentence becomes its own animated scene, or write a script to title and
+                time each scene yourself.
               </li>
               <li>
                 Increase the segment length for slower transitions, or dial the FPS higher
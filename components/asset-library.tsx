@@ -0,0 +1,90 @@
+"use client";
+
+import { useEffect, useMemo } from "react";
+import { ACCEPTED_IMAGE_TYPES, type StoredAsset } from "@/lib/assets";
+
+interface AssetLibraryProps {
+  assets: StoredAsset[];
+  uploading: boolean;
+  issues: string[];
+  onUpload: (files: File[]) => void;
+  onDelete: (id: string) => void;
+}
+
+export function AssetLibrary({ assets, uploading, issues, onUpload, onDelete }: AssetLibraryProps) {
+  const thumbnails = useMemo(
+    () => new Map(assets.map((asset) => [asset.id, URL.createObjectURL(asset.blob)])),
+    [assets],
+  );
+
+  useEffect(() => {
+    return () => thumbnails.forEach((url) => URL.revokeObjectURL(url));
+  }, [thumbnails]);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+        Assets
+      </label>
+      <div className="flex flex-col gap-4 rounded-2xl border border-white/15 bg-black/40 p-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="cursor-pointer rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-zinc-300 transition hover:border-white/40 hover:text-white">
+            Upload Images
+            <input
+              type="file"
+              accept={ACCEPTED_IMAGE_TYPES.join(",")}
+              multiple
+              className="hidden"
+              onChange={(event) => {
+                const files = [...(event.target.files ?? [])];
+                if (files.length > 0) onUpload(files);
+                event.target.value = "";
+              }}
+            />
+          </label>
+          <span className="text-sm text-zinc-400">
+            {uploading
+              ? "Decoding images..."
+              : "Screenshots, logos, and photos, kept in this browser."}
+          </span>
+        </div>
+
+        {assets.length > 0 && (
+          <div className="grid grid-cols-3 gap-3 sm:grid-cols-4">
+            {assets.map((asset) => (
+              <div key={asset.id} className="flex flex-col gap-1 text-xs">
+                {/* eslint-disable-next-line @next/next/no-img-element -- local object URL */}
+                <img
+                  src={thumbnails.get(asset.id)}
+                  alt={asset.name}
+                  className="aspect-video w-full rounded-lg border border-white/10 bg-black/60 object-contain"
+                />
+                <span className="truncate text-zinc-300" title={asset.name}>
+                  {asset.name}
+                </span>
+                <span className="flex items-center justify-between text-zinc-500">
+                  {asset.width}×{asset.height}
+                  <button
+                    onClick={() => onDelete(asset.id)}
+                    aria-label={`Delete ${asset.name}`}
+                    className="transition hover:text-rose-300"
+                  >
+                    Delete
+                  </button>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {issues.length > 0 && (
+          <ul className="flex flex-col gap-1 rounded-xl border border-rose-500/40 bg-rose-500/10 p-3 text-xs text-rose-200">
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
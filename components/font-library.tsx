@@ -0,0 +1,75 @@
+"use client";
+
+import { ACCEPTED_FONT_EXTENSIONS, type FontSummary } from "@/lib/fonts";
+
+interface FontLibraryProps {
+  fonts: FontSummary[];
+  uploading: boolean;
+  issues: string[];
+  onUpload: (files: File[]) => void;
+  onDelete: (id: string) => void;
+}
+
+export function FontLibrary({ fonts, uploading, issues, onUpload, onDelete }: FontLibraryProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+        Fonts
+      </label>
+      <div className="flex flex-col gap-4 rounded-2xl border border-white/15 bg-black/40 p-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="cursor-pointer rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-zinc-300 transition hover:border-white/40 hover:text-white">
+            Upload Fonts
+            <input
+              type="file"
+              accept={ACCEPTED_FONT_EXTENSIONS.join(",")}
+              multiple
+              className="hidden"
+              onChange={(event) => {
+                const files = [...(event.target.files ?? [])];
+                if (files.length > 0) onUpload(files);
+                event.target.value = "";
+              }}
+            />
+          </label>
+          <span className="text-sm text-zinc-400">
+            {uploading
+              ? "Loading fonts..."
+              : "TTF and WOFF2 files, kept in this browser. Pick them per text role in a custom theme."}
+          </span>
+        </div>
+
+        {fonts.length > 0 && (
+          <ul className="flex flex-col gap-2">
+            {fonts.map((font) => (
+              <li key={font.id} className="flex items-center justify-between gap-3 text-xs">
+                <span
+                  className="truncate text-lg text-zinc-100"
+                  style={{ fontFamily: `'${font.family}', sans-serif` }}
+                  title={font.name}
+                >
+                  {font.family}
+                </span>
+                <button
+                  onClick={() => onDelete(font.id)}
+                  aria-label={`Delete ${font.family}`}
+                  className="text-zinc-500 transition hover:text-rose-300"
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {issues.length > 0 && (
+          <ul className="flex flex-col gap-1 rounded-xl border border-rose-500/40 bg-rose-500/10 p-3 text-xs text-rose-200">
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import type { AssetSummary } from "@/lib/assets";
+import {
+  createLayerInstance,
+  getLayerDefinition,
+  listLayerDefinitions,
+  type LayerInstance,
+  type LayerParamSpec,
+  type LayerParamValue,
+} from "@/lib/compositor";
+
+interface LayerStackEditorProps {
+  layers: LayerInstance[];
+  assets: AssetSummary[];
+  onChange: (layers: LayerInstance[]) => void;
+}
+
+const chipClass =
+  "rounded-full border border-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-zinc-300 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:text-zinc-600";
+
+const inputClass =
+  "rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-sm text-zinc-100 focus:border-indigo-400/60 focus:outline-none";
+
+function ParamControl({
+  spec,
+  value,
+  assets,
+  onChange,
+}: {
+  spec: LayerParamSpec;
+  value: LayerParamValue;
+  assets: AssetSummary[];
+  onChange: (value: LayerParamValue) => void;
+}) {
+  switch (spec.kind) {
+    case "number":
+      return (
+        <>
+          <input
+            type="range"
+            min={spec.min}
+            max={spec.max}
+            step={spec.step}
+            value={Number(value)}
+            onChange={(event) => onChange(Number(event.target.value))}
+            className="accent-indigo-400"
+          />
+          <span className="w-10 text-right text-zinc-300">{Number(value)}</span>
+        </>
+      );
+    case "color":
+      return (
+        <input
+          type="color"
+          value={String(value)}
+          onChange={(event) => onChange(event.target.value)}
+          className="h-7 w-9 cursor-pointer rounded border border-white/10 bg-transparent"
+        />
+      );
+    case "boolean":
+      return (
+        <input
+          type="checkbox"
+          checked={value === true}
+          onChange={(event) => onChange(event.target.checked)}
+          className="accent-indigo-400"
+        />
+      );
+    case "select":
+      return (
+        <select
+          value={String(value)}
+          onChange={(event) => onChange(event.target.value)}
+          className={inputClass}
+        >
+          {spec.options.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      );
+    case "text":
+      return (
+        <input
+          value={String(value)}
+          maxLength={spec.maxLength}
+          onChange={(event) => onChange(event.target.value)}
+          className={`${inputClass} min-w-0 flex-1`}
+        />
+      );
+    case "asset":
+      return (
+        <select
+          value={String(value)}
+          onChange={(event) => onChange(event.target.value)}
+          className={`${inputClass} min-w-0 flex-1`}
+        >
+          <option value="">None</option>
+          {value !== "" && !assets.some((asset) => asset.id === value) && (
+            <option value={String(value)}>Missing image</option>
+          )}
+          {assets.map((asset) => (
+            <option key={asset.id} value={asset.id}>
+              {asset.name}
+            </option>
+          ))}
+        </select>
+      );
+  }
+}
+
+/** Edits a theme's layer stack. The first layer is drawn first, so later ones sit on top. */
+export function LayerStackEditor({ layers, assets, onChange }: LayerStackEditorProps) {
+  const replace = (index: number, layer: LayerInstance) =>
+    onChange(layers.map((item, i) => (i === index ? layer : item)));
+
+  const move = (index: number, offset: -1 | 1) => {
+    const next = [...layers];
+    const [layer] = next.splice(index, 1);
+    next.splice(index + offset, 0, layer);
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {layers.map((layer, index) => {
+        const definition = getLayerDefinition(layer.type);
+        return (
+          <div
+            key={layer.id}
+            className="flex flex-col gap-2 rounded-xl border border-white/10 bg-black/30 p-3"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <label className="mr-auto flex items-center gap-2 text-sm text-zinc-200">
+                <input
+                  type="checkbox"
+                  checked={layer.enabled}
+                  onChange={(event) => replace(index, { ...layer, enabled: event.target.checked })}
+                  className="accent-indigo-400"
+                />
+                {definition?.label ?? layer.type}
+                <span className="text-xs text-zinc-500">
+                  {layer.id} · {definition?.placement ?? "unknown"}
+                </span>
+              </label>
+              <button
+                onClick={() => move(index, -1)}
+                disabled={index === 0}
+                aria-label={`Draw ${layer.id} earlier`}
+                className={chipClass}
+              >
+                ↑
+              </button>
+              <button
+                onClick={() => move(index, 1)}
+                disabled={index === layers.length - 1}
+                aria-label={`Draw ${layer.id} later`}
+                className={chipClass}
+              >
+                ↓
+              </button>
+              <button
+                onClick={() => onChange(layers.filter((_, i) => i !== index))}
+                className={chipClass}
+              >
+                Remove
+              </button>
+            </div>
+            {definition && layer.enabled && (
+              <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+                {Object.entries(definition.params).map(([name, spec]) => (
+                  <label key={name} className="flex items-center gap-2 text-xs text-zinc-400">
+                    <span className="w-20 flex-shrink-0">{spec.label}</span>
+                    <ParamControl
+                      spec={spec}
+                      value={layer.params[name] ?? spec.default}
+                      assets={assets}
+                      onChange={(value) =>
+                        replace(index, { ...layer, params: { ...layer.params, [name]: value } })
+                      }
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <select
+        value=""
+        onChange={(event) => {
+          if (event.target.value) {
+            onChange([...layers, createLayerInstance(event.target.value, layers)]);
+          }
+        }}
+        aria-label="Add layer"
+        className={`${inputClass} self-start`}
+      >
+        <option value="">Add layer…</option>
+        {listLayerDefinitions().map((definition) => (
+          <option key={definition.type} value={definition.type}>
+            {definition.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+"use client";
+
+import {
+  ASPECT_RATIO_LABELS,
+  RESOLUTION_LABELS,
+  getOutputDimensions,
+  type AspectRatio,
+  type OutputResolution,
+  type OutputSize,
+} from "@/lib/compositor";
+
+interface OutputSizePickerProps {
+  output: OutputSize;
+  batchAspectRatios: AspectRatio[];
+  onOutputChange: (output: OutputSize) => void;
+  onBatchChange: (aspectRatios: AspectRatio[]) => void;
+}
+
+const ASPECT_RATIOS = Object.keys(ASPECT_RATIO_LABELS) as AspectRatio[];
+
+export function OutputSizePicker({
+  output,
+  batchAspectRatios,
+  onOutputChange,
+  onBatchChange,
+}: OutputSizePickerProps) {
+  const { width, height } = getOutputDimensions(output);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+        Output Size
+      </label>
+      <div className="flex flex-col gap-4 rounded-2xl border border-white/15 bg-black/40 p-4">
+        <div className="grid grid-cols-4 gap-2">
+          {ASPECT_RATIOS.map((aspectRatio) => {
+            const [w, h] = aspectRatio.split(":").map(Number);
+            return (
+              <button
+                key={aspectRatio}
+                onClick={() => onOutputChange({ ...output, aspectRatio })}
+                className={`flex flex-col items-center gap-2 rounded-2xl border border-white/15 bg-black/40 p-3 transition hover:border-white/40 ${
+                  output.aspectRatio === aspectRatio ? "ring-2 ring-indigo-400/80" : ""
+                }`}
+              >
+                <span
+                  className="block rounded-sm border border-white/60"
+                  style={{ width: (24 * w) / Math.max(w, h), height: (24 * h) / Math.max(w, h) }}
+                />
+                <span className="text-xs font-semibold uppercase tracking-widest text-white">
+                  {aspectRatio}
+                </span>
+                <span className="text-[10px] uppercase tracking-widest text-zinc-400">
+                  {ASPECT_RATIO_LABELS[aspectRatio]}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(RESOLUTION_LABELS) as OutputResolution[]).map((resolution) => (
+            <button
+              key={resolution}
+              onClick={() => onOutputChange({ ...output, resolution })}
+              className={`rounded-full border border-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] transition hover:border-white/40 hover:text-white ${
+                output.resolution === resolution ? "border-indigo-400/60 text-white" : "text-zinc-300"
+              }`}
+            >
+              {RESOLUTION_LABELS[resolution]}
+            </button>
+          ))}
+          <span className="ml-auto text-sm text-zinc-400">
+            {width}×{height}
+          </span>
+        </div>
+
+        <div className="flex flex-col gap-2">
+          <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+            Also render
+          </span>
+          <div className="flex flex-wrap gap-3">
+            {ASPECT_RATIOS.filter((aspectRatio) => aspectRatio !== output.aspectRatio).map(
+              (aspectRatio) => (
+                <label key={aspectRatio} className="flex items-center gap-2 text-sm text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={batchAspectRatios.includes(aspectRatio)}
+                    onChange={(event) =>
+                      onBatchChange(
+                        event.target.checked
+                          ? [...batchAspectRatios, aspectRatio]
+                          : batchAspectRatios.filter((item) => item !== aspectRatio),
+                      )
+                    }
+                    className="accent-indigo-400"
+                  />
+                  {aspectRatio} {ASPECT_RATIO_LABELS[aspectRatio]}
+                </label>
+              ),
+            )}
+          </div>
+          <span className="text-xs text-zinc-500">
+            Extra formats render one after another at the same resolution.
+          </span>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+"use client";
+
+import { useEffect, useRef, useState, type KeyboardEvent } from "react";
+import {
+  getSceneTimings,
+  getTotalFrames,
+  renderFrame,
+  type AssetImages,
+  type GenerationSettings,
+  type TimelineSlice,
+} from "@/lib/compositor";
+
+interface PreviewPlayerProps {
+  timeline: TimelineSlice[];
+  settings: GenerationSettings;
+  images: AssetImages;
+  /** False while fonts load; frames are held back so text never flashes in a fallback font. */
+  ready: boolean;
+  width: number;
+  height: number;
+}
+
+const chipClass =
+  "rounded-full border border-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-zinc-300 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:text-zinc-600";
+
+function formatTimecode(frame: number, fps: number) {
+  const seconds = Math.floor(frame / fps);
+  const frames = frame % fps;
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${Math.floor(seconds / 60)}:${pad(seconds % 60)}:${pad(frames)}`;
+}
+
+/**
+ * Draws the timeline with the same `renderFrame` the exporters use, so what you scrub
+ * here is exactly what ends up in the file.
+ */
+export function PreviewPlayer({
+  timeline,
+  settings,
+  images,
+  ready,
+  width,
+  height,
+}: PreviewPlayerProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const playbackStart = useRef({ time: 0, frame: 0 });
+  const [frame, setFrame] = useState(0);
+  const [playing, setPlaying] = useState(false);
+
+  const totalFrames = getTotalFrames(timeline, settings);
+  const timings = getSceneTimings(timeline, settings);
+  const current = Math.min(frame, Math.max(0, totalFrames - 1));
+  const sceneIndex = timings.findIndex(
+    (timing) => current < timing.startFrame + timing.frameCount,
+  );
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !ready) return;
+    if (timeline.length === 0) {
+      ctx.clearRect(0, 0, width, height);
+      return;
+    }
+    renderFrame(ctx, timeline, settings, current, images);
+  }, [timeline, settings, images, ready, current, width, height]);
+
+  useEffect(() => {
+    if (!playing || totalFrames === 0) return;
+    let handle = requestAnimationFrame(function tick(now) {
+      const elapsed = ((now - playbackStart.current.time) / 1000) * settings.fps;
+      setFrame((playbackStart.current.frame + Math.floor(elapsed)) % totalFrames);
+      handle = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(handle);
+  }, [playing, settings.fps, totalFrames]);
+
+  const seek = (target: number) => {
+    setPlaying(false);
+    setFrame(Math.min(Math.max(0, target), Math.max(0, totalFrames - 1)));
+  };
+
+  const togglePlayback = () => {
+    if (!playing) {
+      playbackStart.current = {
+        time: performance.now(),
+        frame: current >= totalFrames - 1 ? 0 : current,
+      };
+    }
+    setPlaying(!playing);
+  };
+
+  const stepScene = (direction: -1 | 1) => {
+    if (sceneIndex < 0) return;
+    const start = timings[sceneIndex].startFrame;
+    if (direction < 0) {
+      seek(current > start ? start : (timings[sceneIndex - 1]?.startFrame ?? 0));
+    } else {
+      seek(timings[sceneIndex + 1]?.startFrame ?? totalFrames - 1);
+    }
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    // Focused controls such as the scrub bar handle their own keys.
+    if (event.target !== event.currentTarget) return;
+    switch (event.key) {
+      case " ":
+      case "k":
+        togglePlayback();
+        break;
+      case "ArrowLeft":
+      case ",":
+        if (event.shiftKey) stepScene(-1);
+        else seek(current - 1);
+        break;
+      case "ArrowRight":
+      case ".":
+        if (event.shiftKey) stepScene(1);
+        else seek(current + 1);
+        break;
+      case "Home":
+        seek(0);
+        break;
+      case "End":
+        seek(totalFrames - 1);
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  };
+
+  return (
+    <div
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      aria-label="Preview player"
+      className="flex flex-col gap-3 rounded-3xl focus:outline-none focus-visible:ring-2 focus-visible:ring-indigo-400/60"
+    >
+      <div
+        className="relative mx-auto max-h-[70vh] w-full overflow-hidden rounded-3xl border border-white/10 bg-black/80"
+        style={{ aspectRatio: `${width} / ${height}` }}
+      >
+        <canvas
+          ref={canvasRef}
+          width={width}
+          height={height}
+          className="h-full w-full object-contain"
+        />
+        {timeline.length === 0 && (
+          <p className="absolute inset-0 flex items-center justify-center text-sm text-zinc-500">
+            Add a prompt to preview your scenes.
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <input
+          type="range"
+          min={0}
+          max={Math.max(0, totalFrames - 1)}
+          value={current}
+          disabled={totalFrames === 0}
+          onChange={(event) => seek(Number(event.target.value))}
+          aria-label="Scrub preview"
+          className="w-full accent-indigo-400"
+        />
+        <div className="relative h-3">
+          {timings.map((timing, index) => (
+            <button
+              key={timeline[index].key}
+              onClick={() => seek(timing.startFrame)}
+              title={`Scene ${index + 1}: ${timeline[index].sentence}`}
+              aria-label={`Jump to scene ${index + 1}`}
+              className={`absolute top-0 h-3 w-1 -translate-x-1/2 rounded-full transition hover:bg-white ${
+                index === sceneIndex ? "bg-indigo-300" : "bg-white/30"
+              }`}
+              style={{ left: `${(timing.startFrame / Math.max(1, totalFrames)) * 100}%` }}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={() => stepScene(-1)}
+          disabled={totalFrames === 0}
+          aria-label="Previous scene"
+          className={chipClass}
+        >
+          ⏮
+        </button>
+        <button
+          onClick={() => seek(current - 1)}
+          disabled={totalFrames === 0}
+          aria-label="Previous frame"
+          className={chipClass}
+        >
+          −1
+        </button>
+        <button onClick={togglePlayback} disabled={totalFrames === 0} className={chipClass}>
+          {playing ? "Pause" : "Play"}
+        </button>
+        <button
+          onClick={() => seek(current + 1)}
+          disabled={totalFrames === 0}
+          aria-label="Next frame"
+          className={chipClass}
+        >
+          +1
+        </button>
+        <button
+          onClick={() => stepScene(1)}
+          disabled={totalFrames === 0}
+          aria-label="Next scene"
+          className={chipClass}
+        >
+          ⏭
+        </button>
+        <span className="ml-auto font-mono text-xs text-zinc-400">
+          {formatTimecode(current, settings.fps)} / {formatTimecode(totalFrames, settings.fps)}
+          {totalFrames > 0 && (
+            <span className="ml-3 text-zinc-500">
+              frame {current + 1}/{totalFrames} · scene {sceneIndex + 1}
+            </span>
+          )}
+        </span>
+      </div>
+      <p className="text-xs text-zinc-500">
+        Space plays and pauses, ←/→ step one frame, Shift+←/→ jump between scenes.
+      </p>
+    </div>
+  );
+}
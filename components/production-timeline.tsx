@@ -0,0 +1,386 @@
+"use client";
+
+import { useState } from "react";
+import { SceneAssetEditor } from "@/components/scene-asset-editor";
+import type { AssetSummary } from "@/lib/assets";
+import {
+  DEFAULT_CAPTION_ANIMATIONS,
+  TEXT_ANIMATIONS,
+  TRANSITION_LABELS,
+  findTextAnimation,
+  getLayerDefinition,
+  paletteToCss,
+  segmentWords,
+  type LayerInstance,
+  type CaptionStyle,
+  type Palette,
+  type SceneOverride,
+  type SceneTextAlign,
+  type TextRange,
+  type TimelineSlice,
+  type TransitionSettings,
+  type TransitionType,
+} from "@/lib/compositor";
+
+interface ProductionTimelineProps {
+  timeline: TimelineSlice[];
+  /** How many scenes each overlong sentence is split into, keyed by scene key. */
+  sceneParts: Record<string, number>;
+  /** Object URLs of scene stills keyed by scene key; scenes without one show their gradient. */
+  thumbnails: Record<string, string>;
+  palettes: Palette[];
+  angle: number;
+  layers: LayerInstance[];
+  assets: AssetSummary[];
+  segmentSeconds: number;
+  transition: TransitionSettings;
+  captionStyle: CaptionStyle;
+  onOverride: (key: string, patch: SceneOverride) => void;
+  onResetScene: (key: string) => void;
+  onMove: (from: number, to: number) => void;
+  onSplit: (sceneIndex: number, wordIndex: number) => void;
+  onMergeWithNext: (sceneIndex: number) => void;
+}
+
+const TEXT_ALIGNMENTS: SceneTextAlign[] = ["left", "center", "right"];
+
+function toggleHighlight(highlights: TextRange[], word: TextRange) {
+  const overlapping = (range: TextRange) => range.start < word.end && word.start < range.end;
+  if (highlights.some(overlapping)) {
+    return highlights.filter((range) => !overlapping(range));
+  }
+  return [...highlights, { start: word.start, end: word.end }].sort((a, b) => a.start - b.start);
+}
+
+const chipClass =
+  "rounded-full border border-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-zinc-300 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:text-zinc-600";
+
+export function ProductionTimeline({
+  timeline,
+  sceneParts,
+  thumbnails,
+  palettes,
+  angle,
+  layers,
+  assets,
+  segmentSeconds,
+  transition,
+  captionStyle,
+  onOverride,
+  onResetScene,
+  onMove,
+  onSplit,
+  onMergeWithNext,
+}: ProductionTimelineProps) {
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const endDrag = () => {
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="mt-4 flex flex-col gap-3">
+      {timeline.map((slice) => {
+        const expanded = expandedKey === slice.key;
+        const words = slice.sentence.split(/\s+/);
+        return (
+          <div
+            key={slice.key}
+            draggable
+            onDragStart={(event) => {
+              event.dataTransfer.effectAllowed = "move";
+              setDragIndex(slice.index);
+            }}
+            onDragOver={(event) => {
+              if (dragIndex === null) return;
+              event.preventDefault();
+              setDropIndex(slice.index);
+            }}
+            onDrop={(event) => {
+              event.preventDefault();
+              if (dragIndex !== null && dragIndex !== slice.index) {
+                onMove(dragIndex, slice.index);
+              }
+              endDrag();
+            }}
+            onDragEnd={endDrag}
+            className={`flex flex-col gap-3 rounded-2xl border p-2 transition ${
+              dropIndex === slice.index && dragIndex !== slice.index
+                ? "border-indigo-400/60"
+                : "border-transparent"
+            } ${dragIndex === slice.index ? "opacity-40" : ""}`}
+          >
+            <div className="flex cursor-grab items-center gap-4">
+              <button
+                onClick={() => setExpandedKey(expanded ? null : slice.key)}
+                aria-label={`Edit scene ${slice.index + 1}`}
+                className={`h-12 w-20 flex-shrink-0 rounded-xl border border-white/10 shadow-inner shadow-black/40 transition hover:border-white/40 ${
+                  expanded ? "ring-2 ring-indigo-400/80" : ""
+                }`}
+                style={{
+                  background: thumbnails[slice.key]
+                    ? `center / cover no-repeat url(${thumbnails[slice.key]})`
+                    : paletteToCss(slice.palette, angle),
+                }}
+              />
+              <div className="flex-1">
+                <p className="text-xs uppercase tracking-[0.3em] text-white/60">
+                  Scene {String(slice.index + 1).padStart(2, "0")}
+                  <span className="ml-3 normal-case tracking-normal text-white/40">
+                    {slice.durationSeconds ?? segmentSeconds}s · {slice.textAlign}
+                    {slice.title && ` · ${slice.title}`}
+                    {sceneParts[slice.key] && ` · continues over ${sceneParts[slice.key]} scenes`}
+                  </span>
+                </p>
+                <p className="text-sm text-white/80">{slice.sentence}</p>
+              </div>
+            </div>
+
+            {expanded && (
+              <div className="flex flex-col gap-4 rounded-xl border border-white/10 bg-black/40 p-4">
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+                    Duration
+                  </span>
+                  <input
+                    type="number"
+                    min={1}
+                    max={20}
+                    step={0.5}
+                    value={slice.durationSeconds ?? ""}
+                    placeholder={String(segmentSeconds)}
+                    onChange={(event) =>
+                      onOverride(slice.key, {
+                        durationSeconds:
+                          event.target.value === ""
+                            ? undefined
+                            : Math.min(20, Math.max(1, Number(event.target.value))),
+                      })
+                    }
+                    className="w-20 rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-sm text-zinc-100 focus:border-indigo-400/60 focus:outline-none"
+                  />
+                  <span className="text-xs text-zinc-500">sec (blank follows the global beat)</span>
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+                    Gradient
+                  </span>
+                  {palettes.map((palette) => (
+                    <button
+                      key={palette.join("-")}
+                      onClick={() => onOverride(slice.key, { palette })}
+                      aria-label={`Use gradient ${palette.join(" to ")}`}
+                      className="h-7 w-7 rounded-lg border border-white/10 transition hover:border-white/40"
+                      style={{ background: paletteToCss(palette, angle) }}
+                    />
+                  ))}
+                  {slice.palette.map((color, stop) => (
+                    <input
+                      key={stop}
+                      type="color"
+                      value={color}
+                      onChange={(event) => {
+                        const palette = [...slice.palette];
+                        palette[stop] = event.target.value;
+                        onOverride(slice.key, { palette });
+                      }}
+                      aria-label={`Gradient colour ${stop + 1}`}
+                      className="h-7 w-9 cursor-pointer rounded border border-white/10 bg-transparent"
+                    />
+                  ))}
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+                    Alignment
+                  </span>
+                  {TEXT_ALIGNMENTS.map((align) => (
+                    <button
+                      key={align}
+                      onClick={() =>
+                        onOverride(slice.key, {
+                          textAlign: align === "center" ? undefined : align,
+                        })
+                      }
+                      className={`${chipClass} ${
+                        slice.textAlign === align ? "border-indigo-400/60 text-white" : ""
+                      }`}
+                    >
+                      {align}
+                    </button>
+                  ))}
+                </div>
+
+                <div className="flex flex-col gap-2">
+                  <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+                    Images
+                  </span>
+                  <SceneAssetEditor
+                    assets={slice.assets}
+                    library={assets}
+                    onChange={(next) =>
+                      onOverride(slice.key, { assets: next.length > 0 ? next : undefined })
+                    }
+                  />
+                </div>
+
+                <div className="flex flex-wrap items-center gap-3">
+                  <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+                    Text animation
+                  </span>
+                  <select
+                    value={slice.animation ?? ""}
+                    onChange={(event) =>
+                      onOverride(slice.key, {
+                        animation: event.target.value === "" ? undefined : event.target.value,
+                      })
+                    }
+                    className="rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-sm text-zinc-100 focus:border-indigo-400/60 focus:outline-none"
+                  >
+                    <option value="">
+                      Default ({findTextAnimation(DEFAULT_CAPTION_ANIMATIONS[captionStyle])?.label})
+                    </option>
+                    {TEXT_ANIMATIONS.map((animation) => (
+                      <option key={animation.id} value={animation.id}>
+                        {animation.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div className="flex flex-col gap-2">
+                  <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+                    Highlight words
+                  </span>
+                  <div className="flex flex-wrap gap-1">
+                    {segmentWords(slice.sentence).map((word) => {
+                      const highlighted = slice.highlights.some(
+                        (range) => range.start < word.end && word.start < range.end,
+                      );
+                      return (
+                        <button
+                          key={word.start}
+                          onClick={() => {
+                            const next = toggleHighlight(slice.highlights, word);
+                            onOverride(slice.key, {
+                              highlights: next.length > 0 ? next : undefined,
+                            });
+                          }}
+                          aria-pressed={highlighted}
+                          className={`rounded-md px-1.5 py-0.5 text-sm transition hover:bg-indigo-500/30 ${
+                            highlighted ? "bg-indigo-500/40 text-white" : "text-white/80"
+                          }`}
+                        >
+                          {word.text}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                {(slice.theme?.layers ?? layers).length > 0 && (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+                      Layers
+                    </span>
+                    {(slice.theme?.layers ?? layers).map((layer) => {
+                      const enabled = slice.layerToggles[layer.id] ?? layer.enabled;
+                      return (
+                        <button
+                          key={layer.id}
+                          onClick={() =>
+                            onOverride(slice.key, {
+                              layerToggles: { ...slice.layerToggles, [layer.id]: !enabled },
+                            })
+                          }
+                          aria-pressed={enabled}
+                          className={`${chipClass} ${
+                            enabled ? "border-indigo-400/60 text-white" : "text-zinc-500"
+                          }`}
+                        >
+                          {getLayerDefinition(layer.type)?.label ?? layer.type}
+                          {layer.id !== layer.type && ` (${layer.id})`}
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {slice.index > 0 && (
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+                      Transition in
+                    </span>
+                    <select
+                      value={slice.transition?.type ?? ""}
+                      onChange={(event) =>
+                        onOverride(slice.key, {
+                          transition:
+                            event.target.value === ""
+                              ? undefined
+                              : {
+                                  ...transition,
+                                  type: event.target.value as TransitionType,
+                                },
+                        })
+                      }
+                      className="rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-sm text-zinc-100 focus:border-indigo-400/60 focus:outline-none"
+                    >
+                      <option value="">Global ({TRANSITION_LABELS[transition.type]})</option>
+                      {(Object.keys(TRANSITION_LABELS) as TransitionType[]).map((type) => (
+                        <option key={type} value={type}>
+                          {TRANSITION_LABELS[type]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                <div className="flex flex-col gap-2">
+                  <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+                    Split before a word
+                  </span>
+                  <div className="flex flex-wrap gap-1">
+                    {words.map((word, wordIndex) => (
+                      <button
+                        key={`${word}-${wordIndex}`}
+                        disabled={wordIndex === 0}
+                        onClick={() => onSplit(slice.index, wordIndex)}
+                        className="rounded-md px-1.5 py-0.5 text-sm text-white/80 transition enabled:hover:bg-indigo-500/30 disabled:text-white/40"
+                      >
+                        {word}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => onMergeWithNext(slice.index)}
+                    disabled={slice.index === timeline.length - 1}
+                    className={chipClass}
+                  >
+                    Merge with next
+                  </button>
+                  <button onClick={() => onResetScene(slice.key)} className={chipClass}>
+                    Reset scene
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {timeline.length === 0 && (
+        <p className="text-sm text-zinc-500">
+          Add descriptive prose above to build your scene list. Each sentence
+          becomes a unique animated beat in the final render.
+        </p>
+      )}
+    </div>
+  );
+}
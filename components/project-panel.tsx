@@ -0,0 +1,129 @@
+"use client";
+
+import { PROJECT_FILE_EXTENSION, type ProjectSummary } from "@/lib/project";
+
+interface ProjectPanelProps {
+  name: string;
+  projectId: string;
+  recentProjects: ProjectSummary[];
+  savedAt: string | null;
+  issues: string[];
+  onRename: (name: string) => void;
+  onNew: () => void;
+  onOpenFile: (file: File) => void;
+  onDownload: () => void;
+  onOpenRecent: (id: string) => void;
+  onDeleteRecent: (id: string) => void;
+  canShare: boolean;
+  /** Confirmation shown after a share link is copied. */
+  shareNotice: string | null;
+  onShare: () => void;
+}
+
+const chipClass =
+  "rounded-full border border-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-zinc-300 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:text-zinc-600";
+
+function formatSavedAt(iso: string) {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+}
+
+export function ProjectPanel({
+  name,
+  projectId,
+  recentProjects,
+  savedAt,
+  issues,
+  onRename,
+  onNew,
+  onOpenFile,
+  onDownload,
+  onOpenRecent,
+  onDeleteRecent,
+  canShare,
+  shareNotice,
+  onShare,
+}: ProjectPanelProps) {
+  const others = recentProjects.filter((project) => project.id !== projectId);
+
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+        Project
+      </label>
+      <div className="flex flex-col gap-3 rounded-2xl border border-white/15 bg-black/40 p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            value={name}
+            onChange={(event) => onRename(event.target.value)}
+            aria-label="Project name"
+            className="min-w-0 flex-1 rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-sm text-zinc-100 focus:border-indigo-400/60 focus:outline-none"
+          />
+          <button onClick={onNew} className={chipClass}>
+            New
+          </button>
+          <label className={`${chipClass} cursor-pointer`}>
+            Open
+            <input
+              type="file"
+              accept={`${PROJECT_FILE_EXTENSION},application/json`}
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) onOpenFile(file);
+                event.target.value = "";
+              }}
+            />
+          </label>
+          <button onClick={onDownload} className={chipClass}>
+            Download
+          </button>
+          <button onClick={onShare} disabled={!canShare} className={chipClass}>
+            Copy Share Link
+          </button>
+        </div>
+        <span className="text-xs text-zinc-500">
+          {savedAt
+            ? `Autosaved ${formatSavedAt(savedAt)}`
+            : "Changes are autosaved in this browser."}
+        </span>
+        {shareNotice && <span className="text-xs text-indigo-200">{shareNotice}</span>}
+
+        {others.length > 0 && (
+          <div className="flex flex-col gap-1">
+            <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+              Recent
+            </span>
+            {others.map((project) => (
+              <div key={project.id} className="flex items-center gap-2 text-sm">
+                <button
+                  onClick={() => onOpenRecent(project.id)}
+                  className="min-w-0 flex-1 truncate text-left text-zinc-300 transition hover:text-white"
+                >
+                  {project.name}
+                  <span className="ml-2 text-xs text-zinc-500">
+                    {formatSavedAt(project.updatedAt)}
+                  </span>
+                </button>
+                <button
+                  onClick={() => onDeleteRecent(project.id)}
+                  aria-label={`Delete ${project.name}`}
+                  className="text-xs text-zinc-500 transition hover:text-rose-300"
+                >
+                  Delete
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {issues.length > 0 && (
+          <ul className="flex flex-col gap-1 rounded-xl border border-rose-500/40 bg-rose-500/10 p-3 text-xs text-rose-200">
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import type { EnhancedScene, PromptProviderSummary, SceneChange, SceneDiff } from "@/lib/enhance";
+
+interface PromptEnhancerProps {
+  providers: PromptProviderSummary[];
+  providerId: string | null;
+  enhancing: boolean;
+  canEnhance: boolean;
+  error: string | null;
+  /** The suggested scenes against the current ones, once a provider has answered. */
+  diff: SceneDiff[] | null;
+  currentStyle: string;
+  /** Name of the suggested style, or `null` to keep the current one. */
+  suggestedStyle: string | null;
+  segmentSeconds: number;
+  onProviderChange: (id: string) => void;
+  onEnhance: () => void;
+  onAccept: () => void;
+  onDiscard: () => void;
+}
+
+const chipClass =
+  "rounded-full border border-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-zinc-300 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:text-zinc-600";
+
+const CHANGE_STYLES: Record<SceneChange, { marker: string; className: string }> = {
+  unchanged: { marker: " ", className: "border-white/10 text-zinc-400" },
+  changed: { marker: "~", className: "border-amber-500/40 bg-amber-500/5 text-amber-100" },
+  added: { marker: "+", className: "border-emerald-500/40 bg-emerald-500/5 text-emerald-100" },
+  removed: { marker: "−", className: "border-rose-500/40 bg-rose-500/5 text-rose-200" },
+};
+
+function SceneLine({
+  scene,
+  segmentSeconds,
+  struck,
+}: {
+  scene: EnhancedScene;
+  segmentSeconds: number;
+  struck: boolean;
+}) {
+  return (
+    <div className={`flex items-baseline gap-3 ${struck ? "line-through opacity-60" : ""}`}>
+      <span className="flex-1">
+        {scene.title && (
+          <span className="mr-2 text-[10px] uppercase tracking-[0.25em] text-indigo-300">
+            {scene.title}
+          </span>
+        )}
+        {scene.text}
+      </span>
+      <span className="shrink-0 font-mono text-[11px] text-zinc-500">
+        {scene.durationSeconds ?? segmentSeconds}s
+      </span>
+    </div>
+  );
+}
+
+export function PromptEnhancer({
+  providers,
+  providerId,
+  enhancing,
+  canEnhance,
+  error,
+  diff,
+  currentStyle,
+  suggestedStyle,
+  segmentSeconds,
+  onProviderChange,
+  onEnhance,
+  onAccept,
+  onDiscard,
+}: PromptEnhancerProps) {
+  const changes = diff?.filter((row) => row.change !== "unchanged").length ?? 0;
+  const styleChanged = suggestedStyle !== null && suggestedStyle !== currentStyle;
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-white/10 bg-black/30 p-4 text-xs text-zinc-400">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="mr-auto text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+          Enhance prompt
+        </span>
+        {providers.length > 1 && (
+          <select
+            value={providerId ?? providers[0].id}
+            onChange={(event) => onProviderChange(event.target.value)}
+            aria-label="Provider"
+            className="rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-xs text-zinc-100 focus:border-indigo-400/60 focus:outline-none"
+          >
+            {providers.map((provider) => (
+              <option key={provider.id} value={provider.id}>
+                {provider.label}
+              </option>
+            ))}
+          </select>
+        )}
+        <button
+          onClick={onEnhance}
+          disabled={!canEnhance || enhancing || providers.length === 0}
+          className={chipClass}
+        >
+          {enhancing ? "Enhancing..." : "Suggest scenes"}
+        </button>
+      </div>
+
+      {!diff && !error && (
+        <p className="text-zinc-500">
+          Rewrites the prompt as short scene beats with durations and a style, using{" "}
+          {providers.length === 1 ? providers[0].label.toLowerCase() : "the chosen provider"}.
+          You review the changes before they replace the timeline.
+        </p>
+      )}
+      {error && <p className="text-rose-300">{error}</p>}
+
+      {diff && (
+        <>
+          <p>
+            {changes === 0 && !styleChanged
+              ? "The suggestion matches the current prompt."
+              : `${changes} scene change${changes === 1 ? "" : "s"}${
+                  styleChanged ? ` · style ${currentStyle} → ${suggestedStyle}` : ""
+                }`}
+          </p>
+          <ol className="flex max-h-80 flex-col gap-1 overflow-y-auto">
+            {diff.map((row, index) => {
+              const { marker, className } = CHANGE_STYLES[row.change];
+              return (
+                <li
+                  key={index}
+                  className={`flex gap-3 rounded-lg border px-3 py-2 ${className}`}
+                >
+                  <span className="w-3 shrink-0 font-mono" aria-label={row.change}>
+                    {marker}
+                  </span>
+                  <div className="flex flex-1 flex-col gap-1">
+                    {row.before && row.change !== "unchanged" && (
+                      <SceneLine
+                        scene={row.before}
+                        segmentSeconds={segmentSeconds}
+                        struck={row.change === "changed" || row.change === "removed"}
+                      />
+                    )}
+                    {row.after && (
+                      <SceneLine scene={row.after} segmentSeconds={segmentSeconds} struck={false} />
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+          <div className="flex gap-2">
+            <button onClick={onAccept} className={chipClass}>
+              Accept
+            </button>
+            <button onClick={onDiscard} className={chipClass}>
+              Discard
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
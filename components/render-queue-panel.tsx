@@ -0,0 +1,168 @@
+"use client";
+
+import { queueJobFilename, type QueueJob, type QueueJobStatus } from "@/lib/export";
+
+interface RenderQueuePanelProps {
+  jobs: QueueJob[];
+  running: boolean;
+  canAdd: boolean;
+  /** False while the Render button's own render is in progress. */
+  canRun: boolean;
+  onAddCurrent: () => void;
+  onAddStyleVariants: () => void;
+  onMove: (index: number, offset: -1 | 1) => void;
+  onRemove: (id: string) => void;
+  onRequeue: (id: string) => void;
+  onClearFinished: () => void;
+  onRun: () => void;
+  onStop: () => void;
+  onDownloadArchive: () => void;
+}
+
+const chipClass =
+  "rounded-full border border-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-zinc-300 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:text-zinc-600";
+
+const STATUS_LABELS: Record<QueueJobStatus, string> = {
+  queued: "Queued",
+  rendering: "Rendering",
+  complete: "Complete",
+  error: "Failed",
+  cancelled: "Cancelled",
+};
+
+function formatSize(bytes: number) {
+  return bytes >= 1_000_000
+    ? `${(bytes / 1_000_000).toFixed(1)} MB`
+    : `${Math.round(bytes / 1000)} KB`;
+}
+
+export function RenderQueuePanel({
+  jobs,
+  running,
+  canAdd,
+  canRun,
+  onAddCurrent,
+  onAddStyleVariants,
+  onMove,
+  onRemove,
+  onRequeue,
+  onClearFinished,
+  onRun,
+  onStop,
+  onDownloadArchive,
+}: RenderQueuePanelProps) {
+  const queued = jobs.filter((job) => job.status === "queued").length;
+  const complete = jobs.filter((job) => job.status === "complete").length;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+        Render Queue
+      </label>
+      <div className="flex flex-col gap-4 rounded-2xl border border-white/15 bg-black/40 p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={onAddCurrent} disabled={!canAdd} className={chipClass}>
+            Add current
+          </button>
+          <button onClick={onAddStyleVariants} disabled={!canAdd} className={chipClass}>
+            Add every style
+          </button>
+          {running ? (
+            <button onClick={onStop} className={chipClass}>
+              Stop
+            </button>
+          ) : (
+            <button onClick={onRun} disabled={queued === 0 || !canRun} className={chipClass}>
+              Run {queued > 0 ? `${queued} job${queued === 1 ? "" : "s"}` : "queue"}
+            </button>
+          )}
+          <button onClick={onDownloadArchive} disabled={complete === 0} className={chipClass}>
+            Download ZIP
+          </button>
+          <button onClick={onClearFinished} disabled={complete === 0} className={chipClass}>
+            Clear finished
+          </button>
+        </div>
+
+        {jobs.length === 0 ? (
+          <p className="text-sm text-zinc-500">
+            Queue the current project, or one job per built-in style, and render them one after
+            another. Each job keeps the prompt and settings it was added with.
+          </p>
+        ) : (
+          <ol className="flex flex-col gap-2">
+            {jobs.map((job, index) => (
+              <li
+                key={job.id}
+                className="flex flex-col gap-2 rounded-xl border border-white/10 bg-black/30 p-3"
+              >
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="mr-auto min-w-0 truncate text-sm text-zinc-200" title={job.prompt}>
+                    {String(index + 1).padStart(2, "0")} · {job.label}
+                  </span>
+                  <span
+                    className={`text-[11px] uppercase tracking-[0.2em] ${
+                      job.status === "error" ? "text-rose-300" : "text-zinc-400"
+                    }`}
+                  >
+                    {STATUS_LABELS[job.status]}
+                  </span>
+                  <button
+                    onClick={() => onMove(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move ${job.label} up`}
+                    className={chipClass}
+                  >
+                    ↑
+                  </button>
+                  <button
+                    onClick={() => onMove(index, 1)}
+                    disabled={index === jobs.length - 1}
+                    aria-label={`Move ${job.label} down`}
+                    className={chipClass}
+                  >
+                    ↓
+                  </button>
+                  {(job.status === "error" || job.status === "cancelled") && (
+                    <button onClick={() => onRequeue(job.id)} className={chipClass}>
+                      Retry
+                    </button>
+                  )}
+                  <button
+                    onClick={() => onRemove(job.id)}
+                    disabled={job.status === "rendering"}
+                    className={chipClass}
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="relative h-1.5 overflow-hidden rounded-full bg-white/5">
+                  <div
+                    className="absolute left-0 top-0 h-full bg-gradient-to-r from-indigo-500 via-indigo-300 to-sky-300 transition-all"
+                    style={{ width: `${Math.round(job.progress * 100)}%` }}
+                  />
+                </div>
+                {job.error && <p className="text-xs text-rose-300">{job.error}</p>}
+                {job.clip && job.url && (
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-zinc-500">
+                    <a
+                      href={job.url}
+                      download={queueJobFilename(job, index)}
+                      className="font-semibold uppercase tracking-[0.2em] text-indigo-200 transition hover:text-white"
+                    >
+                      Download
+                    </a>
+                    <span>
+                      {job.clip.extension.toUpperCase()} · {formatSize(job.clip.blob.size)}
+                    </span>
+                    {job.fingerprint && <span className="font-mono">{job.fingerprint}</span>}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
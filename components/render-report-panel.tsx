@@ -0,0 +1,167 @@
+"use client";
+
+import {
+  RENDER_PHASE_LABELS,
+  downloadBlob,
+  type RenderEngine,
+  type RenderReport,
+} from "@/lib/export";
+
+interface RenderReportPanelProps {
+  report: RenderReport;
+}
+
+const chipClass =
+  "rounded-full border border-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-zinc-300 transition hover:border-white/40 hover:text-white";
+
+const ENGINE_LABELS: Record<RenderEngine, string> = {
+  worker: "WebCodecs in a worker",
+  webcodecs: "WebCodecs on the page",
+  mediarecorder: "MediaRecorder",
+};
+
+function formatMs(ms: number) {
+  return ms >= 1000 ? `${(ms / 1000).toFixed(2)}s` : `${ms.toFixed(1)}ms`;
+}
+
+function formatMbps(bitsPerSecond: number) {
+  return `${(bitsPerSecond / 1_000_000).toFixed(2)} Mbps`;
+}
+
+function Row({ label, value, warn = false }: { label: string; value: string; warn?: boolean }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span className="uppercase tracking-[0.2em] text-zinc-500">{label}</span>
+      <span className={`text-right font-mono ${warn ? "text-amber-300" : "text-zinc-300"}`}>
+        {value}
+      </span>
+    </div>
+  );
+}
+
+export function RenderReportPanel({ report }: RenderReportPanelProps) {
+  const { frames, duration, bitrate, encoder, timings, browser } = report;
+  const frameStats = timings.frames;
+  const longestPhase = Math.max(1, ...timings.phases.map(({ ms }) => ms));
+  const actualSeconds = duration.actualSeconds?.toFixed(3) ?? "?";
+  const achievedBitrate = bitrate.achieved === null ? "?" : formatMbps(bitrate.achieved);
+  const durationOff =
+    duration.actualSeconds !== null &&
+    Math.abs(duration.actualSeconds - duration.expectedSeconds) > 1 / report.output.fps;
+
+  const exportJson = () =>
+    downloadBlob(
+      new Blob([JSON.stringify(report, null, 2)], { type: "application/json" }),
+      "nebula-synth-render-report.json",
+    );
+
+  return (
+    <div className="flex flex-col gap-4 rounded-2xl border border-white/10 bg-black/30 p-4 text-xs text-zinc-400">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+          Render report
+        </span>
+        <button onClick={exportJson} className={chipClass}>
+          Export JSON
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <Row
+          label="Frames"
+          value={`${frames.inFile ?? "?"} in file of ${frames.expected} expected`}
+          warn={frames.missing !== null && frames.missing > 0}
+        />
+        {frames.rendered !== frames.expected && (
+          <Row
+            label="Drawn this run"
+            value={`${frames.rendered} from frame ${timings.firstFrame + 1}`}
+          />
+        )}
+        <Row
+          label="Duration"
+          value={`${actualSeconds}s of ${duration.expectedSeconds.toFixed(3)}s`}
+          warn={durationOff}
+        />
+        <Row
+          label="Bitrate"
+          value={`${achievedBitrate} of ${formatMbps(bitrate.requested)} requested`}
+        />
+        <Row
+          label="Encoder"
+          value={`${ENGINE_LABELS[encoder.engine]} · ${encoder.videoCodec ?? encoder.mimeType}`}
+        />
+        <Row label="Total time" value={formatMs(timings.totalMs)} />
+      </div>
+
+      {timings.phases.length > 0 && (
+        <div className="flex flex-col gap-1">
+          {timings.phases.map(({ phase, ms }) => (
+            <div key={phase} className="flex items-center gap-3">
+              <span className="w-48 shrink-0">{RENDER_PHASE_LABELS[phase]}</span>
+              <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-white/5">
+                <div
+                  className="h-full bg-indigo-400/70"
+                  style={{ width: `${(ms / longestPhase) * 100}%` }}
+                />
+              </div>
+              <span className="w-16 shrink-0 text-right font-mono text-zinc-300">
+                {formatMs(ms)}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {frameStats && (
+        <div className="flex flex-col gap-1">
+          <Row
+            label="Frame time"
+            value={[
+              `mean ${formatMs(frameStats.meanMs)}`,
+              `median ${formatMs(frameStats.medianMs)}`,
+              `p95 ${formatMs(frameStats.p95Ms)}`,
+            ].join(" · ")}
+          />
+          <Row
+            label="Slowest"
+            value={frameStats.slowest
+              .map(({ frameIndex, ms }) => `#${frameIndex + 1} ${formatMs(ms)}`)
+              .join(" · ")}
+          />
+          {frameStats.lateFrames !== null && (
+            <Row
+              label="Late frames"
+              value={String(frameStats.lateFrames)}
+              warn={frameStats.lateFrames > 0}
+            />
+          )}
+        </div>
+      )}
+
+      <details>
+        <summary className="cursor-pointer uppercase tracking-[0.2em] text-zinc-500 hover:text-zinc-300">
+          Encoder &amp; browser
+        </summary>
+        <div className="mt-2 flex flex-col gap-1">
+          <Row label="Container" value={encoder.mimeType || "unknown"} />
+          <Row label="Audio" value={encoder.audioCodec ?? "none"} />
+          {encoder.keyFrameInterval !== null && (
+            <Row label="Keyframes" value={`every ${encoder.keyFrameInterval} frames`} />
+          )}
+          <Row label="Cores" value={String(browser.hardwareConcurrency ?? "unknown")} />
+          {browser.deviceMemoryGb !== null && (
+            <Row label="Memory" value={`${browser.deviceMemoryGb} GB`} />
+          )}
+          <Row label="WebCodecs" value={browser.webCodecs ? "yes" : "no"} />
+          <Row label="Worker rendering" value={browser.workerRendering ? "yes" : "no"} />
+          <Row
+            label="Recorder types"
+            value={browser.recorderTypes.length > 0 ? browser.recorderTypes.join(", ") : "none"}
+          />
+          <p className="break-all font-mono text-[11px] text-zinc-500">{browser.userAgent}</p>
+        </div>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,155 @@
+"use client";
+
+import type { AssetSummary } from "@/lib/assets";
+import {
+  ASSET_FIT_LABELS,
+  ASSET_MOTION_LABELS,
+  createSceneAsset,
+  type AssetFit,
+  type AssetMode,
+  type AssetMotion,
+  type SceneAsset,
+} from "@/lib/compositor";
+
+interface SceneAssetEditorProps {
+  assets: SceneAsset[];
+  library: AssetSummary[];
+  onChange: (assets: SceneAsset[]) => void;
+}
+
+const chipClass =
+  "rounded-full border border-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-zinc-300 transition hover:border-white/40 hover:text-white";
+
+const selectClass =
+  "rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-sm text-zinc-100 focus:border-indigo-400/60 focus:outline-none";
+
+const OVERLAY_SLIDERS: [keyof Pick<SceneAsset, "x" | "y" | "size">, string, number][] = [
+  ["x", "Across", 0],
+  ["y", "Down", 0],
+  ["size", "Size", 0.05],
+];
+
+export function SceneAssetEditor({ assets, library, onChange }: SceneAssetEditorProps) {
+  const update = (index: number, patch: Partial<SceneAsset>) =>
+    onChange(assets.map((asset, i) => (i === index ? { ...asset, ...patch } : asset)));
+
+  return (
+    <div className="flex flex-col gap-2">
+      {assets.map((asset, index) => {
+        const source = library.find((item) => item.id === asset.assetId);
+        return (
+          <div
+            key={`${asset.assetId}-${index}`}
+            className="flex flex-col gap-2 rounded-lg border border-white/10 p-2"
+          >
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="mr-auto truncate text-sm text-zinc-200">
+                {source?.name ?? "Missing image"}
+              </span>
+              <select
+                value={asset.mode}
+                onChange={(event) =>
+                  update(index, {
+                    ...createSceneAsset(asset.assetId, event.target.value as AssetMode),
+                    opacity: asset.opacity,
+                  })
+                }
+                aria-label="Placement"
+                className={selectClass}
+              >
+                <option value="background">Background</option>
+                <option value="overlay">Overlay</option>
+              </select>
+              <select
+                value={asset.fit}
+                onChange={(event) => update(index, { fit: event.target.value as AssetFit })}
+                aria-label="Fit"
+                className={selectClass}
+              >
+                {(Object.keys(ASSET_FIT_LABELS) as AssetFit[]).map((fit) => (
+                  <option key={fit} value={fit}>
+                    {ASSET_FIT_LABELS[fit]}
+                  </option>
+                ))}
+              </select>
+              {asset.mode === "background" && (
+                <select
+                  value={asset.motion}
+                  onChange={(event) =>
+                    update(index, { motion: event.target.value as AssetMotion })
+                  }
+                  aria-label="Motion"
+                  className={selectClass}
+                >
+                  {(Object.keys(ASSET_MOTION_LABELS) as AssetMotion[]).map((motion) => (
+                    <option key={motion} value={motion}>
+                      {ASSET_MOTION_LABELS[motion]}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                onClick={() => onChange(assets.filter((_, i) => i !== index))}
+                className={chipClass}
+              >
+                Remove
+              </button>
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-xs text-zinc-400">
+              {asset.mode === "overlay" &&
+                OVERLAY_SLIDERS.map(([key, label, min]) => (
+                  <label key={key} className="flex items-center gap-2">
+                    {label}
+                    <input
+                      type="range"
+                      min={min}
+                      max={1}
+                      step={0.01}
+                      value={asset[key]}
+                      onChange={(event) => update(index, { [key]: Number(event.target.value) })}
+                      className="w-20 accent-indigo-400"
+                    />
+                  </label>
+                ))}
+              <label className="flex items-center gap-2">
+                Opacity
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={asset.opacity}
+                  onChange={(event) => update(index, { opacity: Number(event.target.value) })}
+                  className="w-20 accent-indigo-400"
+                />
+              </label>
+            </div>
+          </div>
+        );
+      })}
+      <select
+        value=""
+        onChange={(event) => {
+          if (event.target.value) {
+            onChange([
+              ...assets,
+              createSceneAsset(event.target.value, assets.length === 0 ? "background" : "overlay"),
+            ]);
+          }
+        }}
+        disabled={library.length === 0}
+        aria-label="Add image"
+        className={`${selectClass} self-start disabled:text-zinc-600`}
+      >
+        <option value="">
+          {library.length === 0 ? "Upload images in the asset library" : "Add image…"}
+        </option>
+        {library.map((item) => (
+          <option key={item.id} value={item.id}>
+            {item.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
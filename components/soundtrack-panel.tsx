@@ -0,0 +1,152 @@
+"use client";
+
+import type { AudioAnalysis, AudioTrackSettings, SceneTimingMode } from "@/lib/audio";
+
+export interface LoadedAudioTrack {
+  name: string;
+  buffer: AudioBuffer;
+  analysis: AudioAnalysis;
+}
+
+interface SoundtrackPanelProps {
+  track: LoadedAudioTrack | null;
+  loading: boolean;
+  settings: AudioTrackSettings;
+  timingMode: SceneTimingMode;
+  onFile: (file: File) => void;
+  onRemove: () => void;
+  onSettingsChange: (patch: Partial<AudioTrackSettings>) => void;
+  onTimingModeChange: (mode: SceneTimingMode) => void;
+}
+
+const TIMING_MODES: [SceneTimingMode, string][] = [
+  ["fixed", "Fixed beats"],
+  ["beats", "Snap to music"],
+  ["pauses", "Snap to pauses"],
+];
+
+export function SoundtrackPanel({
+  track,
+  loading,
+  settings,
+  timingMode,
+  onFile,
+  onRemove,
+  onSettingsChange,
+  onTimingModeChange,
+}: SoundtrackPanelProps) {
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+        Soundtrack
+      </label>
+      <div className="flex flex-col gap-4 rounded-2xl border border-white/15 bg-black/40 p-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="cursor-pointer rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-zinc-300 transition hover:border-white/40 hover:text-white">
+            {track ? "Replace Audio" : "Attach Audio"}
+            <input
+              type="file"
+              accept="audio/*"
+              className="hidden"
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) onFile(file);
+                event.target.value = "";
+              }}
+            />
+          </label>
+          {track && (
+            <button
+              onClick={onRemove}
+              className="rounded-full border border-white/10 px-4 py-2 text-xs font-semibold uppercase tracking-[0.3em] text-zinc-400 transition hover:border-white/40 hover:text-white"
+            >
+              Remove
+            </button>
+          )}
+          <span className="text-sm text-zinc-400">
+            {loading
+              ? "Analysing audio..."
+              : track
+                ? `${track.name} · ${track.buffer.duration.toFixed(1)}s · ${track.analysis.beats.length} beats · ${track.analysis.pauses.length} pauses`
+                : "Music bed or voice-over, mixed into the export."}
+          </span>
+        </div>
+
+        {track && (
+          <>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div className="flex flex-col gap-2">
+                <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+                  Volume
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={settings.volume}
+                  onChange={(event) => onSettingsChange({ volume: Number(event.target.value) })}
+                  className="accent-indigo-400"
+                />
+                <span className="text-sm text-zinc-300">{Math.round(settings.volume * 100)}%</span>
+              </div>
+              <div className="flex flex-col gap-2">
+                <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+                  Fade In
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={5}
+                  step={0.5}
+                  value={settings.fadeInSeconds}
+                  onChange={(event) =>
+                    onSettingsChange({ fadeInSeconds: Number(event.target.value) })
+                  }
+                  className="accent-indigo-400"
+                />
+                <span className="text-sm text-zinc-300">{settings.fadeInSeconds} sec</span>
+              </div>
+              <div className="flex flex-col gap-2">
+                <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+                  Fade Out
+                </span>
+                <input
+                  type="range"
+                  min={0}
+                  max={5}
+                  step={0.5}
+                  value={settings.fadeOutSeconds}
+                  onChange={(event) =>
+                    onSettingsChange({ fadeOutSeconds: Number(event.target.value) })
+                  }
+                  className="accent-indigo-400"
+                />
+                <span className="text-sm text-zinc-300">{settings.fadeOutSeconds} sec</span>
+              </div>
+            </div>
+
+            <div className="flex flex-col gap-2">
+              <span className="text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300">
+                Scene Timing
+              </span>
+              <div className="grid grid-cols-3 gap-2">
+                {TIMING_MODES.map(([mode, label]) => (
+                  <button
+                    key={mode}
+                    onClick={() => onTimingModeChange(mode)}
+                    className={`rounded-2xl border border-white/15 bg-black/40 p-2 text-xs font-semibold uppercase tracking-widest text-white transition hover:border-white/40 ${
+                      timingMode === mode ? "ring-2 ring-indigo-400/80" : ""
+                    }`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import {
+  GIF_FRAME_RATES,
+  GIF_WIDTHS,
+  type FrameRange,
+  type GifOptions,
+  type StillExportKind,
+} from "@/lib/export";
+
+interface StillExportPanelProps {
+  range: FrameRange;
+  /** First and last-plus-one frame of each scene, for picking a scene as the range. */
+  scenes: FrameRange[];
+  totalFrames: number;
+  fps: number;
+  posterFrame: number;
+  gifOptions: GifOptions;
+  gifHeight: number;
+  exporting: { kind: StillExportKind; progress: number } | null;
+  canExport: boolean;
+  error: string | null;
+  onRangeChange: (range: FrameRange | null) => void;
+  onPosterFrameChange: (frameIndex: number | null) => void;
+  onGifOptionsChange: (options: GifOptions) => void;
+  onExport: (kind: StillExportKind) => void;
+  onCancel: () => void;
+}
+
+const chipClass =
+  "rounded-full border border-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-zinc-300 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:text-zinc-600";
+
+const inputClass =
+  "w-24 rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-sm text-zinc-100 focus:border-indigo-400/60 focus:outline-none";
+
+const EXPORT_LABELS: Record<StillExportKind, string> = {
+  poster: "Poster PNG",
+  gif: "Animated GIF",
+  "png-sequence": "PNG sequence",
+};
+
+function formatSeconds(frames: number, fps: number) {
+  return `${(frames / fps).toFixed(2)}s`;
+}
+
+// Frames are numbered from one here, as in the render monitor.
+export function StillExportPanel({
+  range,
+  scenes,
+  totalFrames,
+  fps,
+  posterFrame,
+  gifOptions,
+  gifHeight,
+  exporting,
+  canExport,
+  error,
+  onRangeChange,
+  onPosterFrameChange,
+  onGifOptionsChange,
+  onExport,
+  onCancel,
+}: StillExportPanelProps) {
+  const frameCount = range.end - range.start;
+
+  return (
+    <div className="flex flex-col gap-3">
+      <label className="text-xs font-semibold uppercase tracking-[0.35em] text-indigo-300">
+        Stills &amp; GIF
+      </label>
+      <div className="flex flex-col gap-4 rounded-2xl border border-white/15 bg-black/40 p-4 text-xs text-zinc-400">
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1">
+            First frame
+            <input
+              type="number"
+              min={1}
+              max={totalFrames}
+              value={range.start + 1}
+              onChange={(event) =>
+                onRangeChange({ start: Number(event.target.value) - 1, end: range.end })
+              }
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            Last frame
+            <input
+              type="number"
+              min={1}
+              max={totalFrames}
+              value={range.end}
+              onChange={(event) =>
+                onRangeChange({ start: range.start, end: Number(event.target.value) })
+              }
+              className={inputClass}
+            />
+          </label>
+          <span className="pb-1.5">
+            {frameCount} frames · {formatSeconds(frameCount, fps)} of{" "}
+            {formatSeconds(totalFrames, fps)}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <button onClick={() => onRangeChange(null)} className={chipClass}>
+            Whole clip
+          </button>
+          {scenes.map((scene, index) => (
+            <button
+              key={scene.start}
+              onClick={() => onRangeChange(scene)}
+              aria-pressed={scene.start === range.start && scene.end === range.end}
+              className={`${chipClass} ${
+                scene.start === range.start && scene.end === range.end
+                  ? "border-indigo-400/60 text-white"
+                  : ""
+              }`}
+            >
+              Scene {index + 1}
+            </button>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1">
+            Poster frame
+            <input
+              type="number"
+              min={1}
+              max={totalFrames}
+              value={posterFrame + 1}
+              onChange={(event) => onPosterFrameChange(Number(event.target.value) - 1)}
+              className={inputClass}
+            />
+          </label>
+          <button onClick={() => onPosterFrameChange(null)} className={chipClass}>
+            Default
+          </button>
+          <label className="flex flex-col gap-1">
+            GIF frame rate
+            <select
+              value={gifOptions.fps}
+              onChange={(event) =>
+                onGifOptionsChange({ ...gifOptions, fps: Number(event.target.value) })
+              }
+              className={inputClass}
+            >
+              {GIF_FRAME_RATES.map((rate) => (
+                <option key={rate} value={rate}>
+                  {rate} fps
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            GIF width
+            <select
+              value={gifOptions.width}
+              onChange={(event) =>
+                onGifOptionsChange({ ...gifOptions, width: Number(event.target.value) })
+              }
+              className={inputClass}
+            >
+              {GIF_WIDTHS.map((width) => (
+                <option key={width} value={width}>
+                  {width}px
+                </option>
+              ))}
+            </select>
+          </label>
+          <span className="pb-1.5">
+            {gifOptions.width} × {gifHeight}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          {(Object.keys(EXPORT_LABELS) as StillExportKind[]).map((kind) => (
+            <button
+              key={kind}
+              onClick={() => onExport(kind)}
+              disabled={!canExport || exporting !== null}
+              className={chipClass}
+            >
+              {EXPORT_LABELS[kind]}
+            </button>
+          ))}
+          {exporting && (
+            <button onClick={onCancel} className={chipClass}>
+              Cancel
+            </button>
+          )}
+        </div>
+
+        {exporting && (
+          <div className="flex flex-col gap-1">
+            <span>
+              {EXPORT_LABELS[exporting.kind]} · {Math.round(exporting.progress * 100)}%
+            </span>
+            <div className="relative h-1.5 overflow-hidden rounded-full bg-white/5">
+              <div
+                className="absolute left-0 top-0 h-full bg-gradient-to-r from-indigo-500 via-indigo-300 to-sky-300 transition-all"
+                style={{ width: `${Math.round(exporting.progress * 100)}%` }}
+              />
+            </div>
+          </div>
+        )}
+        {error && <p className="text-rose-300">{error}</p>}
+        {!exporting && !error && (
+          <p className="text-zinc-500">
+            The poster is a single frame at the output size. The GIF and the PNG sequence cover
+            the frame range; the sequence downloads as a ZIP of numbered frames.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import { useState } from "react";
+import { LayerStackEditor } from "@/components/layer-stack-editor";
+import type { AssetSummary } from "@/lib/assets";
+import {
+  BUILT_IN_THEMES,
+  FONT_ROLE_LABELS,
+  isBuiltInTheme,
+  paletteToCss,
+  type FontRole,
+  type Theme,
+  type ThemeColors,
+} from "@/lib/compositor";
+import { downloadBlob } from "@/lib/export";
+import type { FontSummary } from "@/lib/fonts";
+import {
+  ThemeValidationError,
+  deleteCustomTheme,
+  parseThemeFile,
+  saveCustomThemes,
+  serializeThemes,
+  upsertCustomTheme,
+  validateTheme,
+} from "@/lib/themes";
+
+interface ThemeEditorProps {
+  theme: Theme;
+  customThemes: Theme[];
+  assets: AssetSummary[];
+  /** Uploaded fonts, offered alongside the built-in choices. */
+  fonts: FontSummary[];
+  onSelect: (id: string) => void;
+}
+
+const FONT_CHOICES: [string, string][] = [
+  ["Space Grotesk", "'Space Grotesk', sans-serif"],
+  ["DM Sans", "'DM Sans', sans-serif"],
+  ["System Sans", "system-ui, sans-serif"],
+  ["Serif", "Georgia, 'Times New Roman', serif"],
+  ["Monospace", "'Courier New', monospace"],
+];
+
+const COLOR_ROLES: [keyof ThemeColors, string][] = [
+  ["title", "Title"],
+  ["body", "Body"],
+  ["sceneNumber", "Scene no."],
+  ["accent", "Accent"],
+];
+
+const chipClass =
+  "rounded-full border border-white/10 px-3 py-1 text-[11px] font-semibold uppercase tracking-[0.2em] text-zinc-300 transition hover:border-white/40 hover:text-white disabled:cursor-not-allowed disabled:text-zinc-600";
+
+const labelClass = "text-[11px] font-semibold uppercase tracking-[0.3em] text-indigo-300";
+
+function createThemeId() {
+  return `custom-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function ThemeEditor({ theme, customThemes, assets, fonts, onSelect }: ThemeEditorProps) {
+  const [draft, setDraft] = useState<Theme | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+  const editing = draft !== null && draft.id === theme.id;
+  const fontChoices: [string, string][] = [
+    ...FONT_CHOICES,
+    ...fonts.map((font): [string, string] => [font.family, `'${font.family}', sans-serif`]),
+  ];
+
+  const update = (patch: Partial<Theme>) => {
+    if (!draft) return;
+    const next = { ...draft, ...patch };
+    const problems: string[] = [];
+    validateTheme(next, "theme", problems);
+    setDraft(next);
+    setIssues(problems);
+    if (problems.length === 0) {
+      upsertCustomTheme(next);
+    }
+  };
+
+  const duplicate = () => {
+    const copy: Theme = {
+      ...structuredClone(theme),
+      id: createThemeId(),
+      name: `${theme.name} Copy`,
+    };
+    upsertCustomTheme(copy);
+    onSelect(copy.id);
+    setDraft(copy);
+    setIssues([]);
+  };
+
+  const remove = () => {
+    deleteCustomTheme(theme.id);
+    onSelect(BUILT_IN_THEMES[0].id);
+    setDraft(null);
+    setIssues([]);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseThemeFile(JSON.parse(await file.text()));
+      const renamed = imported.map((item) =>
+        isBuiltInTheme(item.id) ? { ...item, id: createThemeId() } : item,
+      );
+      const ids = new Set(renamed.map((item) => item.id));
+      saveCustomThemes([...customThemes.filter((item) => !ids.has(item.id)), ...renamed]);
+      if (renamed.length > 0) onSelect(renamed[0].id);
+      setDraft(null);
+      setIssues([]);
+    } catch (err) {
+      console.error(err);
+      setIssues(
+        err instanceof ThemeValidationError
+          ? err.issues
+          : [`${file.name} is not valid JSON.`],
+      );
+    }
+  };
+
+  const exportThemes = (themes: Theme[], filename: string) => {
+    downloadBlob(new Blob([serializeThemes(themes)], { type: "application/json" }), filename);
+  };
+
+  const updatePalette = (index: number, palette: string[]) => {
+    if (!draft) return;
+    update({ palettes: draft.palettes.map((item, i) => (i === index ? palette : item)) });
+  };
+
+  return (
+    <div className="flex flex-col gap-3 rounded-2xl border border-white/15 bg-black/40 p-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={labelClass}>Theme</span>
+        <span className="mr-auto text-sm text-zinc-300">{theme.name}</span>
+        {isBuiltInTheme(theme.id) ? null : (
+          <>
+            <button
+              onClick={() => {
+                setDraft(editing ? null : theme);
+                setIssues([]);
+              }}
+              className={chipClass}
+            >
+              {editing ? "Done" : "Edit"}
+            </button>
+            <button onClick={remove} className={chipClass}>
+              Delete
+            </button>
+          </>
+        )}
+        <button onClick={duplicate} className={chipClass}>
+          Duplicate
+        </button>
+        <button
+          onClick={() => exportThemes([theme], `${theme.id}.theme.json`)}
+          className={chipClass}
+        >
+          Export
+        </button>
+        <button
+          onClick={() => exportThemes(customThemes, "nebula-themes.json")}
+          disabled={customThemes.length === 0}
+          className={chipClass}
+        >
+          Export All
+        </button>
+        <label className={`${chipClass} cursor-pointer`}>
+          Import
+          <input
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              if (file) void importFile(file);
+              event.target.value = "";
+            }}
+          />
+        </label>
+      </div>
+
+      {editing && draft && (
+        <div className="flex flex-col gap-4">
+          <div className="flex flex-wrap items-center gap-3">
+            <span className={labelClass}>Name</span>
+            <input
+              value={draft.name}
+              onChange={(event) => update({ name: event.target.value })}
+              className="flex-1 rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-sm text-zinc-100 focus:border-indigo-400/60 focus:outline-none"
+            />
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <span className={labelClass}>Gradients</span>
+            {draft.palettes.map((palette, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2">
+                <div
+                  className="h-7 w-12 rounded-lg border border-white/10"
+                  style={{ background: paletteToCss(palette, draft.angle) }}
+                />
+                {palette.map((color, stop) => (
+                  <input
+                    key={stop}
+                    type="color"
+                    value={color}
+                    onChange={(event) =>
+                      updatePalette(
+                        index,
+                        palette.map((item, i) => (i === stop ? event.target.value : item)),
+                      )
+                    }
+                    aria-label={`Gradient ${index + 1} colour ${stop + 1}`}
+                    className="h-7 w-9 cursor-pointer rounded border border-white/10 bg-transparent"
+                  />
+                ))}
+                <button
+                  onClick={() => updatePalette(index, [...palette, palette[palette.length - 1]])}
+                  className={chipClass}
+                >
+                  + Stop
+                </button>
+                <button
+                  onClick={() => updatePalette(index, palette.slice(0, -1))}
+                  disabled={palette.length <= 2}
+                  className={chipClass}
+                >
+                  − Stop
+                </button>
+                <button
+                  onClick={() =>
+                    update({ palettes: draft.palettes.filter((_, i) => i !== index) })
+                  }
+                  disabled={draft.palettes.length <= 1}
+                  className={chipClass}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => update({ palettes: [...draft.palettes, [...draft.palettes[0]]] })}
+              className={`${chipClass} self-start`}
+            >
+              Add gradient
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            <div className="flex flex-col gap-2">
+              <span className={labelClass}>Angle</span>
+              <input
+                type="range"
+                min={0}
+                max={360}
+                step={15}
+                value={draft.angle}
+                onChange={(event) => update({ angle: Number(event.target.value) })}
+                className="accent-indigo-400"
+              />
+              <span className="text-sm text-zinc-300">{draft.angle}°</span>
+            </div>
+            <div className="flex flex-col gap-2">
+              <span className={labelClass}>Overlay</span>
+              <input
+                type="range"
+                min={0}
+                max={0.5}
+                step={0.02}
+                value={draft.overlayOpacity}
+                onChange={(event) => update({ overlayOpacity: Number(event.target.value) })}
+                className="accent-indigo-400"
+              />
+              <span className="text-sm text-zinc-300">
+                {Math.round(draft.overlayOpacity * 100)}%
+              </span>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <span className={labelClass}>Text</span>
+            {COLOR_ROLES.map(([role, label]) => (
+              <label key={role} className="flex items-center gap-2 text-xs text-zinc-400">
+                <input
+                  type="color"
+                  value={draft.colors[role]}
+                  onChange={(event) =>
+                    update({ colors: { ...draft.colors, [role]: event.target.value } })
+                  }
+                  className="h-7 w-9 cursor-pointer rounded border border-white/10 bg-transparent"
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+            {(Object.keys(FONT_ROLE_LABELS) as FontRole[]).map((role) => (
+              <div key={role} className="flex flex-col gap-2">
+                <span className={labelClass}>{FONT_ROLE_LABELS[role]} Font</span>
+                <select
+                  value={draft.fonts[role]}
+                  onChange={(event) =>
+                    update({ fonts: { ...draft.fonts, [role]: event.target.value } })
+                  }
+                  className="rounded-lg border border-white/10 bg-black/40 px-2 py-1 text-sm text-zinc-100 focus:border-indigo-400/60 focus:outline-none"
+                >
+                  {!fontChoices.some(([, family]) => family === draft.fonts[role]) && (
+                    <option value={draft.fonts[role]}>{draft.fonts[role]}</option>
+                  )}
+                  {fontChoices.map(([label, family]) => (
+                    <option key={family} value={family}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-2">
+            <span className={labelClass}>Layers</span>
+            <LayerStackEditor
+              layers={draft.layers}
+              assets={assets}
+              onChange={(layers) => update({ layers })}
+            />
+          </div>
+        </div>
+      )}
+
+      {issues.length > 0 && (
+        <ul className="flex flex-col gap-1 rounded-xl border border-rose-500/40 bg-rose-500/10 p-3 text-xs text-rose-200">
+          {issues.map((issue) => (
+            <li key={issue}>{issue}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import type { AssetImages, DrawableImage } from "@/lib/compositor";
+import type { StoredAsset } from "./types";
+
+const decoded = new Map<string, Promise<ImageBitmap>>();
+
+function decodeAsset(asset: StoredAsset) {
+  let bitmap = decoded.get(asset.id);
+  if (!bitmap) {
+    bitmap = createImageBitmap(asset.blob);
+    // Forget failures so a later render can try again.
+    bitmap.catch(() => decoded.delete(asset.id));
+    decoded.set(asset.id, bitmap);
+  }
+  return bitmap;
+}
+
+/**
+ * Decodes the assets with the given ids. Resolves only once every image is ready, so a
+ * render that awaits it draws them from frame zero. Ids not in the library are skipped.
+ */
+export async function loadAssetImages(library: StoredAsset[], ids: string[]): Promise<AssetImages> {
+  const entries = await Promise.all(
+    library
+      .filter((asset) => ids.includes(asset.id))
+      .map(async (asset): Promise<[string, DrawableImage]> => [asset.id, await decodeAsset(asset)]),
+  );
+  return new Map(entries);
+}
+
+/**
+ * Frees the decoded image of a deleted asset. Drop it from any `AssetImages` the page draws
+ * from first; a render still holding it skips it once it is closed.
+ */
+export function releaseAssetImage(id: string) {
+  const bitmap = decoded.get(id);
+  decoded.delete(id);
+  void bitmap?.then((image) => image.close(), () => undefined);
+}
@@ -0,0 +1,3 @@
+export { loadAssetImages, releaseAssetImage } from "./images";
+export { ACCEPTED_IMAGE_TYPES, deleteAsset, listAssets, saveAsset } from "./storage";
+export type { AssetSummary, StoredAsset } from "./types";
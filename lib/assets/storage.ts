@@ -0,0 +1,38 @@
+import { withStore } from "@/lib/storage";
+import type { StoredAsset } from "./types";
+
+export const ACCEPTED_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"];
+
+/** Stores an uploaded image after checking that the browser can decode it. */
+export async function saveAsset(file: File): Promise<StoredAsset> {
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new Error(`${file.name} is not a PNG, JPEG, WebP, or GIF image.`);
+  }
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file);
+  } catch {
+    throw new Error(`${file.name} could not be decoded as an image.`);
+  }
+  const asset: StoredAsset = {
+    id: crypto.randomUUID(),
+    name: file.name,
+    type: file.type,
+    width: bitmap.width,
+    height: bitmap.height,
+    createdAt: new Date().toISOString(),
+    blob: file,
+  };
+  bitmap.close();
+  await withStore("assets", "readwrite", (store) => store.put(asset));
+  return asset;
+}
+
+export async function listAssets() {
+  const assets = await withStore<StoredAsset[]>("assets", "readonly", (store) => store.getAll());
+  return assets.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function deleteAsset(id: string) {
+  await withStore("assets", "readwrite", (store) => store.delete(id));
+}
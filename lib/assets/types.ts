@@ -0,0 +1,14 @@
+export interface AssetSummary {
+  id: string;
+  name: string;
+  /** MIME type of the uploaded file. */
+  type: string;
+  width: number;
+  height: number;
+  createdAt: string;
+}
+
+/** An uploaded image as kept in IndexedDB. */
+export interface StoredAsset extends AssetSummary {
+  blob: Blob;
+}
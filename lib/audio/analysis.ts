@@ -0,0 +1,119 @@
+import type { GenerationSettings, TimelineSlice } from "@/lib/compositor";
+import type { AudioAnalysis } from "./types";
+
+const WINDOW_SIZE = 1024;
+const MIN_BEAT_SPACING_SECONDS = 0.25;
+const MIN_PAUSE_SECONDS = 0.3;
+const MIN_SCENE_SECONDS = 1;
+
+function toMono(buffer: AudioBuffer) {
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+function windowRms(samples: Float32Array) {
+  const count = Math.floor(samples.length / WINDOW_SIZE);
+  const rms = new Float32Array(count);
+  for (let w = 0; w < count; w++) {
+    let sum = 0;
+    for (let i = w * WINDOW_SIZE; i < (w + 1) * WINDOW_SIZE; i++) {
+      sum += samples[i] * samples[i];
+    }
+    rms[w] = Math.sqrt(sum / WINDOW_SIZE);
+  }
+  return rms;
+}
+
+function detectBeats(rms: Float32Array, windowSeconds: number) {
+  const flux = rms.map((value, i) => (i === 0 ? 0 : Math.max(0, value - rms[i - 1])));
+  const radius = Math.max(1, Math.round(0.5 / windowSeconds));
+  const beats: number[] = [];
+  let lastBeat = -Infinity;
+  for (let i = 1; i < flux.length - 1; i++) {
+    if (flux[i] <= flux[i - 1] || flux[i] < flux[i + 1]) continue;
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+    for (let j = Math.max(0, i - radius); j < Math.min(flux.length, i + radius); j++) {
+      sum += flux[j];
+      sumSquares += flux[j] * flux[j];
+      count += 1;
+    }
+    const mean = sum / count;
+    const deviation = Math.sqrt(Math.max(0, sumSquares / count - mean * mean));
+    const time = i * windowSeconds;
+    if (flux[i] > mean + deviation * 1.5 && time - lastBeat >= MIN_BEAT_SPACING_SECONDS) {
+      beats.push(time);
+      lastBeat = time;
+    }
+  }
+  return beats;
+}
+
+function detectPauses(rms: Float32Array, windowSeconds: number) {
+  const sorted = [...rms].sort((a, b) => a - b);
+  const loud = sorted[Math.floor(sorted.length * 0.9)] ?? 0;
+  const threshold = Math.max(0.005, loud * 0.12);
+  const pauses: number[] = [];
+  let runStart = -1;
+  for (let i = 0; i <= rms.length; i++) {
+    const quiet = i < rms.length && rms[i] < threshold;
+    if (quiet && runStart === -1) {
+      runStart = i;
+    } else if (!quiet && runStart !== -1) {
+      if ((i - runStart) * windowSeconds >= MIN_PAUSE_SECONDS) {
+        pauses.push(((runStart + i) / 2) * windowSeconds);
+      }
+      runStart = -1;
+    }
+  }
+  return pauses;
+}
+
+export function analyseAudio(buffer: AudioBuffer): AudioAnalysis {
+  const rms = windowRms(toMono(buffer));
+  const windowSeconds = WINDOW_SIZE / buffer.sampleRate;
+  return {
+    beats: detectBeats(rms, windowSeconds),
+    pauses: detectPauses(rms, windowSeconds),
+  };
+}
+
+/**
+ * Moves the end of every scene that follows the global beat length to the nearest marker,
+ * as long as the marker is within half a beat. Scenes with an explicit duration keep it.
+ */
+export function snapSceneDurations(
+  timeline: TimelineSlice[],
+  settings: Pick<GenerationSettings, "fps" | "segmentSeconds">,
+  markers: number[],
+): TimelineSlice[] {
+  const tolerance = settings.segmentSeconds / 2;
+  let cursor = 0;
+  return timeline.map((slice, index) => {
+    if (slice.durationSeconds !== null || index === timeline.length - 1) {
+      cursor += slice.durationSeconds ?? settings.segmentSeconds;
+      return slice;
+    }
+    const nominalEnd = cursor + settings.segmentSeconds;
+    let best: number | null = null;
+    for (const marker of markers) {
+      if (marker - cursor < MIN_SCENE_SECONDS || Math.abs(marker - nominalEnd) > tolerance) {
+        continue;
+      }
+      if (best === null || Math.abs(marker - nominalEnd) < Math.abs(best - nominalEnd)) {
+        best = marker;
+      }
+    }
+    const end = best ?? nominalEnd;
+    const durationSeconds = Math.round((end - cursor) * settings.fps) / settings.fps;
+    cursor += durationSeconds;
+    return { ...slice, durationSeconds };
+  });
+}
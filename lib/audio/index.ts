@@ -0,0 +1,3 @@
+export { analyseAudio, snapSceneDurations } from "./analysis";
+export { DEFAULT_AUDIO_SETTINGS, MIX_SAMPLE_RATE, decodeAudioFile, mixAudioTrack } from "./mix";
+export type { AudioAnalysis, AudioTrackSettings, SceneTimingMode } from "./types";
@@ -0,0 +1,46 @@
+import type { AudioTrackSettings } from "./types";
+
+export const MIX_SAMPLE_RATE = 48_000;
+
+export const DEFAULT_AUDIO_SETTINGS: AudioTrackSettings = {
+  volume: 0.8,
+  fadeInSeconds: 1,
+  fadeOutSeconds: 2,
+};
+
+export async function decodeAudioFile(file: Blob) {
+  const context = new OfflineAudioContext(2, 1, MIX_SAMPLE_RATE);
+  return context.decodeAudioData(await file.arrayBuffer());
+}
+
+/**
+ * Renders the track to exactly `durationSeconds` of stereo audio with volume and fades
+ * applied. Rendering is offline, so the result is identical for identical inputs.
+ */
+export async function mixAudioTrack(
+  source: AudioBuffer,
+  settings: AudioTrackSettings,
+  durationSeconds: number,
+) {
+  const length = Math.max(1, Math.ceil(durationSeconds * MIX_SAMPLE_RATE));
+  const context = new OfflineAudioContext(2, length, MIX_SAMPLE_RATE);
+  const node = context.createBufferSource();
+  node.buffer = source;
+
+  const gain = context.createGain();
+  const fadeIn = Math.min(settings.fadeInSeconds, durationSeconds / 2);
+  const fadeOut = Math.min(settings.fadeOutSeconds, durationSeconds / 2);
+  gain.gain.setValueAtTime(fadeIn > 0 ? 0 : settings.volume, 0);
+  if (fadeIn > 0) {
+    gain.gain.linearRampToValueAtTime(settings.volume, fadeIn);
+  }
+  if (fadeOut > 0) {
+    gain.gain.setValueAtTime(settings.volume, durationSeconds - fadeOut);
+    gain.gain.linearRampToValueAtTime(0, durationSeconds);
+  }
+
+  node.connect(gain);
+  gain.connect(context.destination);
+  node.start(0);
+  return context.startRendering();
+}
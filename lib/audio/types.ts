@@ -0,0 +1,15 @@
+export interface AudioTrackSettings {
+  /** Linear gain applied to the whole track, 0–1. */
+  volume: number;
+  fadeInSeconds: number;
+  fadeOutSeconds: number;
+}
+
+export type SceneTimingMode = "fixed" | "beats" | "pauses";
+
+export interface AudioAnalysis {
+  /** Onset times in seconds, at least a quarter second apart. */
+  beats: number[];
+  /** Midpoints of quiet stretches in seconds, suitable for narration scene breaks. */
+  pauses: number[];
+}
@@ -0,0 +1,211 @@
+import { splitGraphemes, type LayoutLine } from "../text";
+import type { RenderContext2D, SceneTextAlign, TextRange } from "../types";
+import { PROPERTY_DEFAULTS, sampleTrack, sampleTracks } from "./keyframes";
+import type { AnimationTarget, TextAnimation } from "./types";
+
+export interface AnimatedTextOptions {
+  /** From `layoutText` or `fitText`, in the font the context is set to. */
+  lines: LayoutLine[];
+  /** Left edge, centre or right edge of the block, following `align`. */
+  x: number;
+  /** Centre of the middle line. */
+  y: number;
+  align: SceneTextAlign;
+  /** Size of the current font in pixels; animation offsets are in ems of it. */
+  fontSize: number;
+  lineHeight: number;
+  animation: TextAnimation;
+  sceneProgress: number;
+  opacity: number;
+  /** Ranges in the laid-out text to draw in `highlightColor`. */
+  highlights?: TextRange[];
+  highlightColor?: string;
+}
+
+interface TextPart {
+  text: string;
+  x: number;
+  y: number;
+  direction: LayoutLine["direction"];
+  highlighted: boolean;
+}
+
+/** A piece of text that moves as one, with its transform origin at `cx`, `cy`. */
+interface TextUnit {
+  parts: TextPart[];
+  cx: number;
+  cy: number;
+  highlighted: boolean;
+  /** Position in the text, so units are staggered in reading order. */
+  start: number;
+}
+
+interface PlacedLine {
+  line: LayoutLine;
+  left: number;
+  y: number;
+}
+
+function overlaps(range: TextRange, highlights: TextRange[]) {
+  return highlights.some((highlight) => highlight.start < range.end && range.start < highlight.end);
+}
+
+/** A whole line in one part, unless some of its words are highlighted. */
+function lineParts({ line, left, y }: PlacedLine, highlights: TextRange[]): TextPart[] {
+  if (!overlaps(line, highlights)) {
+    return [{ text: line.text, x: left, y, direction: line.direction, highlighted: false }];
+  }
+  return line.words.map((word) => ({
+    text: word.text,
+    x: left + word.x,
+    y,
+    direction: word.direction,
+    highlighted: overlaps(word, highlights),
+  }));
+}
+
+function splitUnits(
+  ctx: RenderContext2D,
+  target: AnimationTarget,
+  lines: PlacedLine[],
+  highlights: TextRange[],
+): TextUnit[] {
+  const measure = (text: string) => ctx.measureText(text).width;
+  switch (target) {
+    case "block": {
+      const left = Math.min(...lines.map(({ left }) => left));
+      const right = Math.max(...lines.map((placed) => placed.left + placed.line.width));
+      return [
+        {
+          parts: lines.flatMap((placed) => lineParts(placed, highlights)),
+          cx: (left + right) / 2,
+          cy: (lines[0].y + lines[lines.length - 1].y) / 2,
+          highlighted: false,
+          start: 0,
+        },
+      ];
+    }
+    case "line":
+      return lines.map((placed) => ({
+        parts: lineParts(placed, highlights),
+        cx: placed.left + placed.line.width / 2,
+        cy: placed.y,
+        highlighted: false,
+        start: placed.line.start,
+      }));
+    case "word":
+      return lines.flatMap(({ line, left, y }) =>
+        line.words
+          .map((word) => {
+            const highlighted = overlaps(word, highlights);
+            const x = left + word.x;
+            return {
+              parts: [{ text: word.text, x, y, direction: word.direction, highlighted }],
+              cx: x + word.width / 2,
+              cy: y,
+              highlighted,
+              start: word.start,
+            };
+          })
+          .sort((a, b) => a.start - b.start),
+      );
+    case "character":
+      return lines.flatMap(({ line, left, y }) => {
+        const bidi = line.words.some((word) => word.direction === "rtl");
+        const units: TextUnit[] = [];
+        for (const word of [...line.words].sort((a, b) => a.start - b.start)) {
+          const highlighted = overlaps(word, highlights);
+          // Joined scripts such as Arabic lose their letter forms when drawn a letter at a
+          // time, so right-to-left words move as one.
+          const pieces = word.direction === "rtl" ? [word.text] : splitGraphemes(word.text);
+          let offset = 0;
+          for (const piece of pieces) {
+            const x =
+              left +
+              (bidi
+                ? word.x + measure(word.text.slice(0, offset))
+                : measure(line.text.slice(0, word.offset + offset)));
+            units.push({
+              parts: [{ text: piece, x, y, direction: word.direction, highlighted }],
+              cx: x + measure(piece) / 2,
+              cy: y,
+              highlighted,
+              start: word.start + offset,
+            });
+            offset += piece.length;
+          }
+        }
+        return units;
+      });
+  }
+}
+
+function fillSpaced(ctx: RenderContext2D, text: string, x: number, y: number, spacing: number) {
+  if (Math.abs(spacing) < 0.01) {
+    ctx.fillText(text, x, y);
+    return;
+  }
+  const chars = Array.from(text);
+  // Spread around the middle so the unit stays centred on its origin.
+  const start = x - (spacing * (chars.length - 1)) / 2;
+  let prefix = "";
+  chars.forEach((char, index) => {
+    ctx.fillText(char, start + ctx.measureText(prefix).width + index * spacing, y);
+    prefix += char;
+  });
+}
+
+/**
+ * Draws laid-out text with a keyframed animation. The caller sets the font and fill style;
+ * the context is left as it was found.
+ */
+export function drawAnimatedText(ctx: RenderContext2D, options: AnimatedTextOptions) {
+  const { lines, align, fontSize, animation, sceneProgress, highlights = [] } = options;
+  if (lines.length === 0) return;
+  const gap =
+    sampleTrack(animation.tracks.lineGap ?? [], sceneProgress, PROPERTY_DEFAULTS.lineGap) *
+    fontSize;
+  const placed = lines.map((line, index) => {
+    const offset = align === "left" ? 0 : align === "right" ? line.width : line.width / 2;
+    return {
+      line,
+      left: options.x - offset,
+      y: options.y + (index - (lines.length - 1) / 2) * (options.lineHeight + gap),
+    };
+  });
+  const units = splitUnits(ctx, animation.target, placed, highlights);
+  const highlightTracks = animation.highlight && { ...animation.tracks, ...animation.highlight };
+  const fill = ctx.fillStyle;
+
+  ctx.save();
+  ctx.textAlign = "left";
+  units.forEach((unit, index) => {
+    const delay = (animation.stagger * index) / Math.max(1, units.length - 1);
+    const tracks = unit.highlighted && highlightTracks ? highlightTracks : animation.tracks;
+    const values = sampleTracks(tracks, sceneProgress - delay);
+    const alpha = Math.min(1, Math.max(0, values.opacity)) * options.opacity;
+    if (alpha <= 0) return;
+    ctx.save();
+    ctx.globalAlpha = alpha;
+    ctx.translate(unit.cx + values.x * fontSize, unit.cy + values.y * fontSize);
+    ctx.rotate((values.rotation * Math.PI) / 180);
+    ctx.scale(values.scale, values.scale);
+    if (values.blur > 0.001) {
+      ctx.filter = `blur(${values.blur * fontSize}px)`;
+    }
+    for (const part of unit.parts) {
+      ctx.fillStyle = part.highlighted ? (options.highlightColor ?? fill) : fill;
+      ctx.direction = part.direction;
+      fillSpaced(
+        ctx,
+        part.text,
+        part.x - unit.cx,
+        part.y - unit.cy,
+        // Spacing letters out would break the joins between them in right-to-left scripts.
+        part.direction === "rtl" ? 0 : values.letterSpacing * fontSize,
+      );
+    }
+    ctx.restore();
+  });
+  ctx.restore();
+}
@@ -0,0 +1,125 @@
+import type { Easing } from "./types";
+
+export const LINEAR: Easing = { type: "linear" };
+
+export function cubicBezier(x1: number, y1: number, x2: number, y2: number): Easing {
+  return { type: "cubic-bezier", x1, y1, x2, y2 };
+}
+
+export function spring(stiffness = 170, damping = 26, mass = 1): Easing {
+  return { type: "spring", stiffness, damping, mass };
+}
+
+export function steps(count: number, position: "start" | "end" = "end"): Easing {
+  return { type: "steps", count, position };
+}
+
+/** The CSS named easings plus a few common curves. */
+export const EASINGS = {
+  linear: LINEAR,
+  ease: cubicBezier(0.25, 0.1, 0.25, 1),
+  easeIn: cubicBezier(0.42, 0, 1, 1),
+  easeOut: cubicBezier(0, 0, 0.58, 1),
+  easeInOut: cubicBezier(0.42, 0, 0.58, 1),
+  easeInSine: cubicBezier(0.12, 0, 0.39, 0),
+  easeOutSine: cubicBezier(0.61, 1, 0.88, 1),
+  easeOutExpo: cubicBezier(0.16, 1, 0.3, 1),
+  springy: spring(),
+  bouncy: spring(200, 12, 1),
+} satisfies Record<string, Easing>;
+
+function solveCubicBezier(x1: number, y1: number, x2: number, y2: number, x: number) {
+  const cx = 3 * x1;
+  const bx = 3 * (x2 - x1) - cx;
+  const ax = 1 - cx - bx;
+  const cy = 3 * y1;
+  const by = 3 * (y2 - y1) - cy;
+  const ay = 1 - cy - by;
+  const sampleX = (t: number) => ((ax * t + bx) * t + cx) * t;
+  const sampleY = (t: number) => ((ay * t + by) * t + cy) * t;
+  const slopeX = (t: number) => (3 * ax * t + 2 * bx) * t + cx;
+
+  let t = x;
+  for (let i = 0; i < 8; i++) {
+    const error = sampleX(t) - x;
+    if (Math.abs(error) < 1e-6) return sampleY(t);
+    const slope = slopeX(t);
+    if (Math.abs(slope) < 1e-6) break;
+    t -= error / slope;
+  }
+  // Newton's method can stall on flat stretches of the curve; bisection always converges.
+  let low = 0;
+  let high = 1;
+  t = x;
+  for (let i = 0; i < 32 && high - low > 1e-7; i++) {
+    if (sampleX(t) < x) low = t;
+    else high = t;
+    t = (low + high) / 2;
+  }
+  return sampleY(t);
+}
+
+function springPosition(stiffness: number, damping: number, mass: number, seconds: number) {
+  const omega = Math.sqrt(stiffness / mass);
+  const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+  if (zeta < 1) {
+    const damped = omega * Math.sqrt(1 - zeta * zeta);
+    const envelope = Math.exp(-zeta * omega * seconds);
+    return (
+      1 -
+      envelope *
+        (Math.cos(damped * seconds) + ((zeta * omega) / damped) * Math.sin(damped * seconds))
+    );
+  }
+  if (zeta === 1) {
+    return 1 - Math.exp(-omega * seconds) * (1 + omega * seconds);
+  }
+  const root = omega * Math.sqrt(zeta * zeta - 1);
+  const r1 = -zeta * omega + root;
+  const r2 = -zeta * omega - root;
+  return 1 + (r2 * Math.exp(r1 * seconds) - r1 * Math.exp(r2 * seconds)) / (r1 - r2);
+}
+
+const settleTimes = new Map<string, number>();
+
+/** Seconds until the spring stays within 0.1% of its target. */
+function springSettleTime(stiffness: number, damping: number, mass: number) {
+  const key = `${stiffness}/${damping}/${mass}`;
+  const cached = settleTimes.get(key);
+  if (cached !== undefined) return cached;
+  let settled = 0;
+  for (let step = 1; step <= 1200; step++) {
+    const seconds = step / 120;
+    if (Math.abs(1 - springPosition(stiffness, damping, mass, seconds)) > 0.001) {
+      settled = seconds;
+    }
+  }
+  const result = Math.max(settled, 1 / 120);
+  settleTimes.set(key, result);
+  return result;
+}
+
+/**
+ * Maps linear progress through a keyframe segment (0–1) to eased progress. Springs are
+ * stretched so they settle exactly at the end of the segment.
+ */
+export function evaluateEasing(easing: Easing, t: number) {
+  if (t <= 0) return 0;
+  if (t >= 1) return 1;
+  switch (easing.type) {
+    case "linear":
+      return t;
+    case "cubic-bezier":
+      return solveCubicBezier(easing.x1, easing.y1, easing.x2, easing.y2, t);
+    case "spring": {
+      const { stiffness, damping, mass } = easing;
+      const duration = springSettleTime(stiffness, damping, mass);
+      return springPosition(stiffness, damping, mass, t * duration);
+    }
+    case "steps": {
+      const count = Math.max(1, Math.round(easing.count));
+      const step = easing.position === "start" ? Math.ceil(t * count) : Math.floor(t * count);
+      return step / count;
+    }
+  }
+}
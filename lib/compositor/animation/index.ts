@@ -0,0 +1,25 @@
+export { drawAnimatedText, type AnimatedTextOptions } from "./draw-text";
+export {
+  EASINGS,
+  LINEAR,
+  cubicBezier,
+  evaluateEasing,
+  spring,
+  steps,
+} from "./easing";
+export { PROPERTY_DEFAULTS, sampleTrack, sampleTracks, type AnimatedValues } from "./keyframes";
+export {
+  DEFAULT_CAPTION_ANIMATIONS,
+  TEXT_ANIMATIONS,
+  TITLE_TRACKS,
+  findTextAnimation,
+} from "./presets";
+export type {
+  AnimatedProperty,
+  AnimationTarget,
+  CaptionAnimations,
+  Easing,
+  Keyframe,
+  KeyframeTracks,
+  TextAnimation,
+} from "./types";
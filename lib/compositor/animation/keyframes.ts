@@ -0,0 +1,41 @@
+import { evaluateEasing } from "./easing";
+import type { AnimatedProperty, Keyframe, KeyframeTracks } from "./types";
+
+/** Values used for properties an animation has no track for. */
+export const PROPERTY_DEFAULTS: Record<AnimatedProperty, number> = {
+  opacity: 1,
+  x: 0,
+  y: 0,
+  scale: 1,
+  rotation: 0,
+  blur: 0,
+  letterSpacing: 0,
+  lineGap: 0,
+};
+
+/** Holds the first value before the first keyframe and the last value after the last one. */
+export function sampleTrack(keyframes: Keyframe[], at: number, fallback: number) {
+  if (keyframes.length === 0) return fallback;
+  if (at <= keyframes[0].at) return keyframes[0].value;
+  for (let i = 1; i < keyframes.length; i++) {
+    const to = keyframes[i];
+    if (at < to.at) {
+      const from = keyframes[i - 1];
+      const t = (at - from.at) / (to.at - from.at);
+      const eased = to.easing ? evaluateEasing(to.easing, t) : t;
+      return from.value + (to.value - from.value) * eased;
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+}
+
+export type AnimatedValues = Record<AnimatedProperty, number>;
+
+export function sampleTracks(tracks: KeyframeTracks, at: number): AnimatedValues {
+  const values = { ...PROPERTY_DEFAULTS };
+  for (const property of Object.keys(values) as AnimatedProperty[]) {
+    const track = tracks[property];
+    if (track) values[property] = sampleTrack(track, at, values[property]);
+  }
+  return values;
+}
@@ -0,0 +1,162 @@
+import { EASINGS, steps } from "./easing";
+import type { CaptionAnimations, KeyframeTracks, TextAnimation } from "./types";
+
+const { bouncy, easeIn, easeInSine, easeOut, easeOutExpo, easeOutSine, springy } = EASINGS;
+
+export const TEXT_ANIMATIONS: TextAnimation[] = [
+  { id: "static", label: "Static", target: "block", stagger: 0, tracks: {} },
+  {
+    // The original centred caption: a highlight sweeps down the lines while they drift apart.
+    id: "drift",
+    label: "Drift",
+    target: "line",
+    stagger: 1,
+    tracks: {
+      opacity: [
+        { at: -0.85 / 2.4, value: 0.135 },
+        { at: 0, value: 0.9 },
+        { at: 0.85 / 2.4, value: 0.135 },
+      ],
+      lineGap: [
+        { at: 0, value: 0 },
+        { at: 0.5, value: 0.43, easing: easeOutSine },
+        { at: 1, value: 0, easing: easeInSine },
+      ],
+    },
+  },
+  {
+    id: "typewriter",
+    label: "Typewriter",
+    target: "character",
+    stagger: 0.6,
+    tracks: {
+      opacity: [
+        { at: 0, value: 0 },
+        { at: 0.02, value: 1, easing: steps(1, "start") },
+      ],
+    },
+  },
+  {
+    id: "word-reveal",
+    label: "Word by word",
+    target: "word",
+    stagger: 0.45,
+    tracks: {
+      opacity: [
+        { at: 0, value: 0 },
+        { at: 0.12, value: 1, easing: easeOut },
+      ],
+      y: [
+        { at: 0, value: 0.35 },
+        { at: 0.12, value: 0, easing: easeOutExpo },
+      ],
+      blur: [
+        { at: 0, value: 0.12 },
+        { at: 0.12, value: 0, easing: easeOut },
+      ],
+    },
+  },
+  {
+    id: "slide-up",
+    label: "Kinetic slide-up",
+    target: "line",
+    stagger: 0.12,
+    tracks: {
+      opacity: [
+        { at: 0, value: 0 },
+        { at: 0.14, value: 1, easing: easeOut },
+        { at: 0.76, value: 1 },
+        { at: 0.88, value: 0, easing: easeIn },
+      ],
+      y: [
+        { at: 0, value: 1.4 },
+        { at: 0.18, value: 0, easing: easeOutExpo },
+        { at: 0.76, value: 0 },
+        { at: 0.88, value: -0.8, easing: easeIn },
+      ],
+    },
+  },
+  {
+    id: "scale-pop",
+    label: "Scale pop",
+    target: "block",
+    stagger: 0,
+    tracks: {
+      opacity: [
+        { at: 0, value: 0 },
+        { at: 0.08, value: 1, easing: easeOut },
+      ],
+      scale: [
+        { at: 0, value: 0.6 },
+        { at: 0.22, value: 1, easing: bouncy },
+      ],
+      rotation: [
+        { at: 0, value: -6 },
+        { at: 0.22, value: 0, easing: springy },
+      ],
+    },
+  },
+  {
+    id: "tracking-in",
+    label: "Tracking in",
+    target: "line",
+    stagger: 0.1,
+    tracks: {
+      opacity: [
+        { at: 0, value: 0 },
+        { at: 0.2, value: 1, easing: easeOut },
+      ],
+      letterSpacing: [
+        { at: 0, value: 0.6 },
+        { at: 0.3, value: 0, easing: easeOutExpo },
+      ],
+      blur: [
+        { at: 0, value: 0.1 },
+        { at: 0.2, value: 0, easing: easeOut },
+      ],
+    },
+  },
+  {
+    id: "highlight-pulse",
+    label: "Highlight pulse",
+    target: "word",
+    stagger: 0.2,
+    tracks: {
+      opacity: [
+        { at: 0, value: 0 },
+        { at: 0.1, value: 1, easing: easeOut },
+      ],
+    },
+    highlight: {
+      scale: [
+        { at: 0.3, value: 1 },
+        { at: 0.42, value: 1.12, easing: easeOutSine },
+        { at: 0.6, value: 1, easing: easeInSine },
+      ],
+      y: [
+        { at: 0.3, value: 0 },
+        { at: 0.42, value: -0.1, easing: easeOutSine },
+        { at: 0.6, value: 0, easing: easeInSine },
+      ],
+    },
+  },
+];
+
+/** Used by scenes without an animation of their own. */
+export const DEFAULT_CAPTION_ANIMATIONS: CaptionAnimations = {
+  centered: "drift",
+  "lower-third": "static",
+};
+
+/** The title fades in towards the middle of each scene and out again, never below 20%. */
+export const TITLE_TRACKS: KeyframeTracks = {
+  opacity: [
+    { at: 0.064, value: 0.16 },
+    { at: 0.5, value: 0.8, easing: easeOutSine },
+    { at: 0.936, value: 0.16, easing: easeInSine },
+  ],
+};
+
+export function findTextAnimation(id: string) {
+  return TEXT_ANIMATIONS.find((animation) => animation.id === id) ?? null;
+}
@@ -0,0 +1,57 @@
+import type { CaptionStyle } from "../types";
+
+export type Easing =
+  | { type: "linear" }
+  | { type: "cubic-bezier"; x1: number; y1: number; x2: number; y2: number }
+  /** A damped spring released from rest; it may overshoot before settling on the target. */
+  | { type: "spring"; stiffness: number; damping: number; mass: number }
+  | { type: "steps"; count: number; position: "start" | "end" };
+
+/**
+ * `x`, `y`, `blur`, `letterSpacing` and `lineGap` are in ems of the caption font, so an
+ * animation looks the same at every resolution. `rotation` is in degrees.
+ */
+export type AnimatedProperty =
+  | "opacity"
+  | "x"
+  | "y"
+  | "scale"
+  | "rotation"
+  | "blur"
+  | "letterSpacing"
+  | "lineGap";
+
+export interface Keyframe {
+  /**
+   * Scene progress, 0 at the first frame of the scene and 1 at its last, measured after
+   * the unit's stagger delay. It may fall outside 0–1.
+   */
+  at: number;
+  value: number;
+  /** Easing of the segment that ends at this keyframe. Defaults to linear. */
+  easing?: Easing;
+}
+
+export type KeyframeTracks = Partial<Record<AnimatedProperty, Keyframe[]>>;
+
+/** The pieces of text a track animates independently. */
+export type AnimationTarget = "block" | "line" | "word" | "character";
+
+export interface TextAnimation {
+  id: string;
+  label: string;
+  target: AnimationTarget;
+  /**
+   * How far the last unit starts behind the first, as a fraction of the scene; units in
+   * between are spread evenly. `lineGap` is block-wide and is never staggered.
+   */
+  stagger: number;
+  tracks: KeyframeTracks;
+  /**
+   * Merged over `tracks` for highlighted words. Only word and character units move on
+   * their own; with block and line targets, highlights only change colour.
+   */
+  highlight?: KeyframeTracks;
+}
+
+export type CaptionAnimations = Record<CaptionStyle, string>;
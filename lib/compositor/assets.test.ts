@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { createTimeline } from "@/test/fixtures";
+import { createMockContext } from "@/test/mock-context";
+import { createSceneAsset, drawSceneAssets } from "./assets";
+import type { DrawableImage } from "./types";
+
+function sceneWithImage() {
+  const [slice] = createTimeline();
+  return { ...slice, assets: [createSceneAsset("photo")] };
+}
+
+function drawn(image: DrawableImage | null) {
+  const { ctx, calls } = createMockContext();
+  const images = new Map(image ? [["photo", image]] : []);
+  drawSceneAssets(ctx, "background", sceneWithImage(), images, 0.5, 1);
+  return calls.filter((call) => call.method === "drawImage");
+}
+
+describe("drawSceneAssets", () => {
+  it("draws decoded images", () => {
+    expect(drawn({ width: 640, height: 480 } as DrawableImage)).toHaveLength(1);
+  });
+
+  it("skips images that are not decoded", () => {
+    expect(drawn(null)).toHaveLength(0);
+  });
+
+  // A closed ImageBitmap reports a size of zero, and drawing it throws.
+  it("skips closed bitmaps", () => {
+    expect(drawn({ width: 0, height: 0 } as DrawableImage)).toHaveLength(0);
+  });
+});
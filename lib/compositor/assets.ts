@@ -0,0 +1,135 @@
+import type {
+  AssetFit,
+  AssetImages,
+  AssetMode,
+  AssetMotion,
+  DrawableImage,
+  RenderContext2D,
+  SceneAsset,
+  Theme,
+  TimelineSlice,
+} from "./types";
+
+export const ASSET_FIT_LABELS: Record<AssetFit, string> = {
+  cover: "Cover",
+  contain: "Contain",
+  fill: "Stretch",
+};
+
+export const ASSET_MOTION_LABELS: Record<AssetMotion, string> = {
+  none: "Still",
+  "zoom-in": "Zoom in",
+  "zoom-out": "Zoom out",
+  "pan-left": "Pan left",
+  "pan-right": "Pan right",
+};
+
+/** How far Ken Burns motion zooms in, so pans never reveal an edge. */
+const KEN_BURNS_ZOOM = 1.15;
+
+export function createSceneAsset(assetId: string, mode: AssetMode = "background"): SceneAsset {
+  return {
+    assetId,
+    mode,
+    fit: mode === "background" ? "cover" : "contain",
+    motion: mode === "background" ? "zoom-in" : "none",
+    x: 0.5,
+    y: 0.5,
+    size: mode === "background" ? 1 : 0.4,
+    opacity: 1,
+  };
+}
+
+/** Every asset id a timeline and theme draw, for decoding before the first frame. */
+export function collectAssetIds(timeline: TimelineSlice[], theme: Theme) {
+  const ids = new Set<string>();
+  const layers = [...theme.layers];
+  for (const slice of timeline) {
+    for (const asset of slice.assets) ids.add(asset.assetId);
+    if (slice.theme) layers.push(...slice.theme.layers);
+  }
+  for (const layer of layers) {
+    if (typeof layer.params.image === "string" && layer.params.image) {
+      ids.add(layer.params.image);
+    }
+  }
+  return [...ids];
+}
+
+/** Size of `image` inside a `width`×`height` box for the fit mode. */
+export function fitImage(image: DrawableImage, fit: AssetFit, width: number, height: number) {
+  if (fit === "fill") return { width, height };
+  const ratio =
+    fit === "cover"
+      ? Math.max(width / image.width, height / image.height)
+      : Math.min(width / image.width, height / image.height);
+  return { width: image.width * ratio, height: image.height * ratio };
+}
+
+function kenBurns(motion: AssetMotion, progress: number) {
+  const t = Math.min(1, Math.max(0, progress));
+  const travel = (KEN_BURNS_ZOOM - 1) / 2;
+  switch (motion) {
+    case "none":
+      return { scale: 1, offset: 0 };
+    case "zoom-in":
+      return { scale: 1 + (KEN_BURNS_ZOOM - 1) * t, offset: 0 };
+    case "zoom-out":
+      return { scale: KEN_BURNS_ZOOM - (KEN_BURNS_ZOOM - 1) * t, offset: 0 };
+    case "pan-left":
+      return { scale: KEN_BURNS_ZOOM, offset: travel * (1 - 2 * t) };
+    case "pan-right":
+      return { scale: KEN_BURNS_ZOOM, offset: -travel * (1 - 2 * t) };
+  }
+}
+
+/**
+ * Draws the scene's images for one mode. Assets whose image is not decoded are skipped, and
+ * so are closed bitmaps, which report a size of zero.
+ */
+export function drawSceneAssets(
+  ctx: RenderContext2D,
+  mode: AssetMode,
+  slice: TimelineSlice,
+  images: AssetImages,
+  sliceProgress: number,
+  opacity: number,
+) {
+  const { width, height } = ctx.canvas;
+  for (const asset of slice.assets) {
+    const image = images.get(asset.assetId);
+    if (asset.mode !== mode || !image || image.width === 0) continue;
+    ctx.save();
+    ctx.globalAlpha = asset.opacity * opacity;
+    if (mode === "background") {
+      const size = fitImage(image, asset.fit, width, height);
+      const { scale, offset } = kenBurns(asset.motion, sliceProgress);
+      ctx.beginPath();
+      ctx.rect(0, 0, width, height);
+      ctx.clip();
+      ctx.translate(width / 2 + offset * size.width, height / 2);
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, -size.width / 2, -size.height / 2, size.width, size.height);
+    } else {
+      const boxWidth = width * asset.size;
+      const boxHeight = height * asset.size;
+      const size = fitImage(image, asset.fit, boxWidth, boxHeight);
+      ctx.beginPath();
+      ctx.rect(
+        asset.x * width - boxWidth / 2,
+        asset.y * height - boxHeight / 2,
+        boxWidth,
+        boxHeight,
+      );
+      ctx.clip();
+      ctx.drawImage(
+        image,
+        asset.x * width - size.width / 2,
+        asset.y * height - size.height / 2,
+        size.width,
+        size.height,
+      );
+    }
+    ctx.restore();
+  }
+}
@@ -0,0 +1,49 @@
+import type { Palette, RenderContext2D } from "./types";
+
+export function drawGradientBackground(
+  ctx: RenderContext2D,
+  width: number,
+  height: number,
+  colors: Palette,
+  phase: number,
+  angle = 135,
+  overlayOpacity = 0.08,
+) {
+  // Same geometry as CSS linear-gradient(), so canvas frames match the UI swatches.
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.sin(radians);
+  const dy = -Math.cos(radians);
+  const halfLength = (Math.abs(width * dx) + Math.abs(height * dy)) / 2;
+  const gradient = ctx.createLinearGradient(
+    width / 2 - dx * halfLength,
+    height / 2 - dy * halfLength,
+    width / 2 + dx * halfLength,
+    height / 2 + dy * halfLength,
+  );
+  colors.forEach((color, index) => {
+    gradient.addColorStop(colors.length === 1 ? 0 : index / (colors.length - 1), color);
+  });
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+
+  ctx.fillStyle = `rgba(255, 255, 255, ${overlayOpacity})`;
+  const waveCount = 4;
+  for (let i = 0; i < waveCount; i++) {
+    const offset = (phase + i * 0.5) % (2 * Math.PI);
+    ctx.beginPath();
+    const amplitude = height * 0.08 * (1 - i * 0.15);
+    ctx.moveTo(0, height * 0.2 * (i + 1));
+    const segments = 8;
+    for (let s = 0; s <= segments; s++) {
+      const x = (s / segments) * width;
+      const y =
+        height * 0.15 * (i + 1) +
+        Math.sin(offset + (s / segments) * Math.PI * 2) * amplitude;
+      ctx.lineTo(x, y);
+    }
+    ctx.lineTo(width, height);
+    ctx.lineTo(0, height);
+    ctx.closePath();
+    ctx.fill();
+  }
+}
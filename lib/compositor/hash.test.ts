@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { createMockContext } from "@/test/mock-context";
+import { combineFrameHashes, hashFrame } from "./hash";
+
+const WIDTH = 16;
+const HEIGHT = 9;
+
+// An opaque RGBA frame whose colours shift with `frame`, standing in for a drawn canvas.
+function paintFrame(frame: number) {
+  const mock = createMockContext(WIDTH, HEIGHT);
+  for (let pixel = 0; pixel < WIDTH * HEIGHT; pixel++) {
+    mock.pixels.set([(pixel * 7 + frame) % 256, (pixel * 3) % 256, frame * 16, 255], pixel * 4);
+  }
+  return mock;
+}
+
+type FrameEdit = (frame: number, pixels: Uint8ClampedArray) => void;
+
+function renderClip(frames: number, change?: FrameEdit) {
+  return Array.from({ length: frames }, (_, frame) => {
+    const { ctx, pixels } = paintFrame(frame);
+    change?.(frame, pixels);
+    return hashFrame(ctx);
+  });
+}
+
+describe("hashFrame", () => {
+  it("gives identical frames the same hash", () => {
+    expect(hashFrame(paintFrame(3).ctx)).toBe(hashFrame(paintFrame(3).ctx));
+  });
+
+  it("changes when a single pixel changes", () => {
+    const { ctx, pixels } = paintFrame(3);
+    const before = hashFrame(ctx);
+    pixels[(4 * WIDTH + 5) * 4] ^= 1;
+    expect(hashFrame(ctx)).not.toBe(before);
+  });
+
+  it("pins the hashes of fixed frames", () => {
+    expect(hashFrame(createMockContext(2, 2).ctx)).toBe("69691905");
+    expect(hashFrame(paintFrame(0).ctx)).toBe("ff527675");
+  });
+});
+
+describe("combineFrameHashes", () => {
+  it("gives the same fingerprint for identical renders", () => {
+    expect(combineFrameHashes(renderClip(12))).toBe(combineFrameHashes(renderClip(12)));
+  });
+
+  it("changes when one pixel of one frame differs", () => {
+    const changed = renderClip(12, (frame, pixels) => {
+      if (frame === 7) pixels[0] ^= 1;
+    });
+    expect(combineFrameHashes(changed)).not.toBe(combineFrameHashes(renderClip(12)));
+  });
+
+  it("depends on the order of the frames", () => {
+    const hashes = renderClip(12);
+    expect(combineFrameHashes([...hashes].reverse())).not.toBe(combineFrameHashes(hashes));
+  });
+
+  it("pins the fingerprint of a fixed clip", () => {
+    expect(combineFrameHashes(renderClip(12))).toBe("912154e4");
+  });
+});
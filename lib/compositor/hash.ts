@@ -0,0 +1,23 @@
+import type { RenderContext2D } from "./types";
+
+// FNV-1a over the raw RGBA pixels; identical frames always produce identical digests.
+export function hashFrame(ctx: RenderContext2D) {
+  const { data } = ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash ^= data[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+export function combineFrameHashes(hashes: string[]) {
+  let hash = 0x811c9dc5;
+  for (const frameHash of hashes) {
+    for (let i = 0; i < frameHash.length; i++) {
+      hash ^= frameHash.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
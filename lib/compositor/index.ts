@@ -0,0 +1,154 @@
+export {
+  DEFAULT_CAPTION_ANIMATIONS,
+  EASINGS,
+  TEXT_ANIMATIONS,
+  cubicBezier,
+  drawAnimatedText,
+  evaluateEasing,
+  findTextAnimation,
+  sampleTrack,
+  sampleTracks,
+  spring,
+  steps,
+  type AnimatedProperty,
+  type AnimationTarget,
+  type Easing,
+  type Keyframe,
+  type KeyframeTracks,
+  type TextAnimation,
+} from "./animation";
+export {
+  ASSET_FIT_LABELS,
+  ASSET_MOTION_LABELS,
+  collectAssetIds,
+  createSceneAsset,
+  drawSceneAssets,
+  fitImage,
+} from "./assets";
+export { drawGradientBackground } from "./background";
+export { combineFrameHashes, hashFrame } from "./hash";
+export {
+  DEFAULT_LAYERS,
+  LAYER_ANIMATED_PROPERTIES,
+  createLayerInstance,
+  defaultLayerParams,
+  defineLayer,
+  getLayerDefinition,
+  listLayerDefinitions,
+  registerLayer,
+  resolveSceneLayers,
+  type LayerDefinition,
+  type LayerFrameContext,
+  type LayerParamSpec,
+  type LayerParamSpecs,
+  type LayerParams,
+  type LayerPlacement,
+} from "./layers";
+export {
+  ASPECT_RATIO_LABELS,
+  DEFAULT_OUTPUT_SIZE,
+  RESOLUTION_LABELS,
+  computeLayout,
+  describeOutputSize,
+  getCaptionBox,
+  getOutputDimensions,
+  type SceneLayout,
+} from "./layout";
+export { collectFontUsage, renderFrame } from "./render-frame";
+export {
+  keyScenes,
+  mergeSentenceWithNext,
+  moveSentenceInPrompt,
+  sceneKey,
+  splitSentenceInPrompt,
+  updateSceneOverride,
+} from "./scenes";
+export {
+  formatScriptIssue,
+  isScript,
+  parseScript,
+  type ParsedScript,
+  type ScriptIssue,
+  type ScriptMode,
+  type ScriptScene,
+} from "./script";
+export { locateSentences } from "./sentences";
+export {
+  MIN_TEXT_SCALE,
+  createMeasureContext,
+  fitText,
+  layoutText,
+  segmentWords,
+  splitGraphemes,
+  splitOverflowingText,
+  textDirection,
+  wrapLines,
+  type LayoutLine,
+  type LayoutWord,
+  type TextBox,
+  type TextDirection,
+  type TextLayout,
+} from "./text";
+export {
+  createPaletteTimeline,
+  frameIndexAtTime,
+  getSceneTimings,
+  getSegmentFrames,
+  getSliceFrames,
+  getTotalFrames,
+  resolveFrame,
+  splitOverflowingScenes,
+  splitSentences,
+} from "./timeline";
+export {
+  BUILT_IN_THEMES,
+  DEFAULT_THEME,
+  DEFAULT_THEME_FONTS,
+  FONT_ROLE_LABELS,
+  findTheme,
+  isBuiltInTheme,
+  paletteToCss,
+} from "./themes";
+export {
+  DEFAULT_TRANSITION,
+  TRANSITION_LABELS,
+  composeTransition,
+  resolveTransition,
+} from "./transitions";
+export type {
+  ActiveTransition,
+  AspectRatio,
+  AssetFit,
+  AssetImages,
+  AssetMode,
+  AssetMotion,
+  CaptionStyle,
+  DrawableImage,
+  ExportFormat,
+  FontRole,
+  FontUsage,
+  FrameState,
+  GenerationSettings,
+  LayerInstance,
+  LayerParamValue,
+  OutputResolution,
+  OutputSize,
+  Palette,
+  RenderContext2D,
+  SceneAsset,
+  SceneContinuation,
+  SceneOverride,
+  SceneOverrides,
+  SceneTextAlign,
+  SceneTiming,
+  SentenceRange,
+  TextRange,
+  Theme,
+  ThemeColors,
+  ThemeFonts,
+  TimelineSlice,
+  TransitionDirection,
+  TransitionSettings,
+  TransitionType,
+  VisualStyle,
+} from "./types";
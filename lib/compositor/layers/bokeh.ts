@@ -0,0 +1,42 @@
+import { createRandom, wrap } from "./random";
+import { defineLayer } from "./types";
+
+export const bokehLayer = defineLayer({
+  type: "bokeh",
+  label: "Bokeh",
+  placement: "background",
+  params: {
+    count: { kind: "number", label: "Lights", min: 0, max: 60, step: 1, default: 18 },
+    size: { kind: "number", label: "Size", min: 0.02, max: 0.25, step: 0.01, default: 0.08 },
+    speed: { kind: "number", label: "Drift", min: 0, max: 0.2, step: 0.01, default: 0.03 },
+    usePalette: { kind: "boolean", label: "Use scene gradient", default: true },
+    color: { kind: "color", label: "Colour", default: "#ffffff" },
+    opacity: { kind: "number", label: "Opacity", min: 0, max: 1, step: 0.05, default: 0.35 },
+  },
+  draw(ctx, { width, height, time, seed, opacity, slice, params }) {
+    const random = createRandom(seed);
+    const unit = Math.min(width, height);
+    for (let i = 0; i < params.count; i++) {
+      const x0 = random() * width;
+      const y0 = random() * height;
+      const radius = params.size * unit * (0.4 + random());
+      const phase = random() * Math.PI * 2;
+      const pick = random();
+      const margin = radius * 2;
+      const x = wrap(x0 + Math.sin(time * 0.3 + phase) * unit * 0.02 + margin, width + margin * 2);
+      const y = wrap(y0 - params.speed * unit * time + margin, height + margin * 2);
+      const color = params.usePalette
+        ? slice.palette[Math.floor(pick * slice.palette.length)]
+        : params.color;
+      const glow = ctx.createRadialGradient(x - margin, y - margin, 0, x - margin, y - margin, radius);
+      glow.addColorStop(0, color);
+      glow.addColorStop(0.7, color);
+      glow.addColorStop(1, "rgba(0,0,0,0)");
+      ctx.globalAlpha = params.opacity * (0.6 + 0.4 * Math.sin(time + phase)) * opacity;
+      ctx.fillStyle = glow;
+      ctx.beginPath();
+      ctx.arc(x - margin, y - margin, radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  },
+});
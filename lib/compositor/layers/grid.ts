@@ -0,0 +1,49 @@
+import { defineLayer } from "./types";
+
+export const gridLayer = defineLayer({
+  type: "grid",
+  label: "Grid",
+  placement: "background",
+  params: {
+    spacing: { kind: "number", label: "Spacing", min: 20, max: 200, step: 5, default: 60 },
+    lineWidth: { kind: "number", label: "Line width", min: 0.5, max: 4, step: 0.5, default: 1 },
+    speed: { kind: "number", label: "Scroll", min: 0, max: 2, step: 0.05, default: 0.25 },
+    perspective: { kind: "boolean", label: "Perspective floor", default: false },
+    color: { kind: "color", label: "Colour", default: "#ffffff" },
+    opacity: { kind: "number", label: "Opacity", min: 0, max: 1, step: 0.05, default: 0.15 },
+  },
+  draw(ctx, { width, height, time, opacity, params }) {
+    const scale = Math.min(width, height) / 720;
+    const spacing = params.spacing * scale;
+    const shift = (time * params.speed) % 1;
+    ctx.globalAlpha = params.opacity * opacity;
+    ctx.strokeStyle = params.color;
+    ctx.lineWidth = params.lineWidth * scale;
+    ctx.beginPath();
+    if (params.perspective) {
+      const horizon = height * 0.55;
+      const depth = height - horizon;
+      const columns = Math.ceil(width / spacing);
+      for (let i = -columns; i <= columns; i++) {
+        ctx.moveTo(width / 2, horizon);
+        ctx.lineTo(width / 2 + i * spacing * 3, height);
+      }
+      const rows = Math.ceil(depth / spacing) + 1;
+      for (let row = 0; row < rows; row++) {
+        const y = horizon + depth * ((row + shift) / rows) ** 2;
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+      }
+    } else {
+      for (let x = (shift - 1) * spacing; x <= width; x += spacing) {
+        ctx.moveTo(x, 0);
+        ctx.lineTo(x, height);
+      }
+      for (let y = (shift - 1) * spacing; y <= height; y += spacing) {
+        ctx.moveTo(0, y);
+        ctx.lineTo(width, y);
+      }
+    }
+    ctx.stroke();
+  },
+});
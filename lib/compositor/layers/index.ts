@@ -0,0 +1,20 @@
+export { createRandom, hashSeed } from "./random";
+export {
+  DEFAULT_LAYERS,
+  createLayerInstance,
+  defaultLayerParams,
+  getLayerDefinition,
+  listLayerDefinitions,
+  registerLayer,
+  resolveSceneLayers,
+} from "./registry";
+export {
+  LAYER_ANIMATED_PROPERTIES,
+  defineLayer,
+  type LayerDefinition,
+  type LayerFrameContext,
+  type LayerParamSpec,
+  type LayerParamSpecs,
+  type LayerParams,
+  type LayerPlacement,
+} from "./types";
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { createTimeline } from "@/test/fixtures";
+import { createMockContext } from "@/test/mock-context";
+import { DEFAULT_THEME } from "../themes";
+import type { DrawableImage } from "../types";
+import { logoLayer } from "./logo";
+import { defaultLayerParams } from "./registry";
+import type { LayerFrameContext } from "./types";
+
+type LogoFrame = Parameters<typeof logoLayer.draw>[1];
+
+function drawLogo(image: DrawableImage | null) {
+  const { ctx, calls } = createMockContext();
+  const [slice] = createTimeline();
+  const frame: Partial<LayerFrameContext> = {
+    width: 1280,
+    height: 720,
+    theme: DEFAULT_THEME,
+    slice,
+    opacity: 1,
+    images: new Map(image ? [["logo", image]] : []),
+    params: { ...defaultLayerParams(logoLayer), image: "logo" },
+  };
+  logoLayer.draw(ctx, frame as LogoFrame);
+  return calls.map((call) => call.method);
+}
+
+describe("logoLayer", () => {
+  it("draws the image when one is decoded", () => {
+    expect(drawLogo({ width: 200, height: 100 } as DrawableImage)).toEqual(["drawImage"]);
+  });
+
+  it("falls back to the text without an image", () => {
+    expect(drawLogo(null)).toEqual(["fillText"]);
+  });
+
+  // A closed ImageBitmap reports a size of zero, and drawing it throws.
+  it("skips closed bitmaps", () => {
+    expect(drawLogo({ width: 0, height: 0 } as DrawableImage)).toEqual([]);
+  });
+});
@@ -0,0 +1,51 @@
+import { defineLayer } from "./types";
+
+export const logoLayer = defineLayer({
+  type: "logo",
+  label: "Logo",
+  placement: "foreground",
+  params: {
+    text: { kind: "text", label: "Text", maxLength: 40, default: "NEBULA" },
+    image: { kind: "asset", label: "Image", default: "" },
+    position: {
+      kind: "select",
+      label: "Position",
+      options: ["top-left", "top-right", "bottom-left", "bottom-right"],
+      default: "top-right",
+    },
+    size: { kind: "number", label: "Size", min: 12, max: 96, step: 2, default: 24 },
+    color: { kind: "color", label: "Colour", default: "#ffffff" },
+    opacity: { kind: "number", label: "Opacity", min: 0, max: 1, step: 0.05, default: 0.8 },
+  },
+  draw(ctx, { width, height, theme, opacity, images, params }) {
+    const unit = Math.min(width, height);
+    const margin = unit * 0.05;
+    const [vertical, horizontal] = params.position.split("-");
+    const image = images.get(params.image);
+    ctx.globalAlpha = params.opacity * opacity;
+    if (image) {
+      // A closed bitmap reports a size of zero, and drawing it throws.
+      if (image.width === 0 || image.height === 0) return;
+      // The image is as tall as two lines of the text it replaces.
+      const imageHeight = ((params.size * unit) / 720) * 2;
+      const imageWidth = (image.width / image.height) * imageHeight;
+      ctx.drawImage(
+        image,
+        horizontal === "left" ? margin : width - margin - imageWidth,
+        vertical === "top" ? margin : height - margin - imageHeight,
+        imageWidth,
+        imageHeight,
+      );
+      return;
+    }
+    ctx.font = `${Math.round((params.size * unit) / 720)}px ${theme.fonts.title}`;
+    ctx.textAlign = horizontal === "left" ? "left" : "right";
+    ctx.textBaseline = vertical === "top" ? "top" : "bottom";
+    ctx.fillStyle = params.color;
+    ctx.fillText(
+      params.text,
+      horizontal === "left" ? margin : width - margin,
+      vertical === "top" ? margin : height - margin,
+    );
+  },
+});
@@ -0,0 +1,60 @@
+import { defineLayer } from "./types";
+
+function lattice(seed: number, x: number, y: number, z: number) {
+  let hash = seed ^ Math.imul(x, 374761393) ^ Math.imul(y, 668265263) ^ Math.imul(z, 2147483647);
+  hash = Math.imul(hash ^ (hash >>> 13), 1274126177);
+  return ((hash ^ (hash >>> 16)) >>> 0) / 4294967296;
+}
+
+function smooth(t: number) {
+  return t * t * (3 - 2 * t);
+}
+
+/** Trilinear value noise in 0–1, continuous in all three axes. */
+function valueNoise(seed: number, x: number, y: number, z: number) {
+  const ix = Math.floor(x);
+  const iy = Math.floor(y);
+  const iz = Math.floor(z);
+  const fx = smooth(x - ix);
+  const fy = smooth(y - iy);
+  const fz = smooth(z - iz);
+  const mix = (a: number, b: number, t: number) => a + (b - a) * t;
+  const plane = (zz: number) =>
+    mix(
+      mix(lattice(seed, ix, iy, zz), lattice(seed, ix + 1, iy, zz), fx),
+      mix(lattice(seed, ix, iy + 1, zz), lattice(seed, ix + 1, iy + 1, zz), fx),
+      fy,
+    );
+  return mix(plane(iz), plane(iz + 1), fz);
+}
+
+export const noiseLayer = defineLayer({
+  type: "noise",
+  label: "Noise field",
+  placement: "background",
+  params: {
+    cellSize: { kind: "number", label: "Cell size", min: 8, max: 80, step: 2, default: 24 },
+    scale: { kind: "number", label: "Pattern scale", min: 2, max: 20, step: 1, default: 6 },
+    speed: { kind: "number", label: "Speed", min: 0, max: 2, step: 0.05, default: 0.3 },
+    color: { kind: "color", label: "Colour", default: "#ffffff" },
+    intensity: { kind: "number", label: "Intensity", min: 0, max: 0.5, step: 0.01, default: 0.12 },
+  },
+  draw(ctx, { width, height, time, seed, opacity, params }) {
+    const cell = (params.cellSize * Math.min(width, height)) / 720;
+    const columns = Math.ceil(width / cell);
+    const rows = Math.ceil(height / cell);
+    ctx.fillStyle = params.color;
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const value = valueNoise(
+          seed,
+          column / params.scale,
+          row / params.scale,
+          time * params.speed,
+        );
+        ctx.globalAlpha = value * value * params.intensity * opacity;
+        ctx.fillRect(column * cell, row * cell, cell + 0.5, cell + 0.5);
+      }
+    }
+  },
+});
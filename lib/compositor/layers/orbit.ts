@@ -0,0 +1,32 @@
+import { defineLayer } from "./types";
+
+export const orbitLayer = defineLayer({
+  type: "orbit",
+  label: "Orbit",
+  placement: "foreground",
+  params: {
+    satellites: { kind: "number", label: "Satellites", min: 0, max: 12, step: 1, default: 6 },
+  },
+  draw(ctx, { layout, theme, sliceProgress, opacity, params }) {
+    const { centerX, centerY } = layout;
+    const oscillation = Math.sin(sliceProgress * Math.PI * 2);
+    ctx.globalAlpha = 0.4 * 0.35 * opacity;
+    ctx.strokeStyle = theme.colors.accent;
+    ctx.lineWidth = layout.orbit.lineWidth;
+    const orbitRadius = layout.orbit.radius;
+    const satelliteCount = params.satellites;
+    ctx.beginPath();
+    ctx.arc(centerX, centerY, orbitRadius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.fillStyle = theme.colors.accent;
+    for (let i = 0; i < satelliteCount; i++) {
+      const angle = sliceProgress * Math.PI * 2 + (i / satelliteCount) * Math.PI * 2;
+      const x = centerX + Math.cos(angle) * orbitRadius;
+      const y = centerY + Math.sin(angle) * orbitRadius;
+      ctx.beginPath();
+      ctx.globalAlpha = 0.9 * Math.max(0, 0.3 + 0.4 * Math.sin(angle + oscillation)) * opacity;
+      ctx.arc(x, y, layout.orbit.satelliteRadius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  },
+});
@@ -0,0 +1,45 @@
+import { createRandom, wrap } from "./random";
+import { defineLayer } from "./types";
+
+const DIRECTIONS = ["up", "down", "random"] as const;
+
+export const particlesLayer = defineLayer({
+  type: "particles",
+  label: "Particles",
+  placement: "background",
+  params: {
+    count: { kind: "number", label: "Count", min: 0, max: 400, step: 10, default: 80 },
+    size: { kind: "number", label: "Size", min: 0.5, max: 8, step: 0.5, default: 2 },
+    speed: { kind: "number", label: "Speed", min: 0, max: 0.5, step: 0.01, default: 0.05 },
+    direction: { kind: "select", label: "Direction", options: DIRECTIONS, default: "up" },
+    color: { kind: "color", label: "Colour", default: "#ffffff" },
+    opacity: { kind: "number", label: "Opacity", min: 0, max: 1, step: 0.05, default: 0.6 },
+  },
+  draw(ctx, { width, height, time, seed, opacity, params }) {
+    const random = createRandom(seed);
+    const unit = Math.min(width, height);
+    ctx.fillStyle = params.color;
+    for (let i = 0; i < params.count; i++) {
+      const x0 = random() * width;
+      const y0 = random() * height;
+      const speed = (0.5 + random()) * params.speed * unit;
+      const heading = random() * Math.PI * 2;
+      const phase = random() * Math.PI * 2;
+      const radius = (params.size * unit * (0.5 + random())) / 720;
+      const brightness = 0.3 + 0.7 * random();
+      const [dx, dy] =
+        params.direction === "up"
+          ? [0, -1]
+          : params.direction === "down"
+            ? [0, 1]
+            : [Math.cos(heading), Math.sin(heading)];
+      const sway = Math.sin(time * 0.8 + phase) * unit * 0.01;
+      const x = wrap(x0 + dx * speed * time + sway, width);
+      const y = wrap(y0 + dy * speed * time, height);
+      ctx.globalAlpha = brightness * params.opacity * opacity;
+      ctx.beginPath();
+      ctx.arc(x, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  },
+});
@@ -0,0 +1,24 @@
+import { defineLayer } from "./types";
+
+export const progressBarLayer = defineLayer({
+  type: "progress-bar",
+  label: "Progress bar",
+  placement: "foreground",
+  params: {
+    mode: { kind: "select", label: "Tracks", options: ["timeline", "scene"], default: "timeline" },
+    position: { kind: "select", label: "Position", options: ["bottom", "top"], default: "bottom" },
+    thickness: { kind: "number", label: "Thickness", min: 2, max: 24, step: 1, default: 6 },
+    color: { kind: "color", label: "Colour", default: "#ffffff" },
+    opacity: { kind: "number", label: "Opacity", min: 0, max: 1, step: 0.05, default: 0.8 },
+  },
+  draw(ctx, { width, height, timelineProgress, sliceProgress, opacity, params }) {
+    const thickness = (params.thickness * Math.min(width, height)) / 720;
+    const y = params.position === "top" ? 0 : height - thickness;
+    const progress = params.mode === "scene" ? sliceProgress : timelineProgress;
+    ctx.fillStyle = params.color;
+    ctx.globalAlpha = params.opacity * 0.2 * opacity;
+    ctx.fillRect(0, y, width, thickness);
+    ctx.globalAlpha = params.opacity * opacity;
+    ctx.fillRect(0, y, width * Math.min(1, Math.max(0, progress)), thickness);
+  },
+});
@@ -0,0 +1,62 @@
+import type { LayerInstance, LayerParamValue } from "../types";
+import { bokehLayer } from "./bokeh";
+import { gridLayer } from "./grid";
+import { logoLayer } from "./logo";
+import { noiseLayer } from "./noise";
+import { orbitLayer } from "./orbit";
+import { particlesLayer } from "./particles";
+import { progressBarLayer } from "./progress-bar";
+import { shapesLayer } from "./shapes";
+import { starfieldLayer } from "./starfield";
+import type { LayerDefinition, LayerParamSpecs } from "./types";
+
+const registry = new Map<string, LayerDefinition>();
+
+/** Adds a layer type. Registering an existing type replaces it. */
+export function registerLayer<S extends LayerParamSpecs>(definition: LayerDefinition<S>) {
+  registry.set(definition.type, definition as unknown as LayerDefinition);
+}
+
+export function getLayerDefinition(type: string) {
+  return registry.get(type) ?? null;
+}
+
+export function listLayerDefinitions() {
+  return [...registry.values()];
+}
+
+registerLayer(orbitLayer);
+registerLayer(particlesLayer);
+registerLayer(starfieldLayer);
+registerLayer(gridLayer);
+registerLayer(noiseLayer);
+registerLayer(bokehLayer);
+registerLayer(shapesLayer);
+registerLayer(progressBarLayer);
+registerLayer(logoLayer);
+
+export function defaultLayerParams(definition: LayerDefinition) {
+  return Object.fromEntries(
+    Object.entries(definition.params).map(([name, spec]) => [name, spec.default]),
+  ) as Record<string, LayerParamValue>;
+}
+
+export function createLayerInstance(type: string, existing: LayerInstance[] = []): LayerInstance {
+  const definition = getLayerDefinition(type);
+  if (!definition) {
+    throw new Error(`Unknown layer type "${type}".`);
+  }
+  let id = type;
+  for (let n = 2; existing.some((layer) => layer.id === id); n++) {
+    id = `${type}-${n}`;
+  }
+  return { id, type, enabled: true, params: defaultLayerParams(definition) };
+}
+
+/** The orbit ring and satellites every built-in theme has always drawn. */
+export const DEFAULT_LAYERS: LayerInstance[] = [createLayerInstance("orbit")];
+
+/** Theme layers that are switched on for a scene, after its per-scene toggles. */
+export function resolveSceneLayers(layers: LayerInstance[], toggles: Record<string, boolean>) {
+  return layers.filter((layer) => toggles[layer.id] ?? layer.enabled);
+}
@@ -0,0 +1,56 @@
+import type { RenderContext2D } from "../types";
+import { createRandom, wrap } from "./random";
+import { defineLayer } from "./types";
+
+const SHAPES = ["triangle", "square", "hexagon", "circle", "mixed"] as const;
+
+function tracePolygon(ctx: RenderContext2D, sides: number, radius: number) {
+  for (let i = 0; i <= sides; i++) {
+    const angle = (i / sides) * Math.PI * 2 - Math.PI / 2;
+    const x = Math.cos(angle) * radius;
+    const y = Math.sin(angle) * radius;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+}
+
+export const shapesLayer = defineLayer({
+  type: "shapes",
+  label: "Geometric shapes",
+  placement: "background",
+  params: {
+    shape: { kind: "select", label: "Shape", options: SHAPES, default: "mixed" },
+    count: { kind: "number", label: "Count", min: 0, max: 40, step: 1, default: 8 },
+    size: { kind: "number", label: "Size", min: 0.02, max: 0.3, step: 0.01, default: 0.08 },
+    spin: { kind: "number", label: "Spin", min: 0, max: 1, step: 0.05, default: 0.1 },
+    filled: { kind: "boolean", label: "Filled", default: false },
+    color: { kind: "color", label: "Colour", default: "#ffffff" },
+    opacity: { kind: "number", label: "Opacity", min: 0, max: 1, step: 0.05, default: 0.3 },
+  },
+  draw(ctx, { width, height, time, seed, opacity, params }) {
+    const random = createRandom(seed);
+    const unit = Math.min(width, height);
+    ctx.strokeStyle = params.color;
+    ctx.fillStyle = params.color;
+    ctx.lineWidth = unit / 360;
+    for (let i = 0; i < params.count; i++) {
+      const x0 = random() * width;
+      const y0 = random() * height;
+      const radius = params.size * unit * (0.5 + random());
+      const turn = random() * Math.PI * 2;
+      const direction = random() < 0.5 ? -1 : 1;
+      const pick = SHAPES[Math.floor(random() * 4)];
+      const shape = params.shape === "mixed" ? pick : params.shape;
+      ctx.save();
+      ctx.translate(x0, wrap(y0 - time * unit * 0.02, height + radius * 2) - radius);
+      ctx.rotate(turn + direction * time * params.spin * Math.PI * 2);
+      ctx.globalAlpha = params.opacity * opacity;
+      ctx.beginPath();
+      if (shape === "circle") ctx.arc(0, 0, radius, 0, Math.PI * 2);
+      else tracePolygon(ctx, shape === "triangle" ? 3 : shape === "square" ? 4 : 6, radius);
+      if (params.filled) ctx.fill();
+      else ctx.stroke();
+      ctx.restore();
+    }
+  },
+});
@@ -0,0 +1,34 @@
+import { createRandom, wrap } from "./random";
+import { defineLayer } from "./types";
+
+export const starfieldLayer = defineLayer({
+  type: "starfield",
+  label: "Starfield",
+  placement: "background",
+  params: {
+    count: { kind: "number", label: "Stars", min: 0, max: 800, step: 20, default: 220 },
+    size: { kind: "number", label: "Size", min: 0.5, max: 4, step: 0.25, default: 1.5 },
+    twinkle: { kind: "number", label: "Twinkle", min: 0, max: 4, step: 0.1, default: 1 },
+    drift: { kind: "number", label: "Drift", min: 0, max: 0.2, step: 0.01, default: 0.02 },
+    color: { kind: "color", label: "Colour", default: "#ffffff" },
+  },
+  draw(ctx, { width, height, time, seed, opacity, params }) {
+    const random = createRandom(seed);
+    const unit = Math.min(width, height);
+    ctx.fillStyle = params.color;
+    for (let i = 0; i < params.count; i++) {
+      const x0 = random() * width;
+      const y = random() * height;
+      // Nearer stars are bigger, brighter, and drift faster for a touch of parallax.
+      const depth = random();
+      const phase = random() * Math.PI * 2;
+      const rate = 0.5 + random();
+      const x = wrap(x0 - params.drift * unit * (0.2 + depth) * time, width);
+      const shimmer = 0.5 + 0.5 * Math.sin(time * params.twinkle * rate * Math.PI * 2 + phase);
+      ctx.globalAlpha = (0.25 + 0.75 * depth) * (0.4 + 0.6 * shimmer) * opacity;
+      ctx.beginPath();
+      ctx.arc(x, y, (params.size * unit * (0.4 + depth)) / 720, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  },
+});
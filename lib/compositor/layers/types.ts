@@ -0,0 +1,71 @@
+import type { AnimatedProperty } from "../animation";
+import type { SceneLayout } from "../layout";
+import type {
+  AssetImages,
+  LayerParamValue,
+  RenderContext2D,
+  Theme,
+  TimelineSlice,
+} from "../types";
+
+export type LayerParamSpec =
+  | { kind: "number"; label: string; min: number; max: number; step: number; default: number }
+  | { kind: "color"; label: string; default: string }
+  | { kind: "boolean"; label: string; default: boolean }
+  | { kind: "select"; label: string; options: readonly string[]; default: string }
+  | { kind: "text"; label: string; maxLength: number; default: string }
+  /** An asset library id; empty means no image. */
+  | { kind: "asset"; label: string; default: string };
+
+export type LayerParamSpecs = Record<string, LayerParamSpec>;
+
+export type LayerParams<S extends LayerParamSpecs> = { [K in keyof S]: S[K]["default"] };
+
+/** Behind the scene text, or above it. */
+export type LayerPlacement = "background" | "foreground";
+
+export interface LayerFrameContext<P = Record<string, LayerParamValue>> {
+  width: number;
+  height: number;
+  layout: SceneLayout;
+  theme: Theme;
+  slice: TimelineSlice;
+  sliceIndex: number;
+  sceneCount: number;
+  sliceProgress: number;
+  frameIndex: number;
+  /** Seconds since the start of the timeline. */
+  time: number;
+  /** Progress through the whole timeline, 0–1. */
+  timelineProgress: number;
+  /** Scene opacity while a transition blends two scenes; multiply every alpha by it. */
+  opacity: number;
+  /** Stable per layer instance, for deterministic randomness. */
+  seed: number;
+  images: AssetImages;
+  params: P;
+}
+
+export interface LayerDefinition<S extends LayerParamSpecs = LayerParamSpecs> {
+  type: string;
+  label: string;
+  placement: LayerPlacement;
+  params: S;
+  /** Must depend only on its arguments so every render of a frame is identical. */
+  draw(ctx: RenderContext2D, frame: LayerFrameContext<LayerParams<S>>): void;
+}
+
+/** The properties a layer's `tracks` can animate. */
+export const LAYER_ANIMATED_PROPERTIES: readonly AnimatedProperty[] = [
+  "opacity",
+  "x",
+  "y",
+  "scale",
+  "rotation",
+  "blur",
+];
+
+/** Identity helper so parameter types are inferred from the `params` specs. */
+export function defineLayer<S extends LayerParamSpecs>(definition: LayerDefinition<S>) {
+  return definition;
+}
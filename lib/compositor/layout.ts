@@ -0,0 +1,120 @@
+import type { TextBox } from "./text";
+import type { AspectRatio, CaptionStyle, OutputResolution, OutputSize } from "./types";
+
+export const DEFAULT_OUTPUT_SIZE: OutputSize = { aspectRatio: "16:9", resolution: "720p" };
+
+export const ASPECT_RATIO_LABELS: Record<AspectRatio, string> = {
+  "16:9": "Landscape",
+  "9:16": "Vertical",
+  "1:1": "Square",
+  "4:5": "Feed",
+};
+
+export const RESOLUTION_LABELS: Record<OutputResolution, string> = {
+  "720p": "720p",
+  "1080p": "1080p",
+  "4k": "4K",
+};
+
+const SHORT_EDGES: Record<OutputResolution, number> = {
+  "720p": 720,
+  "1080p": 1080,
+  "4k": 2160,
+};
+
+const RATIOS: Record<AspectRatio, [number, number]> = {
+  "16:9": [16, 9],
+  "9:16": [9, 16],
+  "1:1": [1, 1],
+  "4:5": [4, 5],
+};
+
+export function getOutputDimensions({ aspectRatio, resolution }: OutputSize) {
+  const [w, h] = RATIOS[aspectRatio];
+  const shortEdge = SHORT_EDGES[resolution];
+  // Encoders want even dimensions for 4:2:0 chroma subsampling.
+  const longEdge = Math.round((shortEdge * Math.max(w, h)) / Math.min(w, h) / 2) * 2;
+  return w >= h ? { width: longEdge, height: shortEdge } : { width: shortEdge, height: longEdge };
+}
+
+export function describeOutputSize(size: OutputSize) {
+  const { width, height } = getOutputDimensions(size);
+  return `${size.aspectRatio} · ${width}×${height}`;
+}
+
+/** Positions of every scene element, in pixels, for one frame size. */
+export interface SceneLayout {
+  centerX: number;
+  centerY: number;
+  title: { y: number; fontSize: number };
+  body: { maxWidth: number; maxHeight: number; fontSize: number; lineHeight: number };
+  sceneNumber: { y: number; fontSize: number };
+  orbit: { radius: number; lineWidth: number; satelliteRadius: number };
+  lowerThird: {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    padding: number;
+    slide: number;
+    fontSize: number;
+    lineHeight: number;
+    maxLines: number;
+  };
+}
+
+/**
+ * Sizes scale with the short edge so type keeps the same weight in every format. Vertical
+ * frames pull the title and scene number towards the edges and give text a wider column,
+ * since the orbit only fills the middle of the frame.
+ */
+export function computeLayout(width: number, height: number): SceneLayout {
+  const unit = Math.min(width, height);
+  const portrait = height > width;
+  const bandHeight = unit * 0.16;
+  return {
+    centerX: width / 2,
+    centerY: height / 2,
+    title: { y: height * (portrait ? 0.12 : 0.18), fontSize: Math.round(unit * 0.06) },
+    body: {
+      maxWidth: width * (portrait ? 0.84 : 0.7),
+      // The space between the title and the scene number.
+      maxHeight: height * (portrait ? 0.46 : 0.36),
+      fontSize: Math.round(unit * 0.07),
+      lineHeight: unit * 0.1,
+    },
+    sceneNumber: { y: height * (portrait ? 0.86 : 0.82), fontSize: Math.round(unit * 0.14) },
+    orbit: { radius: unit * 0.42, lineWidth: unit / 240, satelliteRadius: unit * 0.012 },
+    lowerThird: {
+      x: width * 0.06,
+      y: height * 0.92 - bandHeight,
+      width: width * 0.88,
+      height: bandHeight,
+      padding: width * (portrait ? 0.05 : 0.03),
+      slide: unit * 0.04,
+      fontSize: Math.round(unit * 0.045),
+      lineHeight: unit * 0.06,
+      maxLines: 2,
+    },
+  };
+}
+
+/** Where scene text goes for a caption style; `fitText` shrinks text to stay inside it. */
+export function getCaptionBox(layout: SceneLayout, captionStyle: CaptionStyle): TextBox {
+  if (captionStyle === "lower-third") {
+    const band = layout.lowerThird;
+    return {
+      width: band.width - band.padding * 2,
+      height: band.lineHeight * band.maxLines,
+      fontSize: band.fontSize,
+      lineHeight: band.lineHeight,
+    };
+  }
+  const { body } = layout;
+  return {
+    width: body.maxWidth,
+    height: body.maxHeight,
+    fontSize: body.fontSize,
+    lineHeight: body.lineHeight,
+  };
+}
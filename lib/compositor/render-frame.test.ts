@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { createSettings, createTimeline } from "@/test/fixtures";
+import { MockGradient, createMockContext } from "@/test/mock-context";
+import type { KeyframeTracks } from "./animation";
+import { createLayerInstance } from "./layers";
+import { renderFrame } from "./render-frame";
+import { DEFAULT_THEME } from "./themes";
+
+function renderLogo(tracks: KeyframeTracks) {
+  const mock = createMockContext();
+  const theme = { ...DEFAULT_THEME, layers: [{ ...createLayerInstance("logo"), tracks }] };
+  renderFrame(mock.ctx, createTimeline(), createSettings({ theme }), 24);
+  return mock;
+}
+
+function drawnText(calls: { method: string; args: unknown[] }[]) {
+  return calls.filter((call) => call.method === "fillText").map((call) => String(call.args[0]));
+}
+
+describe("renderFrame", () => {
+  it("fills the frame and draws the scene's title, text and number", () => {
+    const { ctx, calls } = createMockContext();
+    const timeline = createTimeline();
+    renderFrame(ctx, timeline, createSettings(), 60);
+
+    const fill = calls.find((call) => call.method === "fillRect");
+    expect(fill?.args).toEqual([0, 0, 1280, 720]);
+    const text = drawnText(calls).join(" ");
+    expect(text).toContain("Render");
+    expect(text).toContain("anywhere");
+    expect(text).not.toContain("Meet");
+    expect(drawnText(calls)).toContain("02");
+  });
+
+  it("paints the background with the scene's palette", () => {
+    const { ctx, assignments } = createMockContext();
+    renderFrame(ctx, createTimeline(), createSettings(), 0);
+    const gradient = assignments.find(([, value]) => value instanceof MockGradient)?.[1];
+    const stops = (gradient as MockGradient).stops.map(([, color]) => color.toLowerCase());
+    for (const color of DEFAULT_THEME.palettes[0]) {
+      expect(stops).toContain(color.toLowerCase());
+    }
+  });
+
+  it("leaves the context as it found it", () => {
+    const { ctx, calls } = createMockContext();
+    renderFrame(ctx, createTimeline(), createSettings(), 10);
+    const saves = calls.filter((call) => call.method === "save").length;
+    const restores = calls.filter((call) => call.method === "restore").length;
+    expect(saves).toBeGreaterThan(0);
+    expect(restores).toBe(saves);
+  });
+
+  it("draws the same calls for the same frame", () => {
+    const first = createMockContext();
+    const second = createMockContext();
+    renderFrame(first.ctx, createTimeline(), createSettings(), 30);
+    renderFrame(second.ctx, createTimeline(), createSettings(), 30);
+    expect(second.calls).toEqual(first.calls);
+    expect(second.assignments).toEqual(first.assignments);
+  });
+
+  it("draws both scenes during a crossfade", () => {
+    const { ctx, calls } = createMockContext();
+    const settings = createSettings({
+      transition: { type: "crossfade", durationSeconds: 1, direction: "left" },
+    });
+    renderFrame(ctx, createTimeline(), settings, 48);
+    const text = drawnText(calls).join(" ");
+    expect(text).toContain("Meet");
+    expect(text).toContain("Render");
+  });
+
+  it("lays text out at the frame size", () => {
+    const { ctx, calls } = createMockContext(1080, 1920);
+    renderFrame(
+      ctx,
+      createTimeline(),
+      createSettings({ output: { aspectRatio: "9:16", resolution: "1080p" } }),
+      0,
+    );
+    const fill = calls.find((call) => call.method === "fillRect");
+    expect(fill?.args).toEqual([0, 0, 1080, 1920]);
+  });
+
+  it("moves, turns, scales and blurs a layer with its keyframe tracks", () => {
+    const { calls, assignments } = renderLogo({
+      opacity: [{ at: 0, value: 0.5 }],
+      x: [{ at: 0, value: 0.25 }],
+      rotation: [{ at: 0, value: 90 }],
+      scale: [{ at: 0, value: 2 }],
+      blur: [{ at: 0, value: 0.025 }],
+    });
+    const args = (method: string) =>
+      calls.filter((call) => call.method === method).map((call) => call.args);
+    expect(args("translate")).toContainEqual([640 + 180, 360]);
+    expect(args("rotate")).toContainEqual([Math.PI / 2]);
+    expect(args("scale")).toContainEqual([2, 2]);
+    expect(assignments).toContainEqual(["filter", "blur(18px)"]);
+    expect(assignments).toContainEqual(["globalAlpha", 0.5 * 0.8]);
+    expect(drawnText(calls)).toContain("NEBULA");
+  });
+
+  it("skips a layer whose tracks fade it out", () => {
+    const { calls } = renderLogo({ opacity: [{ at: 0, value: 0 }] });
+    expect(drawnText(calls)).not.toContain("NEBULA");
+  });
+
+  it("leaves layers without tracks where they are", () => {
+    const { calls } = renderLogo({});
+    expect(drawnText(calls)).toContain("NEBULA");
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  DEFAULT_CAPTION_ANIMATIONS,
+  TEXT_ANIMATIONS,
+  TITLE_TRACKS,
+  drawAnimatedText,
+  findTextAnimation,
+  sampleTracks,
+  type AnimatedValues,
+} from "./animation";
+import { drawSceneAssets } from "./assets";
+import { drawGradientBackground } from "./background";
+import { getLayerDefinition, hashSeed, resolveSceneLayers, type LayerPlacement } from "./layers";
+import { computeLayout, getCaptionBox, type SceneLayout } from "./layout";
+import { fitText } from "./text";
+import { getTotalFrames, resolveFrame } from "./timeline";
+import { composeTransition, resolveTransition } from "./transitions";
+import type {
+  AssetImages,
+  CaptionStyle,
+  FontRole,
+  FontUsage,
+  FrameState,
+  GenerationSettings,
+  RenderContext2D,
+  Theme,
+  TimelineSlice,
+} from "./types";
+
+function sceneAnimation(slice: TimelineSlice, captionStyle: CaptionStyle) {
+  return (
+    findTextAnimation(slice.animation ?? DEFAULT_CAPTION_ANIMATIONS[captionStyle]) ??
+    TEXT_ANIMATIONS[0]
+  );
+}
+
+function drawLowerThird(
+  ctx: RenderContext2D,
+  layout: SceneLayout,
+  theme: Theme,
+  slice: TimelineSlice,
+  sliceProgress: number,
+  opacity: number,
+) {
+  const { width } = ctx.canvas;
+  const entrance = Math.max(0, Math.min(1, sliceProgress * 6, (1 - sliceProgress) * 6));
+  const band = layout.lowerThird;
+  const bandX = band.x;
+  const bandWidth = band.width;
+  const bandHeight = band.height;
+  const bandY = band.y + (1 - entrance) * band.slide;
+  const padding = band.padding;
+
+  ctx.globalAlpha = entrance * opacity;
+  ctx.fillStyle = "rgba(0,0,0,0.45)";
+  ctx.fillRect(bandX, bandY, bandWidth, bandHeight);
+  ctx.globalAlpha = entrance * opacity * 0.85;
+  ctx.fillStyle = theme.colors.accent;
+  ctx.fillRect(bandX, bandY, Math.max(4, width * 0.004), bandHeight);
+
+  const text = fitText(ctx, slice.sentence, getCaptionBox(layout, "lower-third"), theme.fonts.body);
+  const textX =
+    slice.textAlign === "left"
+      ? bandX + padding
+      : slice.textAlign === "right"
+        ? bandX + bandWidth - padding
+        : bandX + bandWidth / 2;
+  ctx.fillStyle = theme.colors.body;
+  drawAnimatedText(ctx, {
+    lines: text.lines.slice(0, band.maxLines),
+    x: textX,
+    y: bandY + bandHeight / 2,
+    align: slice.textAlign,
+    fontSize: text.fontSize,
+    lineHeight: text.lineHeight,
+    animation: sceneAnimation(slice, "lower-third"),
+    sceneProgress: sliceProgress,
+    opacity: entrance * opacity * 0.95,
+    highlights: slice.highlights,
+    highlightColor: theme.colors.accent,
+  });
+}
+
+/** Frame-wide values shared by both scenes of a transition. */
+interface FrameClock {
+  frameIndex: number;
+  totalFrames: number;
+  sceneCount: number;
+  wavePhase: number;
+  images: AssetImages;
+}
+
+const DEFAULT_TITLE = "AI Concept Visualizer";
+
+// Offsets and blur are in fractions of the shorter side, as in `LayerInstance.tracks`.
+function applyLayerMotion(
+  ctx: RenderContext2D,
+  values: AnimatedValues,
+  width: number,
+  height: number,
+) {
+  const unit = Math.min(width, height);
+  ctx.translate(width / 2 + values.x * unit, height / 2 + values.y * unit);
+  ctx.rotate((values.rotation * Math.PI) / 180);
+  ctx.scale(values.scale, values.scale);
+  ctx.translate(-width / 2, -height / 2);
+  if (values.blur > 0.0001) {
+    ctx.filter = `blur(${values.blur * unit}px)`;
+  }
+}
+
+function drawLayers(
+  ctx: RenderContext2D,
+  placement: LayerPlacement,
+  settings: GenerationSettings,
+  layout: SceneLayout,
+  { slice, sliceIndex, sliceProgress }: FrameState,
+  clock: FrameClock,
+  opacity: number,
+) {
+  const { width, height } = ctx.canvas;
+  const theme = slice.theme ?? settings.theme;
+  for (const layer of resolveSceneLayers(theme.layers, slice.layerToggles)) {
+    const definition = getLayerDefinition(layer.type);
+    if (!definition || definition.placement !== placement) continue;
+    const motion = layer.tracks && sampleTracks(layer.tracks, sliceProgress);
+    const layerOpacity = motion ? Math.min(1, Math.max(0, motion.opacity)) * opacity : opacity;
+    if (motion && layerOpacity <= 0) continue;
+    ctx.save();
+    if (motion) applyLayerMotion(ctx, motion, width, height);
+    ctx.globalAlpha = layerOpacity;
+    definition.draw(ctx, {
+      width,
+      height,
+      layout,
+      theme,
+      slice,
+      sliceIndex,
+      sceneCount: clock.sceneCount,
+      sliceProgress,
+      frameIndex: clock.frameIndex,
+      time: clock.frameIndex / settings.fps,
+      timelineProgress: clock.frameIndex / Math.max(1, clock.totalFrames - 1),
+      opacity: layerOpacity,
+      seed: hashSeed(layer.id),
+      images: clock.images,
+      params: layer.params,
+    });
+    ctx.restore();
+  }
+}
+
+function drawScene(
+  ctx: RenderContext2D,
+  settings: GenerationSettings,
+  state: FrameState,
+  clock: FrameClock,
+  opacity: number,
+) {
+  const { slice, sliceProgress } = state;
+  const { width, height } = ctx.canvas;
+
+  const layout = computeLayout(width, height);
+  const { centerX, centerY } = layout;
+
+  ctx.save();
+  ctx.textAlign = "center";
+  ctx.textBaseline = "middle";
+  ctx.globalAlpha = opacity;
+
+  const theme = slice.theme ?? settings.theme;
+  drawGradientBackground(
+    ctx,
+    width,
+    height,
+    slice.palette,
+    clock.wavePhase,
+    theme.angle,
+    theme.overlayOpacity,
+  );
+
+  drawSceneAssets(ctx, "background", slice, clock.images, sliceProgress, opacity);
+  drawLayers(ctx, "background", settings, layout, state, clock, opacity);
+
+  ctx.globalAlpha = sampleTracks(TITLE_TRACKS, sliceProgress).opacity * opacity;
+  ctx.fillStyle = theme.colors.title;
+  ctx.font = `${layout.title.fontSize}px ${theme.fonts.title}`;
+  ctx.fillText(slice.title ?? DEFAULT_TITLE, centerX, layout.title.y);
+
+  if (settings.captionStyle === "centered") {
+    ctx.globalAlpha = opacity * 0.04;
+    ctx.font = `${layout.sceneNumber.fontSize}px ${theme.fonts.sceneNumber}`;
+    ctx.fillStyle = theme.colors.sceneNumber;
+    // Continuation scenes keep the number of the sentence they belong to.
+    ctx.fillText(String(slice.index + 1).padStart(2, "0"), centerX, layout.sceneNumber.y);
+
+    const box = getCaptionBox(layout, "centered");
+    const text = fitText(ctx, slice.sentence, box, theme.fonts.body);
+    const textX =
+      slice.textAlign === "left"
+        ? centerX - box.width / 2
+        : slice.textAlign === "right"
+          ? centerX + box.width / 2
+          : centerX;
+    ctx.fillStyle = theme.colors.body;
+    drawAnimatedText(ctx, {
+      lines: text.lines,
+      x: textX,
+      // The block has always sat half a line above the frame centre.
+      y: centerY - text.lineHeight / 2,
+      align: slice.textAlign,
+      fontSize: text.fontSize,
+      lineHeight: text.lineHeight,
+      animation: sceneAnimation(slice, "centered"),
+      sceneProgress: sliceProgress,
+      opacity,
+      highlights: slice.highlights,
+      highlightColor: theme.colors.accent,
+    });
+  }
+
+  drawSceneAssets(ctx, "overlay", slice, clock.images, sliceProgress, opacity);
+  drawLayers(ctx, "foreground", settings, layout, state, clock, opacity);
+
+  if (settings.captionStyle === "lower-third") {
+    drawLowerThird(ctx, layout, theme, slice, sliceProgress, opacity);
+  }
+
+  ctx.restore();
+}
+
+const NO_IMAGES: AssetImages = new Map();
+
+/** `images` must already be decoded; assets without an image are left out of the frame. */
+export function renderFrame(
+  ctx: RenderContext2D,
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+  frameIndex: number,
+  images: AssetImages = NO_IMAGES,
+) {
+  const clock: FrameClock = {
+    frameIndex,
+    totalFrames: getTotalFrames(timeline, settings),
+    sceneCount: timeline.length,
+    // Waves follow global time so their phase carries across scene boundaries.
+    wavePhase: ((frameIndex / settings.fps) * Math.PI * 2) / settings.segmentSeconds,
+    images,
+  };
+  const active = resolveTransition(timeline, settings, frameIndex);
+  if (active) {
+    composeTransition(ctx, active, (state, opacity) =>
+      drawScene(ctx, settings, state, clock, opacity),
+    );
+  } else {
+    const state = resolveFrame(timeline, settings, frameIndex);
+    drawScene(ctx, settings, state, clock, 1);
+  }
+}
+
+/**
+ * The fonts `timeline` is drawn with and the characters drawn in each, so they can be
+ * loaded, and checked for missing glyphs, before the first frame.
+ */
+export function collectFontUsage(timeline: TimelineSlice[], theme: Theme): FontUsage[] {
+  const usage = new Map<string, { role: FontRole; family: string; characters: Set<string> }>();
+  const add = (role: FontRole, family: string, text: string) => {
+    const key = `${role}\n${family}`;
+    const entry = usage.get(key) ?? { role, family, characters: new Set<string>() };
+    for (const char of text.replace(/\s+/g, "")) entry.characters.add(char);
+    usage.set(key, entry);
+  };
+  const themes = [theme, ...timeline.flatMap((slice) => (slice.theme ? [slice.theme] : []))];
+  for (const { fonts, layers } of themes) {
+    for (const layer of layers) {
+      if (layer.type === "logo" && typeof layer.params.text === "string") {
+        add("title", fonts.title, layer.params.text);
+      }
+    }
+  }
+  for (const slice of timeline) {
+    const { fonts } = slice.theme ?? theme;
+    add("title", fonts.title, slice.title ?? DEFAULT_TITLE);
+    add("body", fonts.body, slice.sentence);
+    add("sceneNumber", fonts.sceneNumber, String(slice.index + 1).padStart(2, "0"));
+  }
+  return [...usage.values()].map(({ role, family, characters }) => ({
+    role,
+    family,
+    text: [...characters].join(""),
+  }));
+}
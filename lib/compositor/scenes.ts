@@ -0,0 +1,86 @@
+import { parseScript } from "./script";
+import type { SceneOverride, SceneOverrides } from "./types";
+
+export function sceneKey(text: string, occurrence: number) {
+  return occurrence === 0 ? text : `${text}#${occurrence + 1}`;
+}
+
+export function keyScenes(texts: string[]) {
+  const seen = new Map<string, number>();
+  return texts.map((text) => {
+    const occurrence = seen.get(text) ?? 0;
+    seen.set(text, occurrence + 1);
+    return sceneKey(text, occurrence);
+  });
+}
+
+export function updateSceneOverride(
+  overrides: SceneOverrides,
+  key: string,
+  patch: SceneOverride,
+): SceneOverrides {
+  const merged: SceneOverride = { ...overrides[key], ...patch };
+  const entries = Object.entries(merged).filter(([, value]) => value !== undefined);
+  const next = { ...overrides };
+  if (entries.length === 0) {
+    delete next[key];
+  } else {
+    next[key] = Object.fromEntries(entries);
+  }
+  return next;
+}
+
+/**
+ * Splits a scene before `wordIndex`. Prose gets a line break in place of the preceding
+ * whitespace; a script gets a blank line, which starts a new block.
+ */
+export function splitSentenceInPrompt(prompt: string, sentenceIndex: number, wordIndex: number) {
+  const { mode, scenes } = parseScript(prompt);
+  const word = scenes[sentenceIndex]?.words[wordIndex];
+  if (!word || wordIndex <= 0) {
+    return prompt;
+  }
+  const separator = mode === "script" ? "\n\n" : "\n";
+  return `${prompt.slice(0, word.start).trimEnd()}${separator}${prompt.slice(word.start)}`;
+}
+
+/**
+ * Joins a scene with the one after it. Prose replaces the punctuation between them; a script
+ * drops the blank lines and `---` between the blocks.
+ */
+export function mergeSentenceWithNext(prompt: string, sentenceIndex: number) {
+  const { mode, scenes } = parseScript(prompt);
+  const current = scenes[sentenceIndex];
+  const next = scenes[sentenceIndex + 1];
+  if (!current || !next) {
+    return prompt;
+  }
+  if (mode === "prose") {
+    return `${prompt.slice(0, current.end)}; ${prompt.slice(next.start)}`;
+  }
+  // Headings and directive-only blocks between the two scenes are kept.
+  const kept = prompt
+    .slice(current.end, next.start)
+    .split("\n")
+    .filter((line) => line.trim() !== "" && !/^\s*-{3,}\s*$/.test(line));
+  return [prompt.slice(0, current.end), ...kept, prompt.slice(next.start)].join("\n");
+}
+
+/** Reorders scenes while leaving the punctuation, separators and line breaks between them. */
+export function moveSentenceInPrompt(prompt: string, from: number, to: number) {
+  const { scenes } = parseScript(prompt);
+  if (!scenes[from] || !scenes[to] || from === to) {
+    return prompt;
+  }
+  const texts = scenes.map((scene) => prompt.slice(scene.start, scene.end));
+  const [moved] = texts.splice(from, 1);
+  texts.splice(to, 0, moved);
+
+  let result = "";
+  let cursor = 0;
+  scenes.forEach((scene, index) => {
+    result += prompt.slice(cursor, scene.start) + texts[index];
+    cursor = scene.end;
+  });
+  return result + prompt.slice(cursor);
+}
@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { parseScript } from "./script";
+
+describe("parseScript", () => {
+  it("reads transition and alignment directives", () => {
+    const { scenes, issues } = parseScript("Hello there\n[transition: crossfade]\n[align: left]");
+    expect(issues).toEqual([]);
+    expect(scenes[0].transition?.type).toBe("crossfade");
+    expect(scenes[0].textAlign).toBe("left");
+  });
+
+  it("rejects directive values that are only inherited object keys", () => {
+    const { scenes, issues } = parseScript(
+      "Hello there\n[transition: constructor]\n[align: constructor]",
+    );
+    expect(issues.map((issue) => issue.message)).toEqual([
+      expect.stringContaining('Unknown transition "constructor"'),
+      expect.stringContaining("must be left, center or right"),
+    ]);
+    expect(scenes[0].transition).toBeNull();
+    expect(scenes[0].textAlign).toBeNull();
+  });
+});
@@ -0,0 +1,261 @@
+import { TEXT_ANIMATIONS, findTextAnimation } from "./animation";
+import { locateSentences } from "./sentences";
+import { BUILT_IN_THEMES } from "./themes";
+import { DEFAULT_TRANSITION, TRANSITION_LABELS } from "./transitions";
+import type {
+  SceneTextAlign,
+  Theme,
+  TransitionDirection,
+  TransitionSettings,
+  TransitionType,
+} from "./types";
+
+/** Plain prose splits into sentences; a script splits into blocks and reads directives. */
+export type ScriptMode = "prose" | "script";
+
+export interface ScriptIssue {
+  /** 1-based line in the prompt. */
+  line: number;
+  message: string;
+}
+
+interface WordRange {
+  start: number;
+  end: number;
+}
+
+/** One scene of a prompt. Options a script leaves unset are `null`. */
+export interface ScriptScene {
+  text: string;
+  /** Set by the nearest `# Heading` at or above the scene. */
+  title: string | null;
+  theme: Theme | null;
+  durationSeconds: number | null;
+  transition: TransitionSettings | null;
+  textAlign: SceneTextAlign | null;
+  animation: string | null;
+  /** 1-based line the scene starts on. */
+  line: number;
+  /** Source range of the sentence, or of the whole block with its heading and directives. */
+  start: number;
+  end: number;
+  /** Source range of each word of `text`, for splitting. */
+  words: WordRange[];
+}
+
+export interface ParsedScript {
+  mode: ScriptMode;
+  scenes: ScriptScene[];
+  issues: ScriptIssue[];
+}
+
+type SceneOptions = Pick<
+  ScriptScene,
+  "theme" | "durationSeconds" | "transition" | "textAlign" | "animation"
+>;
+
+interface SourceLine {
+  text: string;
+  start: number;
+  number: number;
+}
+
+const HEADING_PATTERN = /^\s*#{1,6}(?:\s+|$)/;
+const SEPARATOR_PATTERN = /^\s*-{3,}\s*$/;
+const DIRECTIVE_PATTERN = /\[\s*([a-z][\w-]*)\s*:\s*([^\]]*)\]/gi;
+const DIRECTIVES = ["duration", "style", "transition", "align", "animation"];
+const DIRECTIONS: TransitionDirection[] = ["left", "right", "up", "down"];
+const ALIGNMENTS: Record<string, SceneTextAlign> = {
+  left: "left",
+  center: "center",
+  centre: "center",
+  right: "right",
+};
+
+function splitLines(input: string): SourceLine[] {
+  let start = 0;
+  return input.split("\n").map((text, index) => {
+    const line = { text, start, number: index + 1 };
+    start += text.length + 1;
+    return line;
+  });
+}
+
+/** A prompt is a script once it uses a heading, a `---` separator or a known directive. */
+export function isScript(input: string) {
+  return (
+    splitLines(input).some(
+      (line) => HEADING_PATTERN.test(line.text) || SEPARATOR_PATTERN.test(line.text),
+    ) ||
+    [...input.matchAll(DIRECTIVE_PATTERN)].some((match) =>
+      DIRECTIVES.includes(match[1].toLowerCase()),
+    )
+  );
+}
+
+function emptyOptions(): SceneOptions {
+  return { theme: null, durationSeconds: null, transition: null, textAlign: null, animation: null };
+}
+
+function applyDirective(
+  options: SceneOptions,
+  key: string,
+  value: string,
+  themes: Theme[],
+): string | null {
+  const lower = value.toLowerCase();
+  switch (key) {
+    case "duration": {
+      const match = /^(\d+(?:\.\d+)?)\s*(ms|s|sec|secs|seconds)?$/.exec(lower);
+      const seconds = match ? Number(match[1]) / (match[2] === "ms" ? 1000 : 1) : NaN;
+      if (!(seconds >= 1 && seconds <= 30)) {
+        return `Duration "${value}" must be between 1s and 30s, as in [duration: 4s].`;
+      }
+      options.durationSeconds = seconds;
+      return null;
+    }
+    case "style": {
+      const theme = themes.find(
+        (item) => item.id.toLowerCase() === lower || item.name.toLowerCase() === lower,
+      );
+      if (!theme) {
+        return `Unknown style "${value}". Use one of: ${themes.map((item) => item.id).join(", ")}.`;
+      }
+      options.theme = theme;
+      return null;
+    }
+    case "transition": {
+      const [type, ...rest] = lower.split(/\s+/);
+      if (!Object.hasOwn(TRANSITION_LABELS, type)) {
+        const types = Object.keys(TRANSITION_LABELS).join(", ");
+        return `Unknown transition "${type}". Use one of: ${types}.`;
+      }
+      const transition: TransitionSettings = {
+        ...DEFAULT_TRANSITION,
+        type: type as TransitionType,
+      };
+      for (const token of rest) {
+        const seconds = /^(\d+(?:\.\d+)?)s$/.exec(token);
+        if (DIRECTIONS.includes(token as TransitionDirection)) {
+          transition.direction = token as TransitionDirection;
+        } else if (seconds && Number(seconds[1]) <= 5) {
+          transition.durationSeconds = Number(seconds[1]);
+        } else {
+          return `"${token}" is not a transition direction or a length of up to 5s.`;
+        }
+      }
+      options.transition = transition;
+      return null;
+    }
+    case "align":
+      if (!Object.hasOwn(ALIGNMENTS, lower)) {
+        return `Alignment "${value}" must be left, center or right.`;
+      }
+      options.textAlign = ALIGNMENTS[lower];
+      return null;
+    case "animation":
+      if (!findTextAnimation(lower)) {
+        const ids = TEXT_ANIMATIONS.map((animation) => animation.id).join(", ");
+        return `Unknown animation "${value}". Use one of: ${ids}.`;
+      }
+      options.animation = lower;
+      return null;
+    default:
+      return `Unknown directive "${key}". Use ${DIRECTIVES.join(", ")}.`;
+  }
+}
+
+function parseProse(input: string): ParsedScript {
+  const scenes = locateSentences(input).map((range) => ({
+    ...emptyOptions(),
+    text: range.text,
+    title: null,
+    line: input.slice(0, range.start).split("\n").length,
+    start: range.start,
+    end: range.end,
+    words: [...range.text.matchAll(/\S+/g)].map((word) => ({
+      start: range.start + word.index,
+      end: range.start + word.index + word[0].length,
+    })),
+  }));
+  return { mode: "prose", scenes, issues: [] };
+}
+
+/**
+ * Parses a prompt into scenes. Scripts separate scenes with blank lines or `---`, title them
+ * with `# Heading`, and set options with `[duration: 4s]`, `[style: aqua]`,
+ * `[transition: wipe left]`, `[align: left]` and `[animation: typewriter]`. Prompts without
+ * any of these are read as plain prose, one scene per sentence.
+ */
+export function parseScript(input: string, themes: Theme[] = BUILT_IN_THEMES): ParsedScript {
+  if (!isScript(input)) {
+    return parseProse(input);
+  }
+  const scenes: ScriptScene[] = [];
+  const issues: ScriptIssue[] = [];
+  let title: string | null = null;
+
+  const parseBlock = (block: SourceLine[]) => {
+    const options = emptyOptions();
+    const words: WordRange[] = [];
+    let directiveLine: number | null = null;
+    for (const line of block) {
+      for (const match of line.text.matchAll(DIRECTIVE_PATTERN)) {
+        directiveLine ??= line.number;
+        const issue = applyDirective(options, match[1].toLowerCase(), match[2].trim(), themes);
+        if (issue) issues.push({ line: line.number, message: issue });
+      }
+      // Blank out directives so word offsets still line up with the source.
+      const text = line.text.replace(DIRECTIVE_PATTERN, (match) => " ".repeat(match.length));
+      const heading = HEADING_PATTERN.exec(text);
+      if (heading) {
+        const headingText = text.slice(heading[0].length).trim();
+        if (headingText) {
+          title = headingText;
+        } else {
+          issues.push({ line: line.number, message: 'Headings need text, as in "# Launch day".' });
+        }
+        continue;
+      }
+      for (const word of text.matchAll(/\S+/g)) {
+        const start = line.start + word.index;
+        words.push({ start, end: start + word[0].length });
+      }
+    }
+    if (words.length === 0) {
+      if (directiveLine !== null) {
+        issues.push({
+          line: directiveLine,
+          message: "Directives apply to a scene, so they need scene text in the same block.",
+        });
+      }
+      return;
+    }
+    const last = block[block.length - 1];
+    scenes.push({
+      ...options,
+      text: words.map((word) => input.slice(word.start, word.end)).join(" "),
+      title,
+      line: block[0].number,
+      start: block[0].start,
+      end: last.start + last.text.trimEnd().length,
+      words,
+    });
+  };
+
+  let block: SourceLine[] = [];
+  for (const line of splitLines(input)) {
+    if (line.text.trim() === "" || SEPARATOR_PATTERN.test(line.text)) {
+      if (block.length > 0) parseBlock(block);
+      block = [];
+    } else {
+      block.push(line);
+    }
+  }
+  if (block.length > 0) parseBlock(block);
+  return { mode: "script", scenes, issues };
+}
+
+export function formatScriptIssue(issue: ScriptIssue) {
+  return `Line ${issue.line}: ${issue.message}`;
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { locateSentences } from "./sentences";
+
+function sentences(input: string) {
+  return locateSentences(input).map((range) => range.text);
+}
+
+describe("locateSentences", () => {
+  it("splits at sentence-ending punctuation", () => {
+    expect(sentences("One beat. Two beats! Three beats?")).toEqual([
+      "One beat",
+      "Two beats",
+      "Three beats",
+    ]);
+  });
+
+  it("keeps dotted abbreviations and listed ones inside a sentence", () => {
+    expect(sentences("Ship to the U.S. and Canada. Next one.")).toEqual([
+      "Ship to the U.S. and Canada",
+      "Next one",
+    ]);
+    expect(sentences("Colours, e.g. red. Dr. Smith agrees.")).toEqual([
+      "Colours, e.g. red",
+      "Dr. Smith agrees",
+    ]);
+  });
+
+  it("ends a sentence after a single letter followed by a capital", () => {
+    expect(sentences("I love plan B. Next one.")).toEqual(["I love plan B", "Next one"]);
+    expect(sentences("Take vitamin C. Then rest.")).toEqual(["Take vitamin C", "Then rest"]);
+  });
+
+  it("keeps a single letter inside a sentence when lower case follows", () => {
+    expect(sentences("See fig. a. below for details. Done.")).toEqual([
+      "See fig. a. below for details",
+      "Done",
+    ]);
+  });
+
+  it("leaves version numbers and URLs whole", () => {
+    expect(sentences("Version 2.0 is live at example.com now. Try it.")).toEqual([
+      "Version 2.0 is live at example.com now",
+      "Try it",
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import type { SentenceRange } from "./types";
+
+// A full stop after a dotted abbreviation such as "e.g." or "U.S.", or one of these, does not
+// end a sentence. After a single letter it only does not when the text carries on in lower
+// case, so "plan B. Next" still splits.
+const ABBREVIATIONS = new Set([
+  "approx",
+  "dr",
+  "fig",
+  "inc",
+  "jr",
+  "ltd",
+  "mr",
+  "mrs",
+  "ms",
+  "prof",
+  "sr",
+  "st",
+  "vs",
+]);
+
+// Sentence-ending punctuation only counts before whitespace, so "v2.0", "3.5" and URLs stay
+// whole. Closing quotes and brackets after it belong to the sentence.
+const BOUNDARY_PATTERN = /\n|[.!?]+(["'”’)\]]*)(?=\s|$)/g;
+
+function endsWithAbbreviation(text: string, rest: string) {
+  const word = text.slice(text.search(/\S+$/)).replace(/^[("'“‘[]+/, "");
+  if (/^[A-Za-z]$/.test(word)) return /^\s+\p{Ll}/u.test(rest);
+  return /^(?:[A-Za-z]\.)+[A-Za-z]$/.test(word) || ABBREVIATIONS.has(word.toLowerCase());
+}
+
+export function locateSentences(input: string): SentenceRange[] {
+  const ranges: SentenceRange[] = [];
+  const push = (start: number, end: number) => {
+    const raw = input.slice(start, end);
+    const text = raw.trim();
+    if (!text) return;
+    const offset = start + raw.indexOf(text);
+    ranges.push({ text, start: offset, end: offset + text.length });
+  };
+  let start = 0;
+  for (const match of input.matchAll(BOUNDARY_PATTERN)) {
+    const boundary = match.index;
+    if (
+      match[0] === "." &&
+      endsWithAbbreviation(input.slice(start, boundary), input.slice(boundary + 1))
+    ) {
+      continue;
+    }
+    push(start, match[1] ? boundary + match[0].length : boundary);
+    start = boundary + match[0].length;
+  }
+  push(start, input.length);
+  return ranges;
+}
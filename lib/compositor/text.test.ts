@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { createMockContext } from "@/test/mock-context";
+import { fitText, layoutText, segmentWords, splitOverflowingText, textDirection } from "./text";
+
+// The mock context measures text as half an em per character: 5px at this size.
+function createContext() {
+  const mock = createMockContext();
+  mock.ctx.font = "10px sans-serif";
+  return mock;
+}
+
+function lineTexts(text: string, maxWidth: number) {
+  return layoutText(createContext().ctx, text, maxWidth).map((line) => line.text);
+}
+
+function measurements(calls: { method: string }[]) {
+  return calls.filter((call) => call.method === "measureText").length;
+}
+
+const BOX = { width: 100, height: 40, fontSize: 10, lineHeight: 20 };
+
+describe("layoutText", () => {
+  it("breaks lines between words", () => {
+    expect(lineTexts("aaa bbb ccc", 35)).toEqual(["aaa bbb", "ccc"]);
+    expect(lineTexts("aaa bbb ccc", 34)).toEqual(["aaa", "bbb", "ccc"]);
+  });
+
+  it("breaks a word wider than the line by character", () => {
+    expect(lineTexts("abcdefghij xy", 20)).toEqual(["abcd", "efgh", "ij", "xy"]);
+  });
+
+  it("keeps offsets into the text it was given", () => {
+    const [first, second] = layoutText(createContext().ctx, "one two three", 35);
+    expect(first).toMatchObject({ text: "one two", start: 0, end: 7 });
+    expect(second).toMatchObject({ text: "three", start: 8, end: 13 });
+    expect(first.words.map((word) => [word.text, word.x])).toEqual([
+      ["one", 0],
+      ["two", 20],
+    ]);
+  });
+
+  it("reverses right-to-left runs inside left-to-right text", () => {
+    const [line] = layoutText(createContext().ctx, "hello שלום עולם world", 1000);
+    expect(line.direction).toBe("ltr");
+    expect(line.words.map((word) => word.text)).toEqual(["hello", "עולם", "שלום", "world"]);
+    expect(line.words.map((word) => word.direction)).toEqual(["ltr", "rtl", "rtl", "ltr"]);
+    const [, right] = line.words;
+    expect(right.x).toBe(30);
+  });
+
+  it("keeps left-to-right runs in order inside right-to-left text", () => {
+    const [line] = layoutText(createContext().ctx, "שלום hello world עולם", 1000);
+    expect(textDirection("שלום hello")).toBe("rtl");
+    expect(line.direction).toBe("rtl");
+    expect(line.words.map((word) => word.text)).toEqual(["עולם", "hello", "world", "שלום"]);
+  });
+});
+
+describe("segmentWords", () => {
+  it("divides scripts written without spaces into words", () => {
+    const text = "東京タワーに行きました";
+    const words = segmentWords(text);
+    expect(words.length).toBeGreaterThan(1);
+    expect(words.map((word) => word.text).join("")).toBe(text);
+    for (const word of words) {
+      expect(text.slice(word.start, word.end)).toBe(word.text);
+    }
+  });
+
+  it("keeps closing punctuation with the word before it", () => {
+    const words = segmentWords("今日は晴れです。明日は雨です。").map((word) => word.text);
+    expect(words.some((word) => /^[。、]/.test(word))).toBe(false);
+    expect(words.some((word) => word.endsWith("です。"))).toBe(true);
+  });
+
+  it("wraps unspaced text without a space between the pieces", () => {
+    const lines = lineTexts("今日は晴れです。明日は雨です。", 40);
+    expect(lines.length).toBeGreaterThan(1);
+    expect(lines.join("")).toBe("今日は晴れです。明日は雨です。");
+    for (const line of lines) {
+      expect(line).not.toMatch(/^[。、]/);
+    }
+  });
+});
+
+describe("fitText", () => {
+  it("keeps the full size when the text fits", () => {
+    const { ctx } = createContext();
+    const layout = fitText(ctx, "short line", BOX, "sans-serif");
+    expect(layout).toMatchObject({ fontSize: 10, lineHeight: 20, overflow: false });
+    expect(ctx.font).toBe("10px sans-serif");
+  });
+
+  it("shrinks the text until it fits and leaves the font at that size", () => {
+    const { ctx } = createContext();
+    const layout = fitText(ctx, "a".repeat(19) + " " + "b".repeat(19) + " c", BOX, "serif");
+    expect(layout.overflow).toBe(false);
+    expect(layout.fontSize).toBeLessThan(10);
+    expect(layout.lines).toHaveLength(2);
+    expect(ctx.font).toBe(`${layout.fontSize}px serif`);
+  });
+
+  it("reports overflow when even the smallest size is too big", () => {
+    const layout = fitText(createContext().ctx, "word ".repeat(40), BOX, "sans-serif");
+    expect(layout.overflow).toBe(true);
+    expect(layout.fontSize).toBe(6);
+  });
+
+  it("reuses the layout for the same text, box and font", () => {
+    const { ctx, calls } = createContext();
+    const text = "word ".repeat(40);
+    const first = fitText(ctx, text, BOX, "sans-serif");
+    const measured = measurements(calls);
+    ctx.font = "30px monospace";
+    expect(fitText(ctx, text, BOX, "sans-serif")).toBe(first);
+    expect(measurements(calls) - measured).toBe(1);
+    expect(ctx.font).toBe("6px sans-serif");
+    expect(fitText(ctx, text, { ...BOX, width: 200 }, "sans-serif")).not.toBe(first);
+    expect(fitText(ctx, text, BOX, "serif")).not.toBe(first);
+  });
+});
+
+describe("splitOverflowingText", () => {
+  it("returns the whole text when it fits at full size", () => {
+    const { ctx } = createContext();
+    expect(splitOverflowingText(ctx, "aaa bbb", BOX, "sans-serif")).toEqual([
+      { start: 0, end: 7 },
+    ]);
+  });
+
+  it("shares the lines out evenly between parts that each fit", () => {
+    const { ctx } = createContext();
+    // Five lines of one word each, two lines to a part at full size.
+    const text = ["a", "b", "c", "d", "e"].map((letter) => letter.repeat(15)).join(" ");
+    const ranges = splitOverflowingText(ctx, text, BOX, "sans-serif");
+    expect(ranges.map(({ start, end }) => text.slice(start, end))).toEqual([
+      `${"a".repeat(15)} ${"b".repeat(15)}`,
+      `${"c".repeat(15)} ${"d".repeat(15)}`,
+      "e".repeat(15),
+    ]);
+  });
+});
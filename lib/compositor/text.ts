@@ -0,0 +1,370 @@
+import type { RenderContext2D, TextRange } from "./types";
+
+export type TextDirection = "ltr" | "rtl";
+
+/** A word placed on a line. `start` and `end` are offsets into the text that was laid out. */
+export interface LayoutWord extends TextRange {
+  text: string;
+  /** Where the word starts in `LayoutLine.text`. */
+  offset: number;
+  /** Left edge, measured from the left edge of the line. */
+  x: number;
+  width: number;
+  direction: TextDirection;
+}
+
+export interface LayoutLine extends TextRange {
+  text: string;
+  width: number;
+  /** Base direction of the paragraph the line belongs to. */
+  direction: TextDirection;
+  /** Left to right as drawn, which is the reverse of reading order for right-to-left runs. */
+  words: LayoutWord[];
+}
+
+/** The room scene text may take up, and the type size it starts from. */
+export interface TextBox {
+  width: number;
+  height: number;
+  fontSize: number;
+  lineHeight: number;
+}
+
+export interface TextLayout {
+  lines: LayoutLine[];
+  fontSize: number;
+  lineHeight: number;
+  /** The text needs more room than the box has, even at the smallest size. */
+  overflow: boolean;
+}
+
+/** Text is never shrunk below this fraction of the box's font size. */
+export const MIN_TEXT_SCALE = 0.6;
+const TEXT_SCALE_STEP = 0.05;
+
+const RTL_LETTER =
+  /[\p{Script=Hebrew}\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}]/u;
+const STRONG_CHARACTER = /[\p{L}\p{Nd}]/u;
+// Scripts written without spaces, and their full-width punctuation; lines may break between
+// their words.
+const UNSPACED_SCRIPT =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}\u3000-\u303f\uff00-\uffef]/u;
+// Punctuation that must not start a line, and brackets that must not end one.
+const NO_BREAK_BEFORE = /^[、。，．・：；？！ー…‥」』）】〉》〕｝〗”’,.!?:;)\]}%]/;
+const NO_BREAK_AFTER = /[「『（【〈《〔｛〖“‘(\[{]$/;
+
+const wordSegmenter =
+  typeof Intl !== "undefined" && "Segmenter" in Intl
+    ? new Intl.Segmenter(undefined, { granularity: "word" })
+    : null;
+const graphemeSegmenter =
+  typeof Intl !== "undefined" && "Segmenter" in Intl
+    ? new Intl.Segmenter(undefined, { granularity: "grapheme" })
+    : null;
+
+/** A piece of text a line may break before. */
+interface Token extends TextRange {
+  text: string;
+  /** Whitespace separates it from the token before. */
+  spaced: boolean;
+}
+
+export function splitGraphemes(text: string) {
+  return graphemeSegmenter
+    ? Array.from(graphemeSegmenter.segment(text), ({ segment }) => segment)
+    : Array.from(text);
+}
+
+function splitUnspaced(run: string) {
+  if (!UNSPACED_SCRIPT.test(run)) return [run];
+  const segments = wordSegmenter
+    ? Array.from(wordSegmenter.segment(run), ({ segment }) => segment)
+    : Array.from(run);
+  const pieces: string[] = [];
+  for (const segment of segments) {
+    const previous = pieces[pieces.length - 1];
+    const canBreak =
+      previous !== undefined &&
+      (UNSPACED_SCRIPT.test(segment.charAt(0)) || UNSPACED_SCRIPT.test(previous.slice(-1))) &&
+      !NO_BREAK_BEFORE.test(segment) &&
+      !NO_BREAK_AFTER.test(previous);
+    if (previous === undefined || canBreak) {
+      pieces.push(segment);
+    } else {
+      pieces[pieces.length - 1] = previous + segment;
+    }
+  }
+  return pieces;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    let start = match.index ?? 0;
+    splitUnspaced(match[0]).forEach((piece, index) => {
+      tokens.push({
+        text: piece,
+        start,
+        end: start + piece.length,
+        spaced: index === 0 && tokens.length > 0,
+      });
+      start += piece.length;
+    });
+  }
+  return tokens;
+}
+
+/**
+ * Word ranges a scene can target, such as highlights: spaces separate words, and scripts
+ * written without spaces are divided with `Intl.Segmenter`.
+ */
+export function segmentWords(text: string): (TextRange & { text: string })[] {
+  return tokenize(text).map(({ text: word, start, end }) => ({ text: word, start, end }));
+}
+
+function wordDirection(text: string): TextDirection | null {
+  for (const char of text) {
+    if (RTL_LETTER.test(char)) return "rtl";
+    if (STRONG_CHARACTER.test(char)) return "ltr";
+  }
+  return null;
+}
+
+/** Direction of the first letter or digit, as browsers pick a paragraph's direction. */
+export function textDirection(text: string): TextDirection {
+  return wordDirection(text) ?? "ltr";
+}
+
+function joinTokens(tokens: Token[]) {
+  return tokens.map((token, index) => (index > 0 && token.spaced ? ` ${token.text}` : token.text));
+}
+
+/** Breaks a token wider than the line by grapheme, so nothing runs off the frame. */
+function breakToken(ctx: RenderContext2D, token: Token, maxWidth: number): Token[] {
+  if (ctx.measureText(token.text).width <= maxWidth) return [token];
+  const pieces: Token[] = [];
+  let start = token.start;
+  let text = "";
+  for (const grapheme of splitGraphemes(token.text)) {
+    if (text && ctx.measureText(text + grapheme).width > maxWidth) {
+      const spaced = pieces.length === 0 && token.spaced;
+      pieces.push({ text, start, end: start + text.length, spaced });
+      start += text.length;
+      text = "";
+    }
+    text += grapheme;
+  }
+  pieces.push({ text, start, end: token.end, spaced: pieces.length === 0 && token.spaced });
+  return pieces;
+}
+
+/**
+ * Orders words for drawing with a simplified Unicode bidi algorithm: each word takes the
+ * direction of its first strong character, neutral words follow their neighbours, and
+ * runs are reversed level by level.
+ */
+function visualOrder(tokens: Token[], base: TextDirection) {
+  const directions = tokens.map((token) => wordDirection(token.text));
+  const resolved = directions.map((direction, index) => {
+    if (direction) return direction;
+    const before = directions.slice(0, index).reverse().find(Boolean) ?? base;
+    const after = directions.slice(index + 1).find(Boolean) ?? base;
+    return before === after ? before : base;
+  });
+  const levels = resolved.map((direction) =>
+    base === "rtl" ? (direction === "rtl" ? 1 : 2) : direction === "rtl" ? 1 : 0,
+  );
+  const order = tokens.map((_, index) => index);
+  for (let level = Math.max(0, ...levels); level >= 1; level--) {
+    for (let i = 0; i < order.length; i++) {
+      if (levels[order[i]] < level) continue;
+      let end = i;
+      while (end + 1 < order.length && levels[order[end + 1]] >= level) end++;
+      order.splice(i, end - i + 1, ...order.slice(i, end + 1).reverse());
+      i = end;
+    }
+  }
+  return { order, directions: resolved };
+}
+
+function placeLine(ctx: RenderContext2D, tokens: Token[], base: TextDirection): LayoutLine {
+  const parts = joinTokens(tokens);
+  const text = parts.join("");
+  // Where each token's text starts in `text`, after any space joined in front of it.
+  const offsets: number[] = [];
+  parts.reduce((length, part, index) => {
+    offsets.push(length + part.length - tokens[index].text.length);
+    return length + part.length;
+  }, 0);
+  const { order, directions } = visualOrder(tokens, base);
+  const bidi = directions.some((direction) => direction === "rtl");
+  const spaceWidth = ctx.measureText(" ").width;
+
+  let cursor = 0;
+  const words = order.map((index, position): LayoutWord => {
+    const token = tokens[index];
+    const width = ctx.measureText(token.text).width;
+    let x: number;
+    if (bidi) {
+      // Visual neighbours keep the gap that followed whichever of them is read first.
+      const previous = order[position - 1];
+      const gapToken = previous === undefined ? null : tokens[Math.max(previous, index)];
+      if (gapToken?.spaced) cursor += spaceWidth;
+      x = cursor;
+      cursor += width;
+    } else {
+      // Measuring the whole prefix keeps kerning identical to drawing the line in one go.
+      x = ctx.measureText(text.slice(0, offsets[index])).width;
+    }
+    return {
+      text: token.text,
+      start: token.start,
+      end: token.end,
+      offset: offsets[index],
+      x,
+      width,
+      direction: directions[index],
+    };
+  });
+
+  return {
+    text,
+    start: tokens[0].start,
+    end: tokens[tokens.length - 1].end,
+    width: bidi ? cursor : ctx.measureText(text).width,
+    direction: base,
+    words,
+  };
+}
+
+/** Wraps `text` to `maxWidth` in the context's current font. */
+export function layoutText(ctx: RenderContext2D, text: string, maxWidth: number): LayoutLine[] {
+  const base = textDirection(text);
+  const lines: Token[][] = [];
+  let line: Token[] = [];
+  for (const token of tokenize(text)) {
+    for (const piece of breakToken(ctx, token, maxWidth)) {
+      const tentative = [...line, piece];
+      if (line.length > 0 && ctx.measureText(joinTokens(tentative).join("")).width > maxWidth) {
+        lines.push(line);
+        line = [piece];
+      } else {
+        line = tentative;
+      }
+    }
+  }
+  if (line.length > 0) {
+    lines.push(line);
+  }
+  return lines.map((tokens) => placeLine(ctx, tokens, base));
+}
+
+export function wrapLines(ctx: RenderContext2D, text: string, maxWidth: number) {
+  return layoutText(ctx, text, maxWidth).map((line) => line.text);
+}
+
+function fontAt(fontSize: number, fontFamily: string) {
+  return `${fontSize}px ${fontFamily}`;
+}
+
+/** Layouts kept per context; a scene's caption is fitted on every frame it is drawn. */
+const MAX_CACHED_LAYOUTS = 64;
+
+interface CachedLayout {
+  /** The width of the text at full size, which changes if a font loads or is swapped. */
+  probe: number;
+  layout: TextLayout;
+}
+
+const layoutCache = new WeakMap<RenderContext2D, Map<string, CachedLayout>>();
+
+/**
+ * Lays out `text` in `box`, shrinking the type in small steps until every line fits, down
+ * to `MIN_TEXT_SCALE`. Leaves `ctx.font` set to the size that was chosen. Layouts are
+ * cached per context, so the returned layout must not be changed.
+ */
+export function fitText(
+  ctx: RenderContext2D,
+  text: string,
+  box: TextBox,
+  fontFamily: string,
+): TextLayout {
+  let cache = layoutCache.get(ctx);
+  if (!cache) {
+    cache = new Map();
+    layoutCache.set(ctx, cache);
+  }
+  const key = [fontFamily, box.width, box.height, box.fontSize, box.lineHeight, text].join("\n");
+  ctx.font = fontAt(box.fontSize, fontFamily);
+  const probe = ctx.measureText(text).width;
+  const cached = cache.get(key);
+  if (cached?.probe === probe) {
+    // Moving the entry to the end keeps the layouts in use when old ones are evicted.
+    cache.delete(key);
+    cache.set(key, cached);
+    ctx.font = fontAt(cached.layout.fontSize, fontFamily);
+    return cached.layout;
+  }
+
+  const layout = layoutToFit(ctx, text, box, fontFamily);
+  cache.delete(key);
+  cache.set(key, { probe, layout });
+  if (cache.size > MAX_CACHED_LAYOUTS) {
+    const [oldest] = cache.keys();
+    cache.delete(oldest);
+  }
+  return layout;
+}
+
+function layoutToFit(
+  ctx: RenderContext2D,
+  text: string,
+  box: TextBox,
+  fontFamily: string,
+): TextLayout {
+  let layout: TextLayout | null = null;
+  for (let scale = 1; scale >= MIN_TEXT_SCALE - 1e-9; scale -= TEXT_SCALE_STEP) {
+    const fontSize = Math.round(box.fontSize * scale);
+    const lineHeight = box.lineHeight * (fontSize / box.fontSize);
+    ctx.font = fontAt(fontSize, fontFamily);
+    const lines = layoutText(ctx, text, box.width);
+    const overflow = lines.length * lineHeight > box.height + 0.5;
+    layout = { lines, fontSize, lineHeight, overflow };
+    if (!overflow) break;
+  }
+  return layout ?? { lines: [], fontSize: box.fontSize, lineHeight: box.lineHeight, overflow: false };
+}
+
+/**
+ * Divides text that overflows `box` at full size into parts that each fit without
+ * shrinking. Lines are shared out evenly so the last part is not left with a stub.
+ */
+export function splitOverflowingText(
+  ctx: RenderContext2D,
+  text: string,
+  box: TextBox,
+  fontFamily: string,
+): TextRange[] {
+  ctx.font = fontAt(box.fontSize, fontFamily);
+  const lines = layoutText(ctx, text, box.width);
+  const linesPerPart = Math.max(1, Math.floor((box.height + 0.5) / box.lineHeight));
+  const parts = Math.ceil(lines.length / linesPerPart);
+  const size = Math.ceil(lines.length / Math.max(1, parts));
+  const ranges: TextRange[] = [];
+  for (let first = 0; first < lines.length; first += size) {
+    const group = lines.slice(first, first + size);
+    ranges.push({ start: group[0].start, end: group[group.length - 1].end });
+  }
+  return ranges;
+}
+
+/** A context for measuring text outside of a render, or `null` where none is available. */
+export function createMeasureContext(): RenderContext2D | null {
+  if (typeof OffscreenCanvas !== "undefined") {
+    return new OffscreenCanvas(1, 1).getContext("2d");
+  }
+  if (typeof document !== "undefined") {
+    return document.createElement("canvas").getContext("2d");
+  }
+  return null;
+}
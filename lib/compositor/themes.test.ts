@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest";
+import { isBuiltInTheme } from "./themes";
+
+describe("isBuiltInTheme", () => {
+  it("knows the built-in ids", () => {
+    expect(isBuiltInTheme("cosmic")).toBe(true);
+    expect(isBuiltInTheme("my-theme")).toBe(false);
+  });
+
+  it("does not count inherited object keys as built-in", () => {
+    expect(isBuiltInTheme("constructor")).toBe(false);
+    expect(isBuiltInTheme("toString")).toBe(false);
+  });
+});
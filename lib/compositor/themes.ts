@@ -0,0 +1,94 @@
+import { DEFAULT_LAYERS } from "./layers";
+import type { FontRole, Palette, Theme, VisualStyle } from "./types";
+
+const BUILT_IN_PALETTES: Record<VisualStyle, Palette[]> = {
+  cosmic: [
+    ["#1b0033", "#5c00b3"],
+    ["#0b1a4a", "#170e75"],
+    ["#2a0a4a", "#4a117a"],
+    ["#05010f", "#2d1c7a"],
+  ],
+  tropical: [
+    ["#ff8a5c", "#ffd452"],
+    ["#ff6b6b", "#ffd166"],
+    ["#ffbe0b", "#ffb4a2"],
+    ["#ff9f1c", "#ffbf69"],
+  ],
+  noir: [
+    ["#0b0b0b", "#1f1f1f"],
+    ["#111111", "#2b2b2b"],
+    ["#090909", "#202020"],
+    ["#131313", "#292929"],
+  ],
+  sunrise: [
+    ["#ff758f", "#ffe2e2"],
+    ["#ff9b73", "#ffc773"],
+    ["#ff6f91", "#ff9671"],
+    ["#f9ada0", "#f8ede3"],
+  ],
+  aqua: [
+    ["#003f5c", "#2f4b7c"],
+    ["#005377", "#3185fc"],
+    ["#2f4b7c", "#00b8a9"],
+    ["#1f4068", "#2a9d8f"],
+  ],
+  mono: [
+    ["#111827", "#374151"],
+    ["#0f172a", "#1f2937"],
+    ["#18181b", "#27272a"],
+    ["#1a202c", "#2d3748"],
+  ],
+};
+
+const BUILT_IN_NAMES: Record<VisualStyle, string> = {
+  cosmic: "Cosmic",
+  tropical: "Tropical",
+  noir: "Noir",
+  sunrise: "Sunrise",
+  aqua: "Aqua",
+  mono: "Mono",
+};
+
+export const DEFAULT_THEME_FONTS = {
+  title: "'Space Grotesk', sans-serif",
+  body: "'DM Sans', sans-serif",
+  sceneNumber: "'Space Grotesk', sans-serif",
+};
+
+export const FONT_ROLE_LABELS: Record<FontRole, string> = {
+  title: "Title",
+  body: "Body",
+  sceneNumber: "Scene number",
+};
+
+export const BUILT_IN_THEMES: Theme[] = (Object.keys(BUILT_IN_PALETTES) as VisualStyle[]).map(
+  (id) => ({
+    id,
+    name: BUILT_IN_NAMES[id],
+    palettes: BUILT_IN_PALETTES[id],
+    angle: 135,
+    colors: {
+      title: "#ffffff",
+      body: "#ffffff",
+      sceneNumber: "#ffffff",
+      accent: "#ffffff",
+    },
+    fonts: { ...DEFAULT_THEME_FONTS },
+    overlayOpacity: 0.08,
+    layers: DEFAULT_LAYERS,
+  }),
+);
+
+export const DEFAULT_THEME = BUILT_IN_THEMES[0];
+
+export function isBuiltInTheme(id: string): id is VisualStyle {
+  return Object.hasOwn(BUILT_IN_PALETTES, id);
+}
+
+export function findTheme(themes: Theme[], id: string) {
+  return themes.find((theme) => theme.id === id) ?? null;
+}
+
+export function paletteToCss(palette: Palette, angle = 135) {
+  return `linear-gradient(${angle}deg, ${palette.join(", ")})`;
+}
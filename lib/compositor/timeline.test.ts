@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { SENTENCES, createSettings, createTimeline } from "@/test/fixtures";
+import { DEFAULT_THEME } from "./themes";
+import { createPaletteTimeline, getSceneTimings, getTotalFrames, resolveFrame } from "./timeline";
+
+describe("createPaletteTimeline", () => {
+  it("makes one scene per sentence with the theme's palettes in turn", () => {
+    const timeline = createTimeline();
+    expect(timeline.map((slice) => slice.sentence)).toEqual(SENTENCES);
+    expect(timeline.map((slice) => slice.index)).toEqual([0, 1, 2]);
+    const { palettes } = DEFAULT_THEME;
+    timeline.forEach((slice, index) => {
+      expect(slice.palette).toEqual(palettes[index % palettes.length]);
+      expect(slice.durationSeconds).toBeNull();
+      expect(slice.textAlign).toBe("center");
+    });
+  });
+
+  it("applies overrides by scene key", () => {
+    const [first] = createTimeline();
+    const timeline = createPaletteTimeline(SENTENCES, DEFAULT_THEME, {
+      [first.key]: { durationSeconds: 5, textAlign: "left" },
+    });
+    expect(timeline[0].durationSeconds).toBe(5);
+    expect(timeline[0].textAlign).toBe("left");
+    expect(timeline[1].durationSeconds).toBeNull();
+  });
+
+  it("gives repeated sentences distinct keys", () => {
+    const timeline = createTimeline(["Again", "Again"]);
+    expect(timeline[0].key).not.toBe(timeline[1].key);
+  });
+});
+
+describe("scene timing", () => {
+  const settings = createSettings({ fps: 24, segmentSeconds: 2 });
+
+  it("gives scenes without a duration one beat each", () => {
+    const timeline = createTimeline();
+    expect(getSceneTimings(timeline, settings)).toEqual([
+      { startFrame: 0, frameCount: 48 },
+      { startFrame: 48, frameCount: 48 },
+      { startFrame: 96, frameCount: 48 },
+    ]);
+    expect(getTotalFrames(timeline, settings)).toBe(144);
+  });
+
+  it("rounds scene durations to whole frames", () => {
+    const timeline = createTimeline().map((slice, index) =>
+      index === 1 ? { ...slice, durationSeconds: 1.01 } : slice,
+    );
+    expect(getSceneTimings(timeline, settings).map((timing) => timing.frameCount)).toEqual([
+      48, 24, 48,
+    ]);
+    expect(getTotalFrames(timeline, settings)).toBe(120);
+  });
+
+  it("resolves frames to their scene and progress", () => {
+    const timeline = createTimeline();
+    expect(resolveFrame(timeline, settings, 0)).toMatchObject({
+      sliceIndex: 0,
+      frameInSlice: 0,
+      sliceProgress: 0,
+    });
+    expect(resolveFrame(timeline, settings, 60)).toMatchObject({
+      sliceIndex: 1,
+      frameInSlice: 12,
+      sliceProgress: 0.25,
+    });
+    expect(resolveFrame(timeline, settings, 143)).toMatchObject({
+      sliceIndex: 2,
+      frameInSlice: 47,
+    });
+  });
+
+  it("clamps frames outside the timeline", () => {
+    const timeline = createTimeline();
+    expect(resolveFrame(timeline, settings, -5)).toMatchObject({ sliceIndex: 0, frameInSlice: 0 });
+    expect(resolveFrame(timeline, settings, 1000)).toMatchObject({
+      sliceIndex: 2,
+      frameInSlice: 47,
+    });
+  });
+
+  it("refuses an empty timeline", () => {
+    expect(() => resolveFrame([], settings, 0)).toThrow("empty timeline");
+  });
+});
@@ -0,0 +1,151 @@
+import { computeLayout, getCaptionBox, getOutputDimensions } from "./layout";
+import { keyScenes } from "./scenes";
+import { parseScript, type ScriptScene } from "./script";
+import { fitText, splitOverflowingText } from "./text";
+import type {
+  FrameState,
+  GenerationSettings,
+  RenderContext2D,
+  SceneOverrides,
+  SceneTiming,
+  TextRange,
+  Theme,
+  TimelineSlice,
+} from "./types";
+
+export function splitSentences(input: string): string[] {
+  return parseScript(input).scenes.map((scene) => scene.text);
+}
+
+/**
+ * Builds the timeline. `scenes` carries options from script directives, which sit between
+ * the per-scene overrides edited in the timeline and the project defaults.
+ */
+export function createPaletteTimeline(
+  sentences: string[],
+  theme: Theme,
+  overrides: SceneOverrides = {},
+  scenes: ScriptScene[] = [],
+): TimelineSlice[] {
+  const keys = keyScenes(sentences);
+  return sentences.map((sentence, index) => {
+    const override = overrides[keys[index]] ?? {};
+    const scene = scenes[index];
+    const palettes = (scene?.theme ?? theme).palettes;
+    return {
+      key: keys[index],
+      sentence,
+      index,
+      title: scene?.title ?? null,
+      theme: scene?.theme ?? null,
+      palette: override.palette ?? palettes[index % palettes.length],
+      durationSeconds: override.durationSeconds ?? scene?.durationSeconds ?? null,
+      textAlign: override.textAlign ?? scene?.textAlign ?? "center",
+      transition: override.transition ?? scene?.transition ?? null,
+      layerToggles: override.layerToggles ?? {},
+      animation: override.animation ?? scene?.animation ?? null,
+      assets: override.assets ?? [],
+      highlights: override.highlights ?? [],
+      continuation: null,
+    };
+  });
+}
+
+function shiftRanges(ranges: TextRange[], { start, end }: TextRange): TextRange[] {
+  return ranges.flatMap((range) => {
+    const from = Math.max(range.start, start);
+    const to = Math.min(range.end, end);
+    return from < to ? [{ start: from - start, end: to - start }] : [];
+  });
+}
+
+/**
+ * Turns scenes whose text does not fit the frame, even once shrunk, into a run of
+ * continuation scenes. Text is measured with `ctx`, so run it again for each output size.
+ * A fixed duration is shared between the parts by length; otherwise each part gets a beat.
+ */
+export function splitOverflowingScenes(
+  ctx: RenderContext2D,
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+): TimelineSlice[] {
+  const { width, height } = getOutputDimensions(settings.output);
+  const box = getCaptionBox(computeLayout(width, height), settings.captionStyle);
+  return timeline.flatMap((slice) => {
+    const fontFamily = (slice.theme ?? settings.theme).fonts.body;
+    if (!fitText(ctx, slice.sentence, box, fontFamily).overflow) {
+      return [slice];
+    }
+    const ranges = splitOverflowingText(ctx, slice.sentence, box, fontFamily);
+    const length = ranges.reduce((total, range) => total + range.end - range.start, 0);
+    return ranges.map((range, part) => ({
+      ...slice,
+      sentence: slice.sentence.slice(range.start, range.end),
+      durationSeconds:
+        slice.durationSeconds === null
+          ? null
+          : (slice.durationSeconds * (range.end - range.start)) / length,
+      transition: part === 0 ? slice.transition : null,
+      highlights: shiftRanges(slice.highlights, range),
+      continuation: { part, parts: ranges.length },
+    }));
+  });
+}
+
+export function getSegmentFrames(settings: GenerationSettings) {
+  return Math.max(1, Math.round(settings.fps * settings.segmentSeconds));
+}
+
+export function getSliceFrames(slice: TimelineSlice, settings: GenerationSettings) {
+  if (slice.durationSeconds === null) {
+    return getSegmentFrames(settings);
+  }
+  return Math.max(1, Math.round(settings.fps * slice.durationSeconds));
+}
+
+export function getSceneTimings(
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+): SceneTiming[] {
+  let startFrame = 0;
+  return timeline.map((slice) => {
+    const frameCount = getSliceFrames(slice, settings);
+    const timing = { startFrame, frameCount };
+    startFrame += frameCount;
+    return timing;
+  });
+}
+
+export function getTotalFrames(timeline: TimelineSlice[], settings: GenerationSettings) {
+  return timeline.reduce((total, slice) => total + getSliceFrames(slice, settings), 0);
+}
+
+export function frameIndexAtTime(settings: GenerationSettings, seconds: number) {
+  return Math.max(0, Math.floor(seconds * settings.fps));
+}
+
+export function resolveFrame(
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+  frameIndex: number,
+): FrameState {
+  if (timeline.length === 0) {
+    throw new Error("Cannot resolve a frame for an empty timeline.");
+  }
+  const timings = getSceneTimings(timeline, settings);
+  const target = Math.max(0, frameIndex);
+  let sliceIndex = timings.findIndex(
+    (timing) => target < timing.startFrame + timing.frameCount,
+  );
+  if (sliceIndex === -1) {
+    sliceIndex = timeline.length - 1;
+  }
+  const { startFrame, frameCount } = timings[sliceIndex];
+  const frameInSlice = Math.min(target - startFrame, frameCount - 1);
+  return {
+    slice: timeline[sliceIndex],
+    sliceIndex,
+    frameInSlice,
+    sliceProgress: frameInSlice / frameCount,
+  };
+}
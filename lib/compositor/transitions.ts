@@ -0,0 +1,157 @@
+import { getSceneTimings } from "./timeline";
+import type {
+  ActiveTransition,
+  FrameState,
+  GenerationSettings,
+  RenderContext2D,
+  TimelineSlice,
+  TransitionSettings,
+  TransitionType,
+} from "./types";
+
+export const DEFAULT_TRANSITION: TransitionSettings = {
+  type: "crossfade",
+  durationSeconds: 0.6,
+  direction: "left",
+};
+
+export const TRANSITION_LABELS: Record<TransitionType, string> = {
+  cut: "Hard cut",
+  crossfade: "Crossfade",
+  wipe: "Wipe",
+  radial: "Radial reveal",
+  zoom: "Zoom-through",
+  slide: "Slide",
+};
+
+function easeInOut(t: number) {
+  return t * t * (3 - 2 * t);
+}
+
+export function resolveTransition(
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+  frameIndex: number,
+): ActiveTransition | null {
+  const timings = getSceneTimings(timeline, settings);
+  for (let i = 1; i < timeline.length; i++) {
+    const transition = timeline[i].transition ?? settings.transition;
+    if (transition.type === "cut") continue;
+
+    const before = timings[i - 1];
+    const after = timings[i];
+    const overlap = Math.min(
+      Math.round(transition.durationSeconds * settings.fps),
+      before.frameCount,
+      after.frameCount,
+    );
+    if (overlap < 1) continue;
+
+    const windowStart = after.startFrame - Math.floor(overlap / 2);
+    if (frameIndex < windowStart || frameIndex >= windowStart + overlap) continue;
+
+    const outgoingFrame = frameIndex - before.startFrame;
+    const incomingFrame = frameIndex - after.startFrame;
+    return {
+      transition,
+      outgoing: {
+        slice: timeline[i - 1],
+        sliceIndex: i - 1,
+        frameInSlice: outgoingFrame,
+        sliceProgress: outgoingFrame / before.frameCount,
+      },
+      incoming: {
+        slice: timeline[i],
+        sliceIndex: i,
+        frameInSlice: incomingFrame,
+        sliceProgress: incomingFrame / after.frameCount,
+      },
+      progress: (frameIndex - windowStart + 1) / (overlap + 1),
+    };
+  }
+  return null;
+}
+
+function scaleAroundCenter(ctx: RenderContext2D, scale: number) {
+  const { width, height } = ctx.canvas;
+  ctx.translate(width / 2, height / 2);
+  ctx.scale(scale, scale);
+  ctx.translate(-width / 2, -height / 2);
+}
+
+/**
+ * Paints both scenes of an active transition. `drawScene` must leave the context state as it
+ * found it; the opacity it receives is a multiplier for everything the scene draws.
+ */
+export function composeTransition(
+  ctx: RenderContext2D,
+  active: ActiveTransition,
+  drawScene: (state: FrameState, opacity: number) => void,
+) {
+  const { width, height } = ctx.canvas;
+  const { direction, type } = active.transition;
+  const p = easeInOut(active.progress);
+
+  switch (type) {
+    case "crossfade": {
+      drawScene(active.outgoing, 1);
+      drawScene(active.incoming, p);
+      break;
+    }
+    case "wipe": {
+      drawScene(active.outgoing, 1);
+      ctx.save();
+      ctx.beginPath();
+      if (direction === "right") ctx.rect(0, 0, width * p, height);
+      if (direction === "left") ctx.rect(width * (1 - p), 0, width * p, height);
+      if (direction === "down") ctx.rect(0, 0, width, height * p);
+      if (direction === "up") ctx.rect(0, height * (1 - p), width, height * p);
+      ctx.clip();
+      drawScene(active.incoming, 1);
+      ctx.restore();
+      break;
+    }
+    case "radial": {
+      drawScene(active.outgoing, 1);
+      ctx.save();
+      ctx.beginPath();
+      ctx.arc(width / 2, height / 2, (Math.hypot(width, height) / 2) * p, 0, Math.PI * 2);
+      ctx.clip();
+      drawScene(active.incoming, 1);
+      ctx.restore();
+      break;
+    }
+    case "zoom": {
+      ctx.save();
+      scaleAroundCenter(ctx, 1 + p * 0.6);
+      drawScene(active.outgoing, 1);
+      ctx.restore();
+      ctx.save();
+      scaleAroundCenter(ctx, 0.7 + p * 0.3);
+      drawScene(active.incoming, p);
+      ctx.restore();
+      break;
+    }
+    case "slide": {
+      const horizontal = direction === "left" || direction === "right";
+      const sign = direction === "left" || direction === "up" ? -1 : 1;
+      const distance = horizontal ? width : height;
+      const outgoingOffset = sign * distance * p;
+      const incomingOffset = outgoingOffset - sign * distance;
+      for (const [state, offset] of [
+        [active.outgoing, outgoingOffset],
+        [active.incoming, incomingOffset],
+      ] as const) {
+        ctx.save();
+        ctx.translate(horizontal ? offset : 0, horizontal ? 0 : offset);
+        drawScene(state, 1);
+        ctx.restore();
+      }
+      break;
+    }
+    case "cut": {
+      drawScene(active.incoming, 1);
+      break;
+    }
+  }
+}
@@ -0,0 +1,219 @@
+import type { KeyframeTracks } from "./animation";
+
+/** Ids of the built-in themes. Custom themes use any other id. */
+export type VisualStyle =
+  | "cosmic"
+  | "tropical"
+  | "noir"
+  | "sunrise"
+  | "aqua"
+  | "mono";
+
+export type ExportFormat = "mp4" | "webm";
+
+/** Gradient colour stops, spread evenly from start to end. */
+export type Palette = string[];
+
+export interface ThemeColors {
+  title: string;
+  body: string;
+  sceneNumber: string;
+  /** Orbit ring and satellites. */
+  accent: string;
+}
+
+export interface ThemeFonts {
+  /** CSS font-family list for the title. */
+  title: string;
+  /** CSS font-family list for scene text. */
+  body: string;
+  /** CSS font-family list for the scene number. */
+  sceneNumber: string;
+}
+
+export type FontRole = keyof ThemeFonts;
+
+/** A font a render draws with, and every character it draws in that font. */
+export interface FontUsage {
+  role: FontRole;
+  family: string;
+  text: string;
+}
+
+export type LayerParamValue = number | string | boolean;
+
+/** One entry in a layer stack: a registered layer type plus its parameter values. */
+export interface LayerInstance {
+  /** Unique within the stack, so the same type can be stacked more than once. */
+  id: string;
+  type: string;
+  enabled: boolean;
+  params: Record<string, LayerParamValue>;
+  /**
+   * Moves the whole layer over each scene, sampled at scene progress. `x`, `y` and `blur` are
+   * in fractions of the frame's shorter side; scale and rotation turn about the frame centre.
+   */
+  tracks?: KeyframeTracks;
+}
+
+export interface Theme {
+  id: string;
+  name: string;
+  /** Scenes cycle through these gradients in order. */
+  palettes: Palette[];
+  /** CSS-style gradient angle in degrees; 135 runs from top-left to bottom-right. */
+  angle: number;
+  colors: ThemeColors;
+  fonts: ThemeFonts;
+  /** Opacity of the animated wave overlay, 0–1. */
+  overlayOpacity: number;
+  /** Drawn bottom to top; background layers sit behind the text, foreground layers above it. */
+  layers: LayerInstance[];
+}
+
+export type TransitionType = "cut" | "crossfade" | "wipe" | "radial" | "zoom" | "slide";
+
+export type TransitionDirection = "left" | "right" | "up" | "down";
+
+export interface TransitionSettings {
+  type: TransitionType;
+  /** Overlap between the outgoing and incoming scene, centred on the scene boundary. */
+  durationSeconds: number;
+  /** Travel direction for wipes and slides. */
+  direction: TransitionDirection;
+}
+
+/** Where scene text is drawn: centred over the frame, or as a caption band along the bottom. */
+export type CaptionStyle = "centered" | "lower-third";
+
+export type AspectRatio = "16:9" | "9:16" | "1:1" | "4:5";
+
+/** Named by the short edge of the frame, so 1080p is 1920×1080 landscape or 1080×1920 vertical. */
+export type OutputResolution = "720p" | "1080p" | "4k";
+
+export interface OutputSize {
+  aspectRatio: AspectRatio;
+  resolution: OutputResolution;
+}
+
+export interface GenerationSettings {
+  fps: number;
+  segmentSeconds: number;
+  theme: Theme;
+  output: OutputSize;
+  format: ExportFormat;
+  bitrate: number;
+  transition: TransitionSettings;
+  captionStyle: CaptionStyle;
+}
+
+export type SceneTextAlign = "left" | "center" | "right";
+
+/** Full-bleed behind the whole scene, or a positioned image above the scene text. */
+export type AssetMode = "background" | "overlay";
+
+export type AssetFit = "cover" | "contain" | "fill";
+
+/** Ken Burns pan and zoom for background images. */
+export type AssetMotion = "none" | "zoom-in" | "zoom-out" | "pan-left" | "pan-right";
+
+/** An image from the asset library placed in one scene. */
+export interface SceneAsset {
+  assetId: string;
+  mode: AssetMode;
+  fit: AssetFit;
+  motion: AssetMotion;
+  /** Overlay centre as a fraction of the frame width and height. */
+  x: number;
+  y: number;
+  /** Overlay box as a fraction of the frame; backgrounds always fill the frame. */
+  size: number;
+  opacity: number;
+}
+
+/** Any decoded image the canvas can draw, such as an `ImageBitmap`. */
+export type DrawableImage = CanvasImageSource & { width: number; height: number };
+
+/** Decoded images keyed by asset id. Rendering never waits on these, so decode them first. */
+export type AssetImages = ReadonlyMap<string, DrawableImage>;
+
+export interface SceneOverride {
+  durationSeconds?: number;
+  palette?: Palette;
+  textAlign?: SceneTextAlign;
+  transition?: TransitionSettings;
+  /** Switches theme layers on or off for this scene, keyed by `LayerInstance.id`. */
+  layerToggles?: Record<string, boolean>;
+  /** Id of a text animation preset. */
+  animation?: string;
+  assets?: SceneAsset[];
+  /** Words to emphasise, as ranges in the scene text. */
+  highlights?: TextRange[];
+}
+
+/** Per-scene overrides keyed by `sceneKey`, so they follow a sentence when the prompt changes. */
+export type SceneOverrides = Record<string, SceneOverride>;
+
+/** UTF-16 offsets into a piece of text; `end` is exclusive. */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/** Set on every part of a sentence that was too long for the frame and was split. */
+export interface SceneContinuation {
+  /** Zero-based. */
+  part: number;
+  parts: number;
+}
+
+export interface SentenceRange {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface TimelineSlice {
+  key: string;
+  sentence: string;
+  index: number;
+  /** Scene heading from the script; `null` draws the default title. */
+  title: string | null;
+  /** Theme picked by a `[style: …]` directive; `null` follows `GenerationSettings.theme`. */
+  theme: Theme | null;
+  palette: Palette;
+  durationSeconds: number | null;
+  textAlign: SceneTextAlign;
+  /** Transition into this scene; `null` follows `GenerationSettings.transition`. */
+  transition: TransitionSettings | null;
+  layerToggles: Record<string, boolean>;
+  /** Text animation preset id; `null` follows the caption style's default. */
+  animation: string | null;
+  assets: SceneAsset[];
+  /** Ranges in `sentence` drawn in the accent colour, which animations can move on their own. */
+  highlights: TextRange[];
+  continuation: SceneContinuation | null;
+}
+
+export interface SceneTiming {
+  startFrame: number;
+  frameCount: number;
+}
+
+export interface FrameState {
+  slice: TimelineSlice;
+  sliceIndex: number;
+  /** Negative or past the scene length while the scene is part of a transition overlap. */
+  frameInSlice: number;
+  sliceProgress: number;
+}
+
+export interface ActiveTransition {
+  transition: TransitionSettings;
+  outgoing: FrameState;
+  incoming: FrameState;
+  /** Linear progress through the overlap, exclusive of 0 and 1. */
+  progress: number;
+}
+
+export type RenderContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
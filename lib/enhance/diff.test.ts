@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { diffScenes } from "./diff";
+import type { EnhancedScene } from "./types";
+
+function scene(text: string, durationSeconds: number | null = null): EnhancedScene {
+  return { text, title: null, durationSeconds };
+}
+
+function changes(before: EnhancedScene[], after: EnhancedScene[]) {
+  return diffScenes(before, after).map((row) => [
+    row.change,
+    row.before?.text ?? null,
+    row.after?.text ?? null,
+  ]);
+}
+
+describe("diffScenes", () => {
+  it("marks identical scenes as unchanged", () => {
+    const scenes = [scene("One"), scene("Two")];
+    expect(changes(scenes, scenes)).toEqual([
+      ["unchanged", "One", "One"],
+      ["unchanged", "Two", "Two"],
+    ]);
+  });
+
+  it("finds added scenes", () => {
+    const before = [scene("One"), scene("Three")];
+    const after = [scene("One"), scene("Two"), scene("Three")];
+    expect(changes(before, after)).toEqual([
+      ["unchanged", "One", "One"],
+      ["added", null, "Two"],
+      ["unchanged", "Three", "Three"],
+    ]);
+  });
+
+  it("finds removed scenes", () => {
+    expect(changes([scene("One"), scene("Two"), scene("Three")], [scene("One")])).toEqual([
+      ["unchanged", "One", "One"],
+      ["removed", "Two", null],
+      ["removed", "Three", null],
+    ]);
+  });
+
+  it("pairs rewritten scenes between matches as changed", () => {
+    expect(
+      changes(
+        [scene("One"), scene("Old two"), scene("Old three"), scene("Four")],
+        [scene("One"), scene("New two"), scene("Four"), scene("Five")],
+      ),
+    ).toEqual([
+      ["unchanged", "One", "One"],
+      ["changed", "Old two", "New two"],
+      ["removed", "Old three", null],
+      ["unchanged", "Four", "Four"],
+      ["added", null, "Five"],
+    ]);
+  });
+
+  it("matches text loosely but reports other edits as changes", () => {
+    expect(changes([scene("Hello, world", 2)], [scene("hello world!", 2)])).toEqual([
+      ["changed", "Hello, world", "hello world!"],
+    ]);
+    expect(changes([scene("Hello", 2)], [scene("Hello", 3)])).toEqual([
+      ["changed", "Hello", "Hello"],
+    ]);
+  });
+
+  it("handles empty lists", () => {
+    expect(diffScenes([], [])).toEqual([]);
+    expect(changes([], [scene("One")])).toEqual([["added", null, "One"]]);
+  });
+});
@@ -0,0 +1,72 @@
+import type { EnhancedScene, SceneDiff } from "./types";
+
+function textKey(scene: EnhancedScene) {
+  return scene.text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function isSameScene(before: EnhancedScene, after: EnhancedScene) {
+  return (
+    before.text === after.text &&
+    before.title === after.title &&
+    before.durationSeconds === after.durationSeconds
+  );
+}
+
+/**
+ * Lines up two scene lists by their text, longest common subsequence first. Between
+ * matches, scenes are paired up in order as changed, and any left over are added or removed.
+ */
+export function diffScenes(before: EnhancedScene[], after: EnhancedScene[]): SceneDiff[] {
+  const beforeKeys = before.map(textKey);
+  const afterKeys = after.map(textKey);
+  // lengths[i][j]: common subsequence length of before[i..] and after[j..].
+  const lengths = Array.from({ length: before.length + 1 }, () =>
+    new Array<number>(after.length + 1).fill(0),
+  );
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        beforeKeys[i] === afterKeys[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const rows: SceneDiff[] = [];
+  let removed: EnhancedScene[] = [];
+  let added: EnhancedScene[] = [];
+  const flush = () => {
+    for (let index = 0; index < Math.max(removed.length, added.length); index++) {
+      const previous = removed[index] ?? null;
+      const next = added[index] ?? null;
+      rows.push({
+        change: previous && next ? "changed" : previous ? "removed" : "added",
+        before: previous,
+        after: next,
+      });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && beforeKeys[i] === afterKeys[j]) {
+      flush();
+      rows.push({
+        change: isSameScene(before[i], after[j]) ? "unchanged" : "changed",
+        before: before[i],
+        after: after[j],
+      });
+      i++;
+      j++;
+    } else if (j >= after.length || (i < before.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      removed.push(before[i++]);
+    } else {
+      added.push(after[j++]);
+    }
+  }
+  flush();
+  return rows;
+}
@@ -0,0 +1,19 @@
+export { diffScenes } from "./diff";
+export { createMockProvider } from "./mock";
+export { createOpenAiProvider, type OpenAiProviderOptions } from "./openai";
+export {
+  EnhancementError,
+  MAX_BRIEF_LENGTH,
+  MAX_ENHANCED_SCENES,
+  parseEnhancement,
+  readBrief,
+} from "./schema";
+export { formatEnhancementScript, readPromptScenes } from "./script";
+export type {
+  EnhancedScene,
+  PromptEnhancement,
+  PromptProvider,
+  PromptProviderSummary,
+  SceneChange,
+  SceneDiff,
+} from "./types";
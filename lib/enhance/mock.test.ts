@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { BUILT_IN_THEMES } from "@/lib/compositor";
+import { createMockProvider } from "./mock";
+import { MAX_ENHANCED_SCENES } from "./schema";
+
+const BRIEF =
+  "We are really launching a new studio. And it renders every frame in your browser, so your " +
+  "ideas stay private, and your clips are ready for decks, social uploads and the web in " +
+  "seconds. Calm ocean water.";
+
+describe("createMockProvider", () => {
+  const provider = createMockProvider();
+
+  it("turns sentences into short beats without filler words", async () => {
+    const { scenes } = await provider.enhance(BRIEF);
+    expect(scenes.map((scene) => scene.text)).toEqual([
+      "We are launching a new studio",
+      "It renders every frame in your browser",
+      "So your ideas stay private",
+      "And your clips are ready for decks",
+      "Social uploads and the web in seconds",
+      "Calm ocean water",
+    ]);
+    for (const scene of scenes) {
+      expect(scene.text.split(" ").length).toBeLessThanOrEqual(12);
+      expect(scene.title).toBeNull();
+    }
+  });
+
+  it("times beats by their length, within 2–8 seconds", async () => {
+    const { scenes } = await provider.enhance(BRIEF);
+    expect(scenes.map((scene) => scene.durationSeconds)).toEqual([4.5, 5, 4, 5, 5, 3]);
+    const long = await provider.enhance(`${"word ".repeat(30)}end.`);
+    for (const scene of long.scenes) {
+      expect(scene.durationSeconds).toBeGreaterThanOrEqual(2);
+      expect(scene.durationSeconds).toBeLessThanOrEqual(8);
+    }
+  });
+
+  it("picks the style with the most keywords in the brief", async () => {
+    expect((await provider.enhance(BRIEF)).style).toBe("aqua");
+    expect((await provider.enhance("A dark and dramatic night.")).style).toBe("noir");
+    expect((await provider.enhance("Quarterly numbers.")).style).toBe(BUILT_IN_THEMES[0].id);
+  });
+
+  it("answers the same brief the same way", async () => {
+    expect(await provider.enhance(BRIEF)).toEqual(await provider.enhance(BRIEF));
+  });
+
+  it("stops at the scene limit", async () => {
+    const brief = Array.from({ length: 40 }, (_, index) => `Scene number ${index + 1}.`).join(" ");
+    expect((await provider.enhance(brief)).scenes).toHaveLength(MAX_ENHANCED_SCENES);
+  });
+});
@@ -0,0 +1,91 @@
+import { BUILT_IN_THEMES, splitSentences, type VisualStyle } from "@/lib/compositor";
+import { MAX_ENHANCED_SCENES } from "./schema";
+import type { EnhancedScene, PromptProvider } from "./types";
+
+const MAX_BEAT_WORDS = 12;
+const FILLER_WORDS = new Set([
+  "actually",
+  "basically",
+  "just",
+  "quite",
+  "really",
+  "simply",
+  "somewhat",
+  "very",
+]);
+const LEADING_CONNECTIVES = /^(?:and|but|so|then|also|plus|finally|next)\b[,\s]*/i;
+
+const STYLE_KEYWORDS: Record<VisualStyle, string[]> = {
+  cosmic: ["ai", "cosmic", "future", "futuristic", "galaxy", "innovation", "orbit", "space"],
+  tropical: ["beach", "festival", "fresh", "fun", "party", "summer", "tropical", "vibrant"],
+  noir: ["cinematic", "dark", "dramatic", "luxury", "mystery", "night", "noir", "secret"],
+  sunrise: ["dawn", "growth", "hope", "launch", "morning", "sunrise", "warm", "welcome"],
+  aqua: ["calm", "clean", "cool", "flow", "health", "ocean", "sea", "water", "wellness"],
+  mono: ["corporate", "elegant", "minimal", "monochrome", "report", "serious", "simple"],
+};
+
+function capitalize(text: string) {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+/**
+ * Splits a long sentence at its clauses, then by word count, into beats of a few words. Like
+ * prose scenes, beats drop their closing full stop.
+ */
+function toBeats(sentence: string) {
+  const words = sentence
+    .replace(LEADING_CONNECTIVES, "")
+    .replace(/[.!?…]+$/, "")
+    .split(/\s+/)
+    .filter((word) => word && !FILLER_WORDS.has(word.toLowerCase()));
+  const beats: string[][] = [[]];
+  for (const word of words) {
+    const beat = beats[beats.length - 1];
+    beat.push(word);
+    if (beat.length >= MAX_BEAT_WORDS || (beat.length >= 4 && /[,;:]$/.test(word))) {
+      beats.push([]);
+    }
+  }
+  return beats
+    .filter((beat) => beat.length > 0)
+    .map((beat) => capitalize(beat.join(" ").replace(/[,;:]$/, "")));
+}
+
+/** Half a second per word on top of a beat to settle, within 2–8 seconds. */
+function beatDuration(text: string) {
+  const words = text.split(/\s+/).length;
+  return Math.min(8, Math.max(2, Math.round((1.5 + words * 0.5) * 2) / 2));
+}
+
+/** The style with the most keywords in the brief; the first built-in style on a tie. */
+function pickStyle(brief: string): VisualStyle {
+  const words = new Set(brief.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []);
+  let best = BUILT_IN_THEMES[0].id as VisualStyle;
+  let bestScore = 0;
+  for (const [style, keywords] of Object.entries(STYLE_KEYWORDS) as [VisualStyle, string[]][]) {
+    const score = keywords.filter((keyword) => words.has(keyword)).length;
+    if (score > bestScore) {
+      best = style;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * A stand-in for a language model that needs no server: the same brief always gives the same
+ * scenes. Sentences lose filler words and long ones are broken into beats.
+ */
+export function createMockProvider(): PromptProvider {
+  return {
+    id: "mock",
+    label: "Local stand-in",
+    enhance: async (brief) => {
+      const scenes = splitSentences(brief)
+        .flatMap(toBeats)
+        .slice(0, MAX_ENHANCED_SCENES)
+        .map((text): EnhancedScene => ({ text, title: null, durationSeconds: beatDuration(text) }));
+      return { style: pickStyle(brief), scenes };
+    },
+  };
+}
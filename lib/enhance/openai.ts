@@ -0,0 +1,95 @@
+import { BUILT_IN_THEMES } from "@/lib/compositor";
+import { EnhancementError, MAX_ENHANCED_SCENES, parseEnhancement } from "./schema";
+import type { PromptProvider } from "./types";
+
+export interface OpenAiProviderOptions {
+  /** Base URL of the API, such as `http://localhost:11434/v1` for Ollama. */
+  url: string;
+  model: string;
+  apiKey?: string | null;
+}
+
+const EXAMPLE_ANSWER = {
+  style: "cosmic",
+  scenes: [{ title: "Launch day", text: "Meet the new studio", durationSeconds: 3 }],
+};
+
+const SYSTEM_PROMPT = [
+  "You turn rough briefs into scene beats for a motion-typography video.",
+  `Write at most ${MAX_ENHANCED_SCENES} scenes of one short, punchy sentence each,`,
+  "in the language of the brief.",
+  "Give each scene a duration in seconds between 2 and 8, longer for longer sentences.",
+  "Give a scene a title only where a new section starts.",
+  "Pick the style that suits the brief best from:",
+  `${BUILT_IN_THEMES.map((theme) => theme.id).join(", ")}.`,
+  `Answer with JSON only, in this shape: ${JSON.stringify(EXAMPLE_ANSWER)}`,
+].join("\n");
+
+interface ChatCompletion {
+  choices?: { message?: { content?: unknown } }[];
+  error?: { message?: unknown };
+}
+
+// Some models wrap their JSON in a Markdown code fence even when asked not to.
+function readJson(content: string) {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/.exec(content);
+  try {
+    return JSON.parse(fenced ? fenced[1] : content) as unknown;
+  } catch {
+    throw new EnhancementError("The model did not answer with valid JSON.", 502);
+  }
+}
+
+/**
+ * A provider for any server that speaks the OpenAI chat completions API, including local
+ * Ollama and llama.cpp servers.
+ */
+export function createOpenAiProvider({
+  url,
+  model,
+  apiKey,
+}: OpenAiProviderOptions): PromptProvider {
+  const endpoint = `${url.replace(/\/+$/, "")}/chat/completions`;
+  return {
+    id: "openai",
+    label: model,
+    enhance: async (brief, signal) => {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model,
+            temperature: 0.4,
+            response_format: { type: "json_object" },
+            messages: [
+              { role: "system", content: SYSTEM_PROMPT },
+              { role: "user", content: brief },
+            ],
+          }),
+          signal,
+        });
+      } catch (err) {
+        if (signal?.aborted) throw err;
+        throw new EnhancementError(`The language model at ${url} could not be reached.`, 502);
+      }
+      const body = (await response.json().catch(() => ({}))) as ChatCompletion;
+      if (!response.ok) {
+        const detail = typeof body.error?.message === "string" ? `: ${body.error.message}` : ".";
+        throw new EnhancementError(
+          `The language model answered with status ${response.status}${detail}`,
+          502,
+        );
+      }
+      const content = body.choices?.[0]?.message?.content;
+      if (typeof content !== "string") {
+        throw new EnhancementError("The language model answered without a message.", 502);
+      }
+      return parseEnhancement(readJson(content));
+    },
+  };
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { EnhancementError, MAX_ENHANCED_SCENES, parseEnhancement, readBrief } from "./schema";
+
+function errorStatus(read: () => unknown) {
+  try {
+    read();
+  } catch (err) {
+    return err instanceof EnhancementError ? err.status : null;
+  }
+  return null;
+}
+
+describe("parseEnhancement", () => {
+  it("reads a well-formed answer", () => {
+    expect(
+      parseEnhancement({
+        style: "Aqua",
+        scenes: [
+          { title: "Launch day", text: "Meet the new studio", durationSeconds: 3 },
+          { text: "Render anywhere" },
+        ],
+      }),
+    ).toEqual({
+      style: "aqua",
+      scenes: [
+        { title: "Launch day", text: "Meet the new studio", durationSeconds: 3 },
+        { title: null, text: "Render anywhere", durationSeconds: null },
+      ],
+    });
+  });
+
+  it("accepts plain strings as scenes and tidies their whitespace", () => {
+    expect(parseEnhancement({ scenes: ["  Two\n  lines  "] }).scenes).toEqual([
+      { text: "Two lines", title: null, durationSeconds: null },
+    ]);
+  });
+
+  it("snaps durations to half seconds within the script range", () => {
+    const { scenes } = parseEnhancement({
+      scenes: [
+        { text: "a", durationSeconds: 2.3 },
+        { text: "b", durationSeconds: 0.2 },
+        { text: "c", durationSeconds: 90 },
+        { text: "d", durationSeconds: "4" },
+        { text: "e", durationSeconds: Number.NaN },
+      ],
+    });
+    expect(scenes.map((scene) => scene.durationSeconds)).toEqual([2.5, 1, 30, null, null]);
+  });
+
+  it("drops unknown styles and scenes without text", () => {
+    const enhancement = parseEnhancement({
+      style: "vaporwave",
+      scenes: [{ text: "" }, { title: "Only a title" }, 42, null, { text: "Kept" }],
+    });
+    expect(enhancement.style).toBeNull();
+    expect(enhancement.scenes.map((scene) => scene.text)).toEqual(["Kept"]);
+  });
+
+  it("keeps at most the scene limit", () => {
+    const scenes = Array.from({ length: 40 }, (_, index) => `Scene ${index}`);
+    expect(parseEnhancement({ scenes }).scenes).toHaveLength(MAX_ENHANCED_SCENES);
+  });
+
+  it.each([
+    ["no object", "scenes"],
+    ["a list", ["Meet the new studio"]],
+    ["no scenes", { style: "aqua" }],
+    ["scenes that are not a list", { scenes: "Meet the new studio" }],
+    ["no scene text", { scenes: [{ text: " " }, {}] }],
+  ])("rejects an answer with %s", (_, value) => {
+    expect(errorStatus(() => parseEnhancement(value))).toBe(502);
+  });
+});
+
+describe("readBrief", () => {
+  it("trims the brief", () => {
+    expect(readBrief("  A launch video \n")).toBe("A launch video");
+  });
+
+  it.each([[""], ["   "], [42], ["x".repeat(8001)]])("rejects %j", (value) => {
+    expect(errorStatus(() => readBrief(value))).toBe(400);
+  });
+});
@@ -0,0 +1,75 @@
+import { isBuiltInTheme } from "@/lib/compositor";
+import type { EnhancedScene, PromptEnhancement } from "./types";
+
+export const MAX_BRIEF_LENGTH = 8000;
+export const MAX_ENHANCED_SCENES = 24;
+// The range a script's `[duration]` directive accepts.
+const MIN_SCENE_SECONDS = 1;
+const MAX_SCENE_SECONDS = 30;
+const MAX_SCENE_LENGTH = 400;
+const MAX_TITLE_LENGTH = 80;
+
+export class EnhancementError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "EnhancementError";
+    this.status = status;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function readText(value: unknown, maxLength: number) {
+  return typeof value === "string" ? value.replace(/\s+/g, " ").trim().slice(0, maxLength) : "";
+}
+
+/** Durations snap to half seconds inside the range scripts accept; anything else is dropped. */
+function readDuration(value: unknown) {
+  if (typeof value !== "number" || !Number.isFinite(value)) return null;
+  const seconds = Math.round(value * 2) / 2;
+  return Math.min(MAX_SCENE_SECONDS, Math.max(MIN_SCENE_SECONDS, seconds));
+}
+
+function readScene(value: unknown): EnhancedScene | null {
+  const scene = isRecord(value) ? value : { text: value };
+  const text = readText(scene.text, MAX_SCENE_LENGTH);
+  if (!text) return null;
+  return {
+    text,
+    title: readText(scene.title, MAX_TITLE_LENGTH) || null,
+    durationSeconds: readDuration(scene.durationSeconds),
+  };
+}
+
+/**
+ * Reads a provider's answer. Language models drift from the requested shape, so scenes
+ * without text and unknown styles are dropped rather than failing the whole answer.
+ */
+export function parseEnhancement(value: unknown): PromptEnhancement {
+  if (!isRecord(value) || !Array.isArray(value.scenes)) {
+    throw new EnhancementError('The provider answered without a "scenes" list.', 502);
+  }
+  const scenes = value.scenes
+    .map(readScene)
+    .filter((scene): scene is EnhancedScene => scene !== null)
+    .slice(0, MAX_ENHANCED_SCENES);
+  if (scenes.length === 0) {
+    throw new EnhancementError("The provider answered without any scene text.", 502);
+  }
+  const style = typeof value.style === "string" ? value.style.trim().toLowerCase() : "";
+  return { style: isBuiltInTheme(style) ? style : null, scenes };
+}
+
+export function readBrief(value: unknown) {
+  if (typeof value !== "string" || value.trim() === "") {
+    throw new EnhancementError('"brief" must be a non-empty string.');
+  }
+  if (value.length > MAX_BRIEF_LENGTH) {
+    throw new EnhancementError(`"brief" must be at most ${MAX_BRIEF_LENGTH} characters.`);
+  }
+  return value.trim();
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { parseScript } from "@/lib/compositor";
+import { formatEnhancementScript, readPromptScenes } from "./script";
+import type { EnhancedScene } from "./types";
+
+function roundTrip(scenes: EnhancedScene[]) {
+  return parseScript(formatEnhancementScript({ style: null, scenes })).scenes.map(
+    ({ text, title, durationSeconds }) => ({ text, title, durationSeconds }),
+  );
+}
+
+describe("formatEnhancementScript", () => {
+  it("writes titles once per section and durations as directives", () => {
+    const scenes: EnhancedScene[] = [
+      { text: "Meet the new studio", title: "Launch", durationSeconds: 3 },
+      { text: "Render anywhere", title: "Launch", durationSeconds: null },
+      { text: "Share in seconds", title: "Share", durationSeconds: 2.5 },
+    ];
+    expect(formatEnhancementScript({ style: null, scenes })).toBe(
+      [
+        "# Launch",
+        "Meet the new studio",
+        "[duration: 3s]",
+        "",
+        "Render anywhere",
+        "",
+        "# Share",
+        "Share in seconds",
+        "[duration: 2.5s]",
+      ].join("\n"),
+    );
+    expect(roundTrip(scenes)).toEqual(scenes);
+  });
+
+  it("separates plain scenes with dashes so they stay whole", () => {
+    const scenes: EnhancedScene[] = [
+      { text: "One idea. Told twice.", title: null, durationSeconds: null },
+      { text: "Another", title: null, durationSeconds: null },
+    ];
+    expect(formatEnhancementScript({ style: null, scenes })).toBe(
+      "One idea. Told twice.\n---\nAnother",
+    );
+    expect(roundTrip(scenes)).toEqual(scenes);
+  });
+
+  it("escapes text that would read as script syntax", () => {
+    const scenes: EnhancedScene[] = [
+      { text: "# Not a heading [style: noir]", title: null, durationSeconds: 4 },
+      { text: "---", title: null, durationSeconds: null },
+    ];
+    expect(roundTrip(scenes)).toEqual([
+      { text: "Not a heading (style: noir)", title: null, durationSeconds: 4 },
+    ]);
+  });
+});
+
+describe("readPromptScenes", () => {
+  it("reads a prompt in the shape providers answer with", () => {
+    expect(readPromptScenes("# Intro\nHello there\n[duration: 2s]")).toEqual([
+      { text: "Hello there", title: "Intro", durationSeconds: 2 },
+    ]);
+  });
+});
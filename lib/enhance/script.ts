@@ -0,0 +1,46 @@
+import { isScript, parseScript, type Theme } from "@/lib/compositor";
+import type { EnhancedScene, PromptEnhancement } from "./types";
+
+// Brackets would read as directives, and a leading `#` or a line of dashes as script structure.
+function cleanLine(text: string) {
+  return text
+    .replace(/\[/g, "(")
+    .replace(/\]/g, ")")
+    .replace(/^[\s#]+/, "")
+    .replace(/^-{3,}$/, "")
+    .trim();
+}
+
+/**
+ * Writes an enhancement as a prompt script: one block per scene, a `# Heading` where the
+ * title changes and a `[duration]` directive where the scene has one. Parsing the result
+ * with `parseScript` gives the enhancement's scenes back.
+ */
+export function formatEnhancementScript({ scenes }: PromptEnhancement) {
+  let title: string | null = null;
+  const blocks = scenes.flatMap((scene) => {
+    const text = cleanLine(scene.text);
+    if (!text) return [];
+    const lines: string[] = [];
+    const sceneTitle = scene.title && cleanLine(scene.title);
+    if (sceneTitle && sceneTitle !== title) {
+      lines.push(`# ${sceneTitle}`);
+      title = sceneTitle;
+    }
+    lines.push(text);
+    if (scene.durationSeconds !== null) lines.push(`[duration: ${scene.durationSeconds}s]`);
+    return [lines.join("\n")];
+  });
+  // Without a heading or directive the blocks would be read as prose, one scene per sentence.
+  const script = blocks.join("\n\n");
+  return isScript(script) ? script : blocks.join("\n---\n");
+}
+
+/** The scenes of a prompt in the shape providers answer with, for comparing the two. */
+export function readPromptScenes(prompt: string, themes?: Theme[]): EnhancedScene[] {
+  return parseScript(prompt, themes).scenes.map(({ text, title, durationSeconds }) => ({
+    text,
+    title,
+    durationSeconds,
+  }));
+}
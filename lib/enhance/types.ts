@@ -0,0 +1,32 @@
+import type { VisualStyle } from "@/lib/compositor";
+
+export interface EnhancedScene {
+  text: string;
+  title: string | null;
+  /** `null` leaves the scene at the project's segment length. */
+  durationSeconds: number | null;
+}
+
+/** A rough brief rewritten as scene beats, with a style to show them in. */
+export interface PromptEnhancement {
+  /** `null` when the provider had no suggestion, or suggested a style that does not exist. */
+  style: VisualStyle | null;
+  scenes: EnhancedScene[];
+}
+
+export interface PromptProvider {
+  id: string;
+  label: string;
+  enhance: (brief: string, signal?: AbortSignal) => Promise<PromptEnhancement>;
+}
+
+export type PromptProviderSummary = Pick<PromptProvider, "id" | "label">;
+
+export type SceneChange = "unchanged" | "changed" | "added" | "removed";
+
+/** One row of a scene-by-scene comparison. Added rows have no `before`, removed no `after`. */
+export interface SceneDiff {
+  change: SceneChange;
+  before: EnhancedScene | null;
+  after: EnhancedScene | null;
+}
@@ -0,0 +1,49 @@
+import {
+  getSceneTimings,
+  type GenerationSettings,
+  type TimelineSlice,
+} from "@/lib/compositor";
+
+export interface CaptionCue {
+  index: number;
+  startSeconds: number;
+  endSeconds: number;
+  text: string;
+}
+
+export function buildCaptionCues(
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+): CaptionCue[] {
+  const timings = getSceneTimings(timeline, settings);
+  return timeline.map((slice, index) => ({
+    index: index + 1,
+    startSeconds: timings[index].startFrame / settings.fps,
+    endSeconds: (timings[index].startFrame + timings[index].frameCount) / settings.fps,
+    text: slice.sentence,
+  }));
+}
+
+function formatTimestamp(seconds: number, separator: "," | ".") {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3_600_000);
+  const minutes = Math.floor((totalMs % 3_600_000) / 60_000);
+  const secs = Math.floor((totalMs % 60_000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+function formatCue(cue: CaptionCue, separator: "," | ".") {
+  const start = formatTimestamp(cue.startSeconds, separator);
+  const end = formatTimestamp(cue.endSeconds, separator);
+  return `${cue.index}\n${start} --> ${end}\n${cue.text}\n`;
+}
+
+export function formatSrt(cues: CaptionCue[]) {
+  return cues.map((cue) => formatCue(cue, ",")).join("\n");
+}
+
+export function formatWebVtt(cues: CaptionCue[]) {
+  return `WEBVTT\n\n${cues.map((cue) => formatCue(cue, ".")).join("\n")}`;
+}
@@ -0,0 +1,100 @@
+import { ArrayBufferTarget as Mp4Target, Muxer as Mp4Muxer } from "mp4-muxer";
+import { ArrayBufferTarget as WebmTarget, Muxer as WebmMuxer } from "webm-muxer";
+import type { ExportFormat } from "@/lib/compositor";
+
+export interface AudioTrackFormat {
+  sampleRate: number;
+  numberOfChannels: number;
+}
+
+export interface ContainerWriter {
+  encoderConfig: VideoEncoderConfig;
+  audioEncoderConfig: AudioEncoderConfig | null;
+  addChunk: (chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata) => void;
+  addAudioChunk: (chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata) => void;
+  finalize: () => Blob;
+}
+
+const AUDIO_BITRATE = 192_000;
+
+// H.264 level has to cover the frame size, otherwise encoders reject the configuration.
+export function pickAvcCodec(width: number, height: number) {
+  const macroblocks = Math.ceil(width / 16) * Math.ceil(height / 16);
+  if (macroblocks <= 3600) return "avc1.64001f";
+  if (macroblocks <= 8192) return "avc1.640028";
+  if (macroblocks <= 22080) return "avc1.640033";
+  return "avc1.640034";
+}
+
+export function getVideoEncoderConfig(
+  format: ExportFormat,
+  width: number,
+  height: number,
+  fps: number,
+  bitrate: number,
+): VideoEncoderConfig {
+  if (format === "mp4") {
+    return {
+      codec: pickAvcCodec(width, height),
+      width,
+      height,
+      bitrate,
+      framerate: fps,
+      avc: { format: "avc" },
+    };
+  }
+  return { codec: "vp09.00.10.08", width, height, bitrate, framerate: fps };
+}
+
+export function getAudioEncoderConfig(
+  format: ExportFormat,
+  audio: AudioTrackFormat,
+): AudioEncoderConfig {
+  return { codec: format === "mp4" ? "mp4a.40.2" : "opus", bitrate: AUDIO_BITRATE, ...audio };
+}
+
+export function createContainerWriter(
+  format: ExportFormat,
+  width: number,
+  height: number,
+  fps: number,
+  bitrate: number,
+  audio: AudioTrackFormat | null = null,
+): ContainerWriter {
+  const encoderConfig = getVideoEncoderConfig(format, width, height, fps, bitrate);
+  const audioEncoderConfig = audio ? getAudioEncoderConfig(format, audio) : null;
+  if (format === "mp4") {
+    const muxer = new Mp4Muxer({
+      target: new Mp4Target(),
+      video: { codec: "avc", width, height, frameRate: fps },
+      audio: audio ? { codec: "aac", ...audio } : undefined,
+      fastStart: "in-memory",
+    });
+    return {
+      encoderConfig,
+      audioEncoderConfig,
+      addChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+      addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+      finalize: () => {
+        muxer.finalize();
+        return new Blob([muxer.target.buffer], { type: "video/mp4" });
+      },
+    };
+  }
+
+  const muxer = new WebmMuxer({
+    target: new WebmTarget(),
+    video: { codec: "V_VP9", width, height, frameRate: fps },
+    audio: audio ? { codec: "A_OPUS", ...audio } : undefined,
+  });
+  return {
+    encoderConfig,
+    audioEncoderConfig,
+    addChunk: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+    addAudioChunk: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+    finalize: () => {
+      muxer.finalize();
+      return new Blob([muxer.target.buffer], { type: "video/webm" });
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import { resolveFrame, type GenerationSettings, type TimelineSlice } from "@/lib/compositor";
+import type { OfflineCheckpoint } from "./offline";
+import type { RenderTrace } from "./trace";
+
+/** Holds a render between frames. Cancelling is left to the render's `AbortSignal`. */
+export interface PauseController {
+  readonly paused: boolean;
+  pause: () => void;
+  resume: () => void;
+  /** Resolves once the render may draw its next frame; rejects if `signal` aborts first. */
+  whilePaused: (signal?: AbortSignal) => Promise<void>;
+  /** Returns a function that removes the listener. */
+  subscribe: (listener: (paused: boolean) => void) => () => void;
+}
+
+export interface RenderControl {
+  signal?: AbortSignal;
+  pause?: PauseController;
+  /** Collects frame and phase timings for the render report. */
+  trace?: RenderTrace;
+}
+
+export function createPauseController(): PauseController {
+  let paused = false;
+  const listeners = new Set<(paused: boolean) => void>();
+  const setPaused = (next: boolean) => {
+    if (next === paused) return;
+    paused = next;
+    listeners.forEach((listener) => listener(paused));
+  };
+
+  return {
+    get paused() {
+      return paused;
+    },
+    pause: () => setPaused(true),
+    resume: () => setPaused(false),
+    whilePaused: (signal) => {
+      signal?.throwIfAborted();
+      if (!paused) return Promise.resolve();
+      return new Promise((resolve, reject) => {
+        const finish = () => {
+          listeners.delete(onChange);
+          signal?.removeEventListener("abort", onAbort);
+        };
+        const onChange = (next: boolean) => {
+          if (next) return;
+          finish();
+          resolve();
+        };
+        const onAbort = () => {
+          finish();
+          reject(signal?.reason);
+        };
+        listeners.add(onChange);
+        signal?.addEventListener("abort", onAbort, { once: true });
+      });
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
+
+/**
+ * Passes progress on at most once per `intervalMs`, so a render does not re-render the page
+ * on every frame. The final update always gets through.
+ */
+export function throttleProgress(onProgress: (complete: number) => void, intervalMs = 100) {
+  let last = -Infinity;
+  return (complete: number) => {
+    const now = performance.now();
+    if (complete < 1 && now - last < intervalMs) return;
+    last = now;
+    onProgress(complete);
+  };
+}
+
+export function isAbortError(err: unknown) {
+  return err instanceof DOMException && err.name === "AbortError";
+}
+
+/** A render that failed part way, with where it failed and, offline, where it can pick up. */
+export class RenderFrameError extends Error {
+  readonly frameIndex: number;
+  readonly sceneIndex: number;
+  readonly checkpoint: OfflineCheckpoint | null;
+
+  constructor(
+    frameIndex: number,
+    sceneIndex: number,
+    cause: unknown,
+    checkpoint: OfflineCheckpoint | null = null,
+  ) {
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Frame ${frameIndex + 1} of scene ${sceneIndex + 1} failed: ${reason}`, { cause });
+    this.name = "RenderFrameError";
+    this.frameIndex = frameIndex;
+    this.sceneIndex = sceneIndex;
+    this.checkpoint = checkpoint;
+  }
+}
+
+/** Wraps `cause` with the frame it broke on; cancellations pass through untouched. */
+export function toRenderFrameError(
+  cause: unknown,
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+  frameIndex: number,
+  checkpoint: OfflineCheckpoint | null = null,
+) {
+  if (isAbortError(cause) || cause instanceof RenderFrameError) {
+    return cause;
+  }
+  const { sliceIndex } = resolveFrame(timeline, settings, frameIndex);
+  return new RenderFrameError(frameIndex, sliceIndex, cause, checkpoint);
+}
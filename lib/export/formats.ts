@@ -0,0 +1,31 @@
+import type { ExportFormat } from "@/lib/compositor";
+
+export const FORMAT_LABELS: Record<ExportFormat, string> = {
+  mp4: "MP4 · H.264",
+  webm: "WebM · VP9",
+};
+
+export function pickMimeType(preferred: ExportFormat, withAudio = false) {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  const candidates: Record<ExportFormat, string[]> = withAudio
+    ? {
+        mp4: ["video/mp4;codecs=avc1.42E01E,mp4a.40.2", "video/mp4;codecs=avc1,mp4a", "video/mp4"],
+        webm: ["video/webm;codecs=vp9,opus", "video/webm;codecs=vp8,opus", "video/webm"],
+      }
+    : {
+        mp4: ["video/mp4;codecs=avc1.42E01E", "video/mp4;codecs=avc1", "video/mp4"],
+        webm: ["video/webm;codecs=vp9", "video/webm;codecs=vp8", "video/webm"],
+      };
+  const fallback: ExportFormat = preferred === "mp4" ? "webm" : "mp4";
+  return (
+    [...candidates[preferred], ...candidates[fallback]].find((type) =>
+      MediaRecorder.isTypeSupported(type),
+    ) ?? null
+  );
+}
+
+export function extensionForMimeType(mimeType: string): ExportFormat {
+  return mimeType.startsWith("video/mp4") ? "mp4" : "webm";
+}
@@ -0,0 +1,259 @@
+const MAX_COLORS = 256;
+const MAX_CODE = 4096;
+const MAX_SUB_BLOCK = 255;
+// Colours are bucketed at 5 bits a channel before the palette is chosen.
+const CHANNEL_BITS = 5;
+const BUCKETS = 1 << (CHANNEL_BITS * 3);
+
+/** A frame reduced to at most 256 colours. */
+export interface IndexedFrame {
+  /** `r, g, b` triplets, padded to a power of two entries. */
+  palette: Uint8Array<ArrayBuffer>;
+  /** log2 of the palette length. */
+  paletteBits: number;
+  /** One palette index per pixel, row by row. */
+  indexes: Uint8Array<ArrayBuffer>;
+}
+
+interface ColorBox {
+  buckets: number[];
+  population: number;
+}
+
+function bucketOf(r: number, g: number, b: number) {
+  const shift = 8 - CHANNEL_BITS;
+  return ((r >> shift) << (CHANNEL_BITS * 2)) | ((g >> shift) << CHANNEL_BITS) | (b >> shift);
+}
+
+function channelOf(bucket: number, channel: number) {
+  return (bucket >> (CHANNEL_BITS * (2 - channel))) & ((1 << CHANNEL_BITS) - 1);
+}
+
+/** The channel a box spans most of, and how far. */
+function widestChannel(box: ColorBox) {
+  let widest = { channel: 0, range: -1 };
+  for (let channel = 0; channel < 3; channel++) {
+    let min = Infinity;
+    let max = -Infinity;
+    for (const bucket of box.buckets) {
+      const value = channelOf(bucket, channel);
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+    if (max - min > widest.range) widest = { channel, range: max - min };
+  }
+  return widest;
+}
+
+/**
+ * Picks a palette with median cut: the colour space is split, box by box, at the median
+ * pixel along its widest channel until there are `maxColors` boxes. Each box becomes the
+ * average of the pixels in it.
+ */
+export function quantizeFrame(rgba: Uint8ClampedArray, maxColors = MAX_COLORS): IndexedFrame {
+  const counts = new Uint32Array(BUCKETS);
+  const sums = new Float64Array(BUCKETS * 3);
+  for (let i = 0; i < rgba.length; i += 4) {
+    const bucket = bucketOf(rgba[i], rgba[i + 1], rgba[i + 2]);
+    counts[bucket]++;
+    sums[bucket * 3] += rgba[i];
+    sums[bucket * 3 + 1] += rgba[i + 1];
+    sums[bucket * 3 + 2] += rgba[i + 2];
+  }
+  const used: number[] = [];
+  for (let bucket = 0; bucket < BUCKETS; bucket++) {
+    if (counts[bucket] > 0) used.push(bucket);
+  }
+
+  const boxes: ColorBox[] = [{ buckets: used, population: rgba.length / 4 }];
+  while (boxes.length < maxColors) {
+    // Split the most populous box that still holds more than one colour.
+    let target = -1;
+    for (let i = 0; i < boxes.length; i++) {
+      const splittable = boxes[i].buckets.length > 1;
+      if (splittable && (target < 0 || boxes[i].population > boxes[target].population)) {
+        target = i;
+      }
+    }
+    if (target < 0) break;
+    const box = boxes[target];
+    const { channel } = widestChannel(box);
+    box.buckets.sort((a, b) => channelOf(a, channel) - channelOf(b, channel));
+    let seen = 0;
+    let split = 1;
+    for (; split < box.buckets.length - 1; split++) {
+      seen += counts[box.buckets[split - 1]];
+      if (seen >= box.population / 2) break;
+    }
+    const low = box.buckets.slice(0, split);
+    const high = box.buckets.slice(split);
+    const population = (buckets: number[]) =>
+      buckets.reduce((total, bucket) => total + counts[bucket], 0);
+    boxes.splice(
+      target,
+      1,
+      { buckets: low, population: population(low) },
+      { buckets: high, population: population(high) },
+    );
+  }
+
+  const paletteBits = Math.max(1, Math.ceil(Math.log2(Math.max(2, boxes.length))));
+  const palette = new Uint8Array((1 << paletteBits) * 3);
+  const lookup = new Uint8Array(BUCKETS);
+  boxes.forEach((box, index) => {
+    const total = [0, 0, 0];
+    for (const bucket of box.buckets) {
+      lookup[bucket] = index;
+      for (let channel = 0; channel < 3; channel++) total[channel] += sums[bucket * 3 + channel];
+    }
+    for (let channel = 0; channel < 3; channel++) {
+      palette[index * 3 + channel] = Math.round(total[channel] / Math.max(1, box.population));
+    }
+  });
+
+  const indexes = new Uint8Array(rgba.length / 4);
+  for (let i = 0, pixel = 0; i < rgba.length; i += 4, pixel++) {
+    indexes[pixel] = lookup[bucketOf(rgba[i], rgba[i + 1], rgba[i + 2])];
+  }
+  return { palette, paletteBits, indexes };
+}
+
+/** Appends bytes to a growing buffer. */
+class ByteWriter {
+  private buffer = new Uint8Array(1 << 16);
+  length = 0;
+
+  byte(value: number) {
+    if (this.length === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.length++] = value;
+  }
+
+  word(value: number) {
+    this.byte(value & 0xff);
+    this.byte((value >> 8) & 0xff);
+  }
+
+  bytes(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  text(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  take() {
+    const bytes = this.buffer.slice(0, this.length);
+    this.length = 0;
+    return bytes;
+  }
+}
+
+/** Variable-width LZW as GIF uses it, packed least significant bit first. */
+function writeLzw(out: ByteWriter, indexes: Uint8Array, minCodeSize: number) {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  // Codes for a prefix code followed by a byte, keyed `prefix << 8 | byte`.
+  const table = new Int16Array(MAX_CODE << 8).fill(-1);
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+
+  const block = new ByteWriter();
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block.byte(bits & 0xff);
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  out.byte(minCodeSize);
+  emit(clearCode);
+  let prefix = indexes[0];
+  for (let i = 1; i < indexes.length; i++) {
+    const value = indexes[i];
+    const key = (prefix << 8) | value;
+    const code = table[key];
+    if (code >= 0) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table.fill(-1);
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table[key] = nextCode++;
+    }
+    prefix = value;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) block.byte(bits & 0xff);
+
+  const data = block.take();
+  for (let offset = 0; offset < data.length; offset += MAX_SUB_BLOCK) {
+    const size = Math.min(MAX_SUB_BLOCK, data.length - offset);
+    out.byte(size);
+    out.bytes(data.subarray(offset, offset + size));
+  }
+  out.byte(0);
+}
+
+export interface GifWriter {
+  /** `delay` is in hundredths of a second, the unit GIF timing uses. */
+  addFrame: (rgba: Uint8ClampedArray, delay: number) => void;
+  finish: () => Blob;
+}
+
+/** Writes a looping GIF89a in which every frame carries its own palette. */
+export function createGifWriter(width: number, height: number): GifWriter {
+  const parts: BlobPart[] = [];
+  const out = new ByteWriter();
+
+  out.text("GIF89a");
+  out.word(width);
+  out.word(height);
+  // No global colour table; every frame brings its own.
+  out.byte(0);
+  out.byte(0);
+  out.byte(0);
+  // NETSCAPE2.0 extension: loop forever.
+  out.bytes([0x21, 0xff, 0x0b]);
+  out.text("NETSCAPE2.0");
+  out.bytes([0x03, 0x01, 0x00, 0x00, 0x00]);
+
+  return {
+    addFrame: (rgba, delay) => {
+      const { palette, paletteBits, indexes } = quantizeFrame(rgba);
+      out.bytes([0x21, 0xf9, 0x04, 0x00]);
+      out.word(Math.max(2, Math.round(delay)));
+      out.bytes([0x00, 0x00]);
+
+      out.byte(0x2c);
+      out.word(0);
+      out.word(0);
+      out.word(width);
+      out.word(height);
+      out.byte(0x80 | (paletteBits - 1));
+      out.bytes(palette);
+      writeLzw(out, indexes, Math.max(2, paletteBits));
+      parts.push(out.take());
+    },
+    finish: () => {
+      out.byte(0x3b);
+      parts.push(out.take());
+      return new Blob(parts, { type: "image/gif" });
+    },
+  };
+}
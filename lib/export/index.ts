@@ -0,0 +1,90 @@
+export { buildCaptionCues, formatSrt, formatWebVtt, type CaptionCue } from "./captions";
+export {
+  createContainerWriter,
+  getAudioEncoderConfig,
+  getVideoEncoderConfig,
+  pickAvcCodec,
+  type ContainerWriter,
+} from "./containers";
+export {
+  RenderFrameError,
+  createPauseController,
+  isAbortError,
+  throttleProgress,
+  type PauseController,
+  type RenderControl,
+} from "./control";
+export { downloadBlob } from "./download";
+export { FORMAT_LABELS, extensionForMimeType, pickMimeType } from "./formats";
+export { createGifWriter, quantizeFrame, type GifWriter, type IndexedFrame } from "./gif";
+export { readClipMetadata, type ClipMetadata } from "./metadata";
+export {
+  KEY_FRAME_INTERVAL_SECONDS,
+  isOfflineRenderSupported,
+  renderTimelineOffline,
+  type OfflineCheckpoint,
+  type OfflineRenderControl,
+  type PcmAudio,
+} from "./offline";
+export { recordTimelineRealtime, renderTimelineToVideo, type RecorderPhase } from "./realtime";
+export {
+  QUEUE_MANIFEST_SCHEMA_ID,
+  buildQueueManifest,
+  createQueueArchive,
+  createQueueJob,
+  queueJobFilename,
+  queueJobPosterFilename,
+  type QueueJob,
+  type QueueJobStatus,
+  type QueueManifest,
+  type QueueSoundtrack,
+} from "./queue";
+export {
+  RENDER_REPORT_SCHEMA_ID,
+  RENDER_REPORT_VERSION,
+  buildRenderReport,
+  collectBrowserCapabilities,
+  type BrowserCapabilities,
+  type RenderEncoderSettings,
+  type RenderEngine,
+  type RenderReport,
+  type RenderReportInput,
+} from "./report";
+export {
+  DEFAULT_GIF_OPTIONS,
+  GIF_FRAME_RATES,
+  GIF_WIDTHS,
+  clampFrameRange,
+  getDefaultPosterFrame,
+  getFullFrameRange,
+  getSceneStillFrames,
+  renderGif,
+  renderPngSequence,
+  renderSceneThumbnails,
+  renderStill,
+  scaledHeight,
+  type FrameRange,
+  type GifOptions,
+  type StillExportKind,
+} from "./stills";
+export {
+  RENDER_PHASE_LABELS,
+  appendRenderTrace,
+  createRenderTrace,
+  summarizeFrameTimings,
+  traceFrame,
+  tracePhase,
+  type FrameTimingSummary,
+  type PhaseTiming,
+  type RenderPhase,
+  type RenderTrace,
+} from "./trace";
+export type { EncodedClip, RenderMode } from "./types";
+export {
+  createWorkerRenderer,
+  isWorkerRenderSupported,
+  type WorkerRenderResult,
+  type WorkerRenderer,
+} from "./worker-client";
+export type { RenderWorkerMessage, RenderWorkerRequest } from "./worker-protocol";
+export { createZip, type ZipEntry } from "./zip";
@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { ArrayBufferTarget, Muxer } from "webm-muxer";
+import { readClipMetadata } from "./metadata";
+
+function muxWebm(frames: number, fps: number) {
+  const muxer = new Muxer({
+    target: new ArrayBufferTarget(),
+    video: { codec: "V_VP9", width: 320, height: 180, frameRate: fps },
+  });
+  for (let index = 0; index < frames; index++) {
+    const timestamp = Math.round((index * 1_000_000) / fps);
+    muxer.addVideoChunkRaw(new Uint8Array(16), index === 0 ? "key" : "delta", timestamp);
+  }
+  muxer.finalize();
+  return new Blob([muxer.target.buffer], { type: "video/webm" });
+}
+
+describe("readClipMetadata", () => {
+  it("counts the last frame in a muxed WebM's duration", async () => {
+    const metadata = await readClipMetadata(muxWebm(48, 24));
+    expect(metadata.container).toBe("webm");
+    expect(metadata.videoFrames).toBe(48);
+    expect(metadata.width).toBe(320);
+    expect(metadata.height).toBe(180);
+    expect(metadata.durationSeconds).toBeCloseTo(2, 2);
+  });
+});
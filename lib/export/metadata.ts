@@ -0,0 +1,377 @@
+/** What a clip's container says about its video track. Anything it does not say is `null`. */
+export interface ClipMetadata {
+  container: "mp4" | "webm" | null;
+  durationSeconds: number | null;
+  videoFrames: number | null;
+  width: number | null;
+  height: number | null;
+}
+
+const READ_WINDOW = 1 << 20;
+
+type ReadBytes = (offset: number, length: number) => Promise<DataView>;
+
+/** Reads a blob a window at a time, so large clips are never loaded whole. */
+function createBlobReader(blob: Blob): ReadBytes {
+  let buffered = new DataView(new ArrayBuffer(0));
+  let windowStart = 0;
+  return async (offset, length) => {
+    if (offset < windowStart || offset + length > windowStart + buffered.byteLength) {
+      const end = Math.min(blob.size, offset + Math.max(length, READ_WINDOW));
+      buffered = new DataView(await blob.slice(offset, end).arrayBuffer());
+      windowStart = offset;
+    }
+    const available = Math.min(length, buffered.byteLength - (offset - windowStart));
+    return new DataView(buffered.buffer, offset - windowStart, Math.max(0, available));
+  };
+}
+
+function emptyMetadata(container: ClipMetadata["container"]): ClipMetadata {
+  return { container, durationSeconds: null, videoFrames: null, width: null, height: null };
+}
+
+interface Mp4Box {
+  type: string;
+  /** Offset of the box body, after its header. */
+  body: number;
+  end: number;
+}
+
+function readBoxType(view: DataView, offset: number) {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  );
+}
+
+function readBoxes(view: DataView, start = 0, end = view.byteLength): Mp4Box[] {
+  const boxes: Mp4Box[] = [];
+  for (let offset = start; offset + 8 <= end; ) {
+    let size = view.getUint32(offset);
+    let header = 8;
+    if (size === 1) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header) break;
+    boxes.push({ type: readBoxType(view, offset + 4), body: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function findBox(view: DataView, parent: Mp4Box, path: string[]): Mp4Box | null {
+  let box: Mp4Box | null = parent;
+  for (const type of path) {
+    box = readBoxes(view, box.body, box.end).find((child) => child.type === type) ?? null;
+    if (!box) return null;
+  }
+  return box;
+}
+
+/** `duration` and `timescale` of an `mvhd` or `mdhd` box, which share their layout. */
+function readTimescale(view: DataView, box: Mp4Box) {
+  const version = view.getUint8(box.body);
+  return version === 1
+    ? {
+        timescale: view.getUint32(box.body + 20),
+        duration: Number(view.getBigUint64(box.body + 24)),
+      }
+    : { timescale: view.getUint32(box.body + 12), duration: view.getUint32(box.body + 16) };
+}
+
+interface Mp4Track {
+  id: number;
+  timescale: number;
+  duration: number;
+  samples: number;
+  width: number;
+  height: number;
+  defaultSampleDuration: number;
+}
+
+function readVideoTrack(view: DataView, moov: Mp4Box): Mp4Track | null {
+  for (const trak of readBoxes(view, moov.body, moov.end).filter((box) => box.type === "trak")) {
+    const hdlr = findBox(view, trak, ["mdia", "hdlr"]);
+    if (!hdlr || readBoxType(view, hdlr.body + 8) !== "vide") continue;
+    const tkhd = findBox(view, trak, ["tkhd"]);
+    const mdhd = findBox(view, trak, ["mdia", "mdhd"]);
+    const stsz = findBox(view, trak, ["mdia", "minf", "stbl", "stsz"]);
+    if (!tkhd || !mdhd) return null;
+    const version = view.getUint8(tkhd.body);
+    // Width and height are 16.16 fixed point at the end of the track header.
+    const size = tkhd.body + (version === 1 ? 88 : 76);
+    return {
+      id: view.getUint32(tkhd.body + (version === 1 ? 20 : 12)),
+      ...readTimescale(view, mdhd),
+      samples: stsz ? view.getUint32(stsz.body + 8) : 0,
+      width: view.getUint32(size) / 65536,
+      height: view.getUint32(size + 4) / 65536,
+      defaultSampleDuration: 0,
+    };
+  }
+  return null;
+}
+
+function readTrackDefaults(view: DataView, moov: Mp4Box, track: Mp4Track) {
+  const mvex = findBox(view, moov, ["mvex"]);
+  if (!mvex) return;
+  for (const trex of readBoxes(view, mvex.body, mvex.end)) {
+    if (trex.type === "trex" && view.getUint32(trex.body + 4) === track.id) {
+      track.defaultSampleDuration = view.getUint32(trex.body + 12);
+    }
+  }
+}
+
+/** Samples and their total duration in the video track's runs of a `moof` fragment. */
+function readFragment(view: DataView, moof: Mp4Box, track: Mp4Track) {
+  let samples = 0;
+  let duration = 0;
+  for (const traf of readBoxes(view, moof.body, moof.end)) {
+    if (traf.type !== "traf") continue;
+    const children = readBoxes(view, traf.body, traf.end);
+    const tfhd = children.find((box) => box.type === "tfhd");
+    if (!tfhd || view.getUint32(tfhd.body + 4) !== track.id) continue;
+    const tfhdFlags = view.getUint32(tfhd.body) & 0xffffff;
+    let field = tfhd.body + 8;
+    if (tfhdFlags & 0x1) field += 8;
+    if (tfhdFlags & 0x2) field += 4;
+    const defaultDuration =
+      tfhdFlags & 0x8 ? view.getUint32(field) : track.defaultSampleDuration;
+
+    for (const trun of children.filter((box) => box.type === "trun")) {
+      const flags = view.getUint32(trun.body) & 0xffffff;
+      const count = view.getUint32(trun.body + 4);
+      samples += count;
+      if (!(flags & 0x100)) {
+        duration += count * defaultDuration;
+        continue;
+      }
+      let offset = trun.body + 8 + (flags & 0x1 ? 4 : 0) + (flags & 0x4 ? 4 : 0);
+      const stride = [0x100, 0x200, 0x400, 0x800].filter((flag) => flags & flag).length * 4;
+      for (let sample = 0; sample < count; sample++, offset += stride) {
+        duration += view.getUint32(offset);
+      }
+    }
+  }
+  return { samples, duration };
+}
+
+// Handles both a plain `moov` sample table and fragmented files, as MediaRecorder writes them.
+async function readMp4Metadata(blob: Blob, read: ReadBytes): Promise<ClipMetadata> {
+  const metadata = emptyMetadata("mp4");
+  let track: Mp4Track | null = null;
+  let samples = 0;
+  let fragmentDuration = 0;
+  for (let offset = 0; offset + 8 <= blob.size; ) {
+    const header = await read(offset, 16);
+    let size = header.getUint32(0);
+    const type = readBoxType(header, 4);
+    if (size === 1) size = Number(header.getBigUint64(8));
+    else if (size === 0) size = blob.size - offset;
+    if (size < 8) break;
+
+    if (type === "moov" || type === "moof") {
+      const view = new DataView(await blob.slice(offset, offset + size).arrayBuffer());
+      const [box] = readBoxes(view);
+      if (type === "moov") {
+        track = readVideoTrack(view, box);
+        if (!track) return metadata;
+        readTrackDefaults(view, box, track);
+        samples += track.samples;
+      } else if (track) {
+        const fragment = readFragment(view, box, track);
+        samples += fragment.samples;
+        fragmentDuration += fragment.duration;
+      }
+    }
+    offset += size;
+  }
+  if (!track) return metadata;
+  const duration = track.duration > 0 ? track.duration : fragmentDuration;
+  return {
+    container: "mp4",
+    durationSeconds: track.timescale > 0 && duration > 0 ? duration / track.timescale : null,
+    videoFrames: samples,
+    width: track.width,
+    height: track.height,
+  };
+}
+
+const EBML_IDS = {
+  segment: 0x18538067,
+  info: 0x1549a966,
+  timecodeScale: 0x2ad7b1,
+  duration: 0x4489,
+  tracks: 0x1654ae6b,
+  trackEntry: 0xae,
+  trackNumber: 0xd7,
+  trackType: 0x83,
+  video: 0xe0,
+  pixelWidth: 0xb0,
+  pixelHeight: 0xba,
+  cluster: 0x1f43b675,
+  clusterTimecode: 0xe7,
+  blockGroup: 0xa0,
+  block: 0xa1,
+  simpleBlock: 0xa3,
+};
+
+// Entered rather than skipped, which means an unknown size (as MediaRecorder writes) is fine.
+const EBML_MASTERS = new Set([
+  EBML_IDS.segment,
+  EBML_IDS.info,
+  EBML_IDS.tracks,
+  EBML_IDS.trackEntry,
+  EBML_IDS.video,
+  EBML_IDS.cluster,
+  EBML_IDS.blockGroup,
+]);
+
+const VIDEO_TRACK_TYPE = 1;
+
+/** An EBML variable-length integer; `keepMarker` for element ids, which include it. */
+function readVint(view: DataView, offset: number, keepMarker = false) {
+  const first = view.getUint8(offset);
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  if (length > 8) throw new Error("Invalid EBML variable-length integer.");
+  let value = keepMarker ? first : first & (0xff >> length);
+  let unknown = value === (0xff >> length);
+  for (let index = 1; index < length; index++) {
+    const byte = view.getUint8(offset + index);
+    value = value * 256 + byte;
+    unknown &&= byte === 0xff;
+  }
+  return { value, length, unknown: !keepMarker && unknown };
+}
+
+function readUint(view: DataView, offset: number, length: number) {
+  let value = 0;
+  for (let index = 0; index < length; index++) value = value * 256 + view.getUint8(offset + index);
+  return value;
+}
+
+interface WebmTrack {
+  type: number;
+  frames: number;
+  first: number;
+  last: number;
+}
+
+async function readWebmMetadata(blob: Blob, read: ReadBytes): Promise<ClipMetadata> {
+  const metadata = emptyMetadata("webm");
+  const tracks = new Map<number, WebmTrack>();
+  let timecodeScale = 1_000_000;
+  let duration: number | null = null;
+  let trackNumber: number | null = null;
+  let trackType: number | null = null;
+  let clusterTimecode = 0;
+
+  const closeTrackEntry = () => {
+    if (trackNumber !== null && trackType !== null && !tracks.has(trackNumber)) {
+      tracks.set(trackNumber, { type: trackType, frames: 0, first: Infinity, last: -Infinity });
+    }
+  };
+
+  for (let offset = 0; offset < blob.size; ) {
+    const header = await read(offset, 12);
+    if (header.byteLength < 2) break;
+    const id = readVint(header, 0, true);
+    const size = readVint(header, id.length);
+    const body = offset + id.length + size.length;
+    if (EBML_MASTERS.has(id.value)) {
+      if (id.value === EBML_IDS.trackEntry) {
+        closeTrackEntry();
+        trackNumber = null;
+        trackType = null;
+      }
+      offset = body;
+      continue;
+    }
+    if (size.unknown) break;
+
+    switch (id.value) {
+      case EBML_IDS.timecodeScale:
+        timecodeScale = readUint(await read(body, size.value), 0, size.value);
+        break;
+      case EBML_IDS.duration: {
+        const view = await read(body, size.value);
+        duration = size.value === 4 ? view.getFloat32(0) : view.getFloat64(0);
+        break;
+      }
+      case EBML_IDS.trackNumber:
+        trackNumber = readUint(await read(body, size.value), 0, size.value);
+        closeTrackEntry();
+        break;
+      case EBML_IDS.trackType:
+        trackType = readUint(await read(body, size.value), 0, size.value);
+        closeTrackEntry();
+        break;
+      case EBML_IDS.pixelWidth:
+        metadata.width = readUint(await read(body, size.value), 0, size.value);
+        break;
+      case EBML_IDS.pixelHeight:
+        metadata.height = readUint(await read(body, size.value), 0, size.value);
+        break;
+      case EBML_IDS.clusterTimecode:
+        clusterTimecode = readUint(await read(body, size.value), 0, size.value);
+        break;
+      case EBML_IDS.simpleBlock:
+      case EBML_IDS.block: {
+        const view = await read(body, Math.min(size.value, 10));
+        const number = readVint(view, 0);
+        const track = tracks.get(number.value);
+        if (track) {
+          const time = clusterTimecode + view.getInt16(number.length);
+          track.frames++;
+          track.first = Math.min(track.first, time);
+          track.last = Math.max(track.last, time);
+        }
+        break;
+      }
+    }
+    offset = body + size.value;
+  }
+
+  const video = [...tracks.values()].find((track) => track.type === VIDEO_TRACK_TYPE);
+  if (!video) return metadata;
+  metadata.videoFrames = video.frames;
+  const interval = video.frames > 1 ? (video.last - video.first) / (video.frames - 1) : 0;
+  if (duration !== null) {
+    // webm-muxer ends the duration at the last frame's timestamp instead of after the frame.
+    if (duration < video.last + interval / 2) duration = video.last + interval;
+    metadata.durationSeconds = (duration * timecodeScale) / 1e9;
+  } else if (video.frames > 1) {
+    // Recordings carry no duration, so it is the span of the frames plus one average frame.
+    metadata.durationSeconds = ((video.last - video.first + interval) * timecodeScale) / 1e9;
+  }
+  return metadata;
+}
+
+/**
+ * Reads the duration, frame count and size of an MP4 or WebM clip from its container, for
+ * comparing with what the render meant to produce. Unreadable files give `null` fields.
+ */
+export async function readClipMetadata(blob: Blob): Promise<ClipMetadata> {
+  const read = createBlobReader(blob);
+  try {
+    const start = await read(0, 12);
+    if (start.byteLength >= 8 && readBoxType(start, 4) === "ftyp") {
+      return await readMp4Metadata(blob, read);
+    }
+    if (start.byteLength >= 4 && start.getUint32(0) === 0x1a45dfa3) {
+      // Skip the EBML header to reach the segment.
+      const size = readVint(start, 4);
+      const segment = 4 + size.length + size.value;
+      return await readWebmMetadata(blob.slice(segment), createBlobReader(blob.slice(segment)));
+    }
+  } catch (err) {
+    console.error("The clip's metadata could not be read.", err);
+  }
+  return emptyMetadata(null);
+}
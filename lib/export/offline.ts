@@ -0,0 +1,220 @@
+import {
+  combineFrameHashes,
+  getTotalFrames,
+  hashFrame,
+  renderFrame,
+  type AssetImages,
+  type GenerationSettings,
+  type RenderContext2D,
+  type TimelineSlice,
+} from "@/lib/compositor";
+import { createContainerWriter, type ContainerWriter } from "./containers";
+import { toRenderFrameError, type RenderControl } from "./control";
+import { FORMAT_LABELS } from "./formats";
+import { traceFrame, tracePhase } from "./trace";
+import type { EncodedClip } from "./types";
+
+interface EncodedFrame {
+  chunk: EncodedVideoChunk;
+  meta?: EncodedVideoChunkMetadata;
+}
+
+/**
+ * What an offline render had encoded when it failed, cut back to the last keyframe so a
+ * fresh encoder can carry on from `frameIndex`.
+ */
+export interface OfflineCheckpoint {
+  frameIndex: number;
+  chunks: EncodedFrame[];
+  frameHashes: string[];
+}
+
+export interface OfflineRenderControl extends RenderControl {
+  /** Must come from a render of the same timeline, settings and size. */
+  resumeFrom?: OfflineCheckpoint | null;
+  /** Reads back and hashes every frame for a fingerprint, which costs a full readback each. */
+  fingerprint?: boolean;
+}
+
+export function isOfflineRenderSupported() {
+  return typeof window !== "undefined" && "VideoEncoder" in window && "VideoFrame" in window;
+}
+
+const AUDIO_CHUNK_FRAMES = 4096;
+
+/** Seconds between keyframes, which is also how far back a failed render resumes from. */
+export const KEY_FRAME_INTERVAL_SECONDS = 2;
+
+/** The parts of an `AudioBuffer` the encoder reads, so a worker can pass plain samples. */
+export type PcmAudio = Pick<
+  AudioBuffer,
+  "sampleRate" | "numberOfChannels" | "length" | "getChannelData"
+>;
+
+async function encodeAudioTrack(audio: PcmAudio, writer: ContainerWriter) {
+  const config = writer.audioEncoderConfig;
+  if (!config) {
+    return;
+  }
+  const support = await AudioEncoder.isConfigSupported(config);
+  if (!support.supported) {
+    throw new Error(`This browser cannot encode ${config.codec} audio with WebCodecs.`);
+  }
+
+  let encoderError: Error | null = null;
+  const encoder = new AudioEncoder({
+    output: (chunk, meta) => writer.addAudioChunk(chunk, meta),
+    error: (err) => {
+      encoderError = err;
+    },
+  });
+  encoder.configure(config);
+
+  try {
+    const channels = audio.numberOfChannels;
+    for (let offset = 0; offset < audio.length; offset += AUDIO_CHUNK_FRAMES) {
+      const frames = Math.min(AUDIO_CHUNK_FRAMES, audio.length - offset);
+      const planar = new Float32Array(frames * channels);
+      for (let channel = 0; channel < channels; channel++) {
+        const samples = audio.getChannelData(channel).subarray(offset, offset + frames);
+        planar.set(samples, channel * frames);
+      }
+      const data = new AudioData({
+        format: "f32-planar",
+        sampleRate: audio.sampleRate,
+        numberOfFrames: frames,
+        numberOfChannels: channels,
+        timestamp: Math.round((offset / audio.sampleRate) * 1_000_000),
+        data: planar,
+      });
+      encoder.encode(data);
+      data.close();
+    }
+    await encoder.flush();
+    if (encoderError) {
+      throw encoderError;
+    }
+  } finally {
+    if (encoder.state !== "closed") {
+      encoder.close();
+    }
+  }
+}
+
+export async function renderTimelineOffline(
+  ctx: RenderContext2D,
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+  onProgress: (complete: number) => void,
+  audio: PcmAudio | null = null,
+  images: AssetImages = new Map(),
+  { signal, pause, resumeFrom = null, trace, fingerprint = false }: OfflineRenderControl = {},
+) {
+  const { canvas } = ctx;
+  const { width, height } = canvas;
+  const fps = settings.fps;
+  const frameDuration = 1_000_000 / fps;
+  const totalFrames = getTotalFrames(timeline, settings);
+  const keyFrameInterval = fps * KEY_FRAME_INTERVAL_SECONDS;
+
+  let phaseStart = performance.now();
+  const writer = createContainerWriter(
+    settings.format,
+    width,
+    height,
+    fps,
+    settings.bitrate,
+    audio ? { sampleRate: audio.sampleRate, numberOfChannels: audio.numberOfChannels } : null,
+  );
+  const support = await VideoEncoder.isConfigSupported(writer.encoderConfig);
+  if (!support.supported) {
+    throw new Error(
+      `This browser cannot encode ${FORMAT_LABELS[settings.format]} video with WebCodecs.`,
+    );
+  }
+
+  // Chunks are held back until the end so a failed render can be resumed without
+  // unpicking the container.
+  const chunks = [...(resumeFrom?.chunks ?? [])];
+  const frameHashes = [...(resumeFrom?.frameHashes ?? [])];
+  let encoderError: Error | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk, meta) => chunks.push({ chunk, meta }),
+    error: (err) => {
+      encoderError = err;
+    },
+  });
+  encoder.configure(writer.encoderConfig);
+  phaseStart = tracePhase(trace, "setup", phaseStart);
+
+  const checkpoint = (): OfflineCheckpoint => {
+    // Frames after the last complete keyframe interval are encoded again on resume.
+    const encoded = Math.min(chunks.length, frameIndex);
+    const resumeFrame = Math.floor(encoded / keyFrameInterval) * keyFrameInterval;
+    return {
+      frameIndex: resumeFrame,
+      chunks: chunks.slice(0, resumeFrame),
+      frameHashes: frameHashes.slice(0, resumeFrame),
+    };
+  };
+
+  let frameIndex = resumeFrom?.frameIndex ?? 0;
+  onProgress(frameIndex / totalFrames);
+  if (trace) trace.firstFrame = frameIndex;
+  try {
+    for (; frameIndex < totalFrames; frameIndex++) {
+      await pause?.whilePaused(signal);
+      signal?.throwIfAborted();
+      if (encoderError) {
+        throw encoderError;
+      }
+      const frameStart = performance.now();
+      renderFrame(ctx, timeline, settings, frameIndex, images);
+      if (fingerprint) frameHashes.push(hashFrame(ctx));
+
+      const frame = new VideoFrame(canvas, {
+        timestamp: Math.round(frameIndex * frameDuration),
+        duration: Math.round(frameDuration),
+      });
+      encoder.encode(frame, { keyFrame: frameIndex % keyFrameInterval === 0 });
+      frame.close();
+      traceFrame(trace, phaseStart, frameStart);
+      onProgress((frameIndex + 1) / totalFrames);
+
+      // Backpressure: wait for the encoder to drain instead of pacing on a timer.
+      while (encoder.encodeQueueSize > 4) {
+        await new Promise((resolve) => {
+          encoder.addEventListener("dequeue", resolve, { once: true });
+        });
+      }
+    }
+    phaseStart = tracePhase(trace, "frames", phaseStart);
+
+    await encoder.flush();
+    if (encoderError) {
+      throw encoderError;
+    }
+    phaseStart = tracePhase(trace, "flush", phaseStart);
+  } catch (err) {
+    const failedFrame = Math.min(frameIndex, totalFrames - 1);
+    throw toRenderFrameError(err, timeline, settings, failedFrame, checkpoint());
+  } finally {
+    if (encoder.state !== "closed") {
+      encoder.close();
+    }
+  }
+
+  if (audio) {
+    await encodeAudioTrack(audio, writer);
+    phaseStart = tracePhase(trace, "audio", phaseStart);
+  }
+  for (const { chunk, meta } of chunks) {
+    writer.addChunk(chunk, meta);
+  }
+
+  const clip: EncodedClip = { blob: writer.finalize(), extension: settings.format };
+  tracePhase(trace, "mux", phaseStart);
+  // A resumed render only has a fingerprint if every attempt hashed its frames.
+  const complete = fingerprint && frameHashes.length === totalFrames;
+  return { clip, fingerprint: complete ? combineFrameHashes(frameHashes) : null };
+}
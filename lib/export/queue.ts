@@ -0,0 +1,162 @@
+import type { AudioTrackSettings } from "@/lib/audio";
+import {
+  getOutputDimensions,
+  getTotalFrames,
+  type GenerationSettings,
+  type TimelineSlice,
+} from "@/lib/compositor";
+import type { EncodedClip, RenderMode } from "./types";
+import { createZip } from "./zip";
+
+export const QUEUE_MANIFEST_SCHEMA_ID = "nebula-studio/render-queue";
+export const QUEUE_MANIFEST_VERSION = 2;
+
+export type QueueJobStatus = "queued" | "rendering" | "complete" | "error" | "cancelled";
+
+/** The soundtrack as attached when the job was queued, mixed again when it runs. */
+export interface QueueSoundtrack {
+  buffer: AudioBuffer;
+  settings: AudioTrackSettings;
+}
+
+/**
+ * A render snapshotted when it was queued, so editing the project afterwards does not
+ * change jobs that are waiting.
+ */
+export interface QueueJob {
+  id: string;
+  label: string;
+  prompt: string;
+  timeline: TimelineSlice[];
+  settings: GenerationSettings;
+  renderMode: RenderMode;
+  soundtrack: QueueSoundtrack | null;
+  status: QueueJobStatus;
+  progress: number;
+  error: string | null;
+  clip: EncodedClip | null;
+  /** Object URL of `clip`; revoke it when the job is removed. */
+  url: string | null;
+  /** PNG of the clip's poster frame. */
+  poster: Blob | null;
+  fingerprint: string | null;
+  /** ISO timestamp. */
+  renderedAt: string | null;
+}
+
+export interface QueueManifestEntry {
+  file: string;
+  poster: string | null;
+  label: string;
+  prompt: string;
+  theme: string;
+  aspectRatio: string;
+  width: number;
+  height: number;
+  fps: number;
+  format: string;
+  renderMode: RenderMode;
+  scenes: number;
+  frames: number;
+  durationSeconds: number;
+  sizeBytes: number;
+  fingerprint: string | null;
+  renderedAt: string | null;
+}
+
+export interface QueueManifest {
+  schema: typeof QUEUE_MANIFEST_SCHEMA_ID;
+  version: number;
+  createdAt: string;
+  clips: QueueManifestEntry[];
+}
+
+type QueueSnapshot = Pick<
+  QueueJob,
+  "label" | "prompt" | "timeline" | "settings" | "renderMode" | "soundtrack"
+>;
+
+export function createQueueJob(snapshot: QueueSnapshot): QueueJob {
+  return {
+    ...snapshot,
+    id: crypto.randomUUID(),
+    status: "queued",
+    progress: 0,
+    error: null,
+    clip: null,
+    url: null,
+    poster: null,
+    fingerprint: null,
+    renderedAt: null,
+  };
+}
+
+function slugify(text: string) {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 48) || "clip"
+  );
+}
+
+/** File name of a finished job, numbered by its place in the queue. */
+export function queueJobFilename(job: QueueJob, index: number) {
+  const extension = job.clip?.extension ?? job.settings.format;
+  return `${String(index + 1).padStart(2, "0")}-${slugify(job.label)}.${extension}`;
+}
+
+export function queueJobPosterFilename(job: QueueJob, index: number) {
+  return `${String(index + 1).padStart(2, "0")}-${slugify(job.label)}.png`;
+}
+
+export function buildQueueManifest(jobs: QueueJob[]): QueueManifest {
+  const clips = jobs.flatMap((job, index): QueueManifestEntry[] => {
+    if (!job.clip) return [];
+    const { width, height } = getOutputDimensions(job.settings.output);
+    const frames = getTotalFrames(job.timeline, job.settings);
+    return [
+      {
+        file: queueJobFilename(job, index),
+        poster: job.poster ? queueJobPosterFilename(job, index) : null,
+        label: job.label,
+        prompt: job.prompt,
+        theme: job.settings.theme.id,
+        aspectRatio: job.settings.output.aspectRatio,
+        width,
+        height,
+        fps: job.settings.fps,
+        format: job.clip.extension,
+        renderMode: job.renderMode,
+        scenes: job.timeline.length,
+        frames,
+        durationSeconds: frames / job.settings.fps,
+        sizeBytes: job.clip.blob.size,
+        fingerprint: job.fingerprint,
+        renderedAt: job.renderedAt,
+      },
+    ];
+  });
+  return {
+    schema: QUEUE_MANIFEST_SCHEMA_ID,
+    version: QUEUE_MANIFEST_VERSION,
+    createdAt: new Date().toISOString(),
+    clips,
+  };
+}
+
+/** Every finished clip and its poster, plus a `manifest.json` describing how each was made. */
+export function createQueueArchive(jobs: QueueJob[]) {
+  const manifest = buildQueueManifest(jobs);
+  return createZip([
+    ...jobs.flatMap((job, index) => {
+      if (!job.clip) return [];
+      const clip = { name: queueJobFilename(job, index), data: job.clip.blob };
+      return job.poster
+        ? [clip, { name: queueJobPosterFilename(job, index), data: job.poster }]
+        : [clip];
+    }),
+    { name: "manifest.json", data: `${JSON.stringify(manifest, null, 2)}\n` },
+  ]);
+}
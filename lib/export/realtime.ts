@@ -0,0 +1,133 @@
+import {
+  getTotalFrames,
+  renderFrame,
+  type AssetImages,
+  type GenerationSettings,
+  type TimelineSlice,
+} from "@/lib/compositor";
+import { toRenderFrameError, type RenderControl } from "./control";
+import { extensionForMimeType, pickMimeType } from "./formats";
+import { traceFrame, tracePhase } from "./trace";
+import type { EncodedClip } from "./types";
+
+export type RecorderPhase = "rendering" | "encoding";
+
+async function sleep(ms: number) {
+  await new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export async function renderTimelineToVideo(
+  canvas: HTMLCanvasElement,
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+  onProgress: (complete: number) => void,
+  images: AssetImages = new Map(),
+  { signal, pause, trace }: RenderControl = {},
+) {
+  const ctx = canvas.getContext("2d");
+  if (!ctx) {
+    throw new Error("Canvas context is not available.");
+  }
+
+  const totalFrames = getTotalFrames(timeline, settings);
+  const loopStart = performance.now();
+  for (let frameIndex = 0; frameIndex < totalFrames; frameIndex++) {
+    await pause?.whilePaused(signal);
+    signal?.throwIfAborted();
+    const frameStart = performance.now();
+    try {
+      renderFrame(ctx, timeline, settings, frameIndex, images);
+    } catch (err) {
+      throw toRenderFrameError(err, timeline, settings, frameIndex);
+    }
+    traceFrame(trace, loopStart, frameStart);
+    onProgress((frameIndex + 1) / totalFrames);
+    await sleep(1000 / settings.fps);
+  }
+}
+
+export async function recordTimelineRealtime(
+  canvas: HTMLCanvasElement,
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+  onPhase: (phase: RecorderPhase) => void,
+  onProgress: (complete: number) => void,
+  audio: AudioBuffer | null = null,
+  images: AssetImages = new Map(),
+  control: RenderControl = {},
+) {
+  if (typeof window === "undefined" || !window.MediaRecorder) {
+    throw new Error("MediaRecorder is not available in this environment.");
+  }
+  const mimeType = pickMimeType(settings.format, audio !== null);
+  if (!mimeType) {
+    throw new Error("No supported video MIME type found for this browser.");
+  }
+
+  let phaseStart = performance.now();
+  const stream = canvas.captureStream(settings.fps);
+  const audioContext = audio ? new AudioContext({ sampleRate: audio.sampleRate }) : null;
+  let audioSource: AudioBufferSourceNode | null = null;
+  if (audio && audioContext) {
+    const destination = audioContext.createMediaStreamDestination();
+    audioSource = audioContext.createBufferSource();
+    audioSource.buffer = audio;
+    audioSource.connect(destination);
+    destination.stream.getAudioTracks().forEach((track) => stream.addTrack(track));
+  }
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: settings.bitrate });
+  const chunks: BlobPart[] = [];
+  const videoPromise = new Promise<Blob>((resolve, reject) => {
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+      }
+    };
+    recorder.onerror = (event) => {
+      const message = event.error?.message ?? "An unknown recording error occurred.";
+      reject(new Error(message));
+    };
+    recorder.onstop = () => {
+      resolve(new Blob(chunks, { type: mimeType }));
+    };
+  });
+
+  // The recorder and soundtrack hold while the render is paused, so the clip has no gap.
+  const unsubscribe = control.pause?.subscribe((paused) => {
+    if (paused && recorder.state === "recording") {
+      recorder.pause();
+      void audioContext?.suspend();
+    } else if (!paused && recorder.state === "paused") {
+      recorder.resume();
+      void audioContext?.resume();
+    }
+  });
+
+  try {
+    onPhase("rendering");
+    recorder.start();
+    audioSource?.start();
+    phaseStart = tracePhase(control.trace, "setup", phaseStart);
+
+    await renderTimelineToVideo(canvas, timeline, settings, onProgress, images, control);
+    phaseStart = tracePhase(control.trace, "frames", phaseStart);
+
+    onPhase("encoding");
+    recorder.stop();
+    const clip: EncodedClip = {
+      blob: await videoPromise,
+      extension: extensionForMimeType(recorder.mimeType || mimeType),
+    };
+    tracePhase(control.trace, "flush", phaseStart);
+    return clip;
+  } catch (err) {
+    if (recorder.state !== "inactive") {
+      recorder.stop();
+    }
+    throw err;
+  } finally {
+    unsubscribe?.();
+    stream.getTracks().forEach((track) => track.stop());
+    await audioContext?.close();
+  }
+}
@@ -0,0 +1,124 @@
+import {
+  collectFontUsage,
+  getOutputDimensions,
+  getTotalFrames,
+  resolveFrame,
+} from "@/lib/compositor";
+import { loadFonts } from "@/lib/fonts";
+import {
+  RenderFrameError,
+  createPauseController,
+  isAbortError,
+  throttleProgress,
+  type PauseController,
+} from "./control";
+import { renderTimelineOffline, type PcmAudio } from "./offline";
+import { createRenderTrace, tracePhase } from "./trace";
+import type { AudioSamples, RenderWorkerMessage, RenderWorkerRequest } from "./worker-protocol";
+
+// Runs the offline renderer off the main thread, drawing into the canvas the page transferred.
+const scope = self as unknown as Worker & { fonts?: FontFaceSet };
+
+let canvas: OffscreenCanvas | null = null;
+let active: { controller: AbortController; pause: PauseController } | null = null;
+
+function post(message: RenderWorkerMessage) {
+  scope.postMessage(message);
+}
+
+function toPcmAudio({ sampleRate, channels }: AudioSamples): PcmAudio {
+  return {
+    sampleRate,
+    numberOfChannels: channels.length,
+    length: channels[0]?.length ?? 0,
+    getChannelData: (channel) => channels[channel],
+  };
+}
+
+async function start(request: Extract<RenderWorkerRequest, { type: "start" }>) {
+  const { timeline, settings } = request;
+  const render = { controller: new AbortController(), pause: createPauseController() };
+  active = render;
+  if (request.paused) render.pause.pause();
+
+  const trace = createRenderTrace();
+  try {
+    if (!canvas) {
+      throw new Error("The render worker has no canvas.");
+    }
+    const { width, height } = getOutputDimensions(settings.output);
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d", { willReadFrequently: true });
+    if (!ctx) {
+      throw new Error("Canvas context is not available in the render worker.");
+    }
+    if (scope.fonts) {
+      const fontsStart = performance.now();
+      await loadFonts(
+        scope.fonts,
+        request.fonts,
+        collectFontUsage(timeline, settings.theme),
+      ).catch((err) => console.error("Fonts could not be loaded; rendering in fallbacks.", err));
+      tracePhase(trace, "inputs", fontsStart);
+    }
+
+    const totalFrames = getTotalFrames(timeline, settings);
+    const onProgress = throttleProgress((complete) => {
+      post({ type: "progress", complete });
+      const frameIndex = Math.max(0, Math.ceil(complete * totalFrames) - 1);
+      const { sliceIndex } = resolveFrame(timeline, settings, frameIndex);
+      post({ type: "frame", frameIndex, sceneIndex: sliceIndex });
+    });
+    const { clip, fingerprint } = await renderTimelineOffline(
+      ctx,
+      timeline,
+      settings,
+      onProgress,
+      request.audio && toPcmAudio(request.audio),
+      request.images,
+      {
+        signal: render.controller.signal,
+        pause: render.pause,
+        resumeFrom: request.resumeFrom,
+        fingerprint: request.fingerprint,
+        trace,
+      },
+    );
+    post({ type: "complete", clip, fingerprint, trace });
+  } catch (err) {
+    const failed = err instanceof RenderFrameError ? err : null;
+    const cause = failed ? failed.cause : err;
+    post({
+      type: "error",
+      message: cause instanceof Error ? cause.message : "Failed to generate video.",
+      cancelled: isAbortError(err),
+      frameIndex: failed?.frameIndex ?? null,
+      sceneIndex: failed?.sceneIndex ?? null,
+      checkpoint: failed?.checkpoint ?? null,
+    });
+  } finally {
+    if (active === render) active = null;
+  }
+}
+
+scope.addEventListener("message", (event: MessageEvent<RenderWorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "init":
+      canvas = request.canvas;
+      break;
+    case "start":
+      void start(request);
+      break;
+    case "pause":
+      active?.pause.pause();
+      break;
+    case "resume":
+      active?.pause.resume();
+      break;
+    case "cancel":
+      active?.controller.abort();
+      break;
+  }
+});
@@ -0,0 +1,274 @@
+import {
+  getOutputDimensions,
+  getTotalFrames,
+  type ExportFormat,
+  type GenerationSettings,
+  type OutputSize,
+  type TimelineSlice,
+} from "@/lib/compositor";
+import { getAudioEncoderConfig, getVideoEncoderConfig } from "./containers";
+import { readClipMetadata, type ClipMetadata } from "./metadata";
+import { KEY_FRAME_INTERVAL_SECONDS, isOfflineRenderSupported } from "./offline";
+import {
+  summarizeFrameTimings,
+  type FrameTimingSummary,
+  type PhaseTiming,
+  type RenderTrace,
+} from "./trace";
+import type { EncodedClip, RenderMode } from "./types";
+import { isWorkerRenderSupported } from "./worker-client";
+
+export const RENDER_REPORT_SCHEMA_ID = "nebula-studio/render-report";
+export const RENDER_REPORT_VERSION = 1;
+
+/** Which encoder produced the clip. */
+export type RenderEngine = "worker" | "webcodecs" | "mediarecorder";
+
+export interface RenderEncoderSettings {
+  engine: RenderEngine;
+  mimeType: string;
+  /** `null` when the recorder chose a codec without naming it. */
+  videoCodec: string | null;
+  audioCodec: string | null;
+  requestedBitrate: number;
+  audioBitrate: number | null;
+  framerate: number;
+  /** Frames between keyframes; the recorder picks its own. */
+  keyFrameInterval: number | null;
+}
+
+export interface BrowserCapabilities {
+  userAgent: string;
+  hardwareConcurrency: number | null;
+  deviceMemoryGb: number | null;
+  devicePixelRatio: number;
+  webCodecs: boolean;
+  workerRendering: boolean;
+  /** The MediaRecorder types the browser says it can record. */
+  recorderTypes: string[];
+  /** Whether WebCodecs accepts each format at the render's size, or `null` without WebCodecs. */
+  encoders: Record<ExportFormat, boolean | null>;
+}
+
+export interface RenderReport {
+  schema: typeof RENDER_REPORT_SCHEMA_ID;
+  version: typeof RENDER_REPORT_VERSION;
+  createdAt: string;
+  mode: RenderMode;
+  output: OutputSize & {
+    width: number;
+    height: number;
+    fps: number;
+    format: ExportFormat;
+    scenes: number;
+  };
+  encoder: RenderEncoderSettings;
+  /** What the produced file says about itself. */
+  file: ClipMetadata & { sizeBytes: number };
+  frames: {
+    expected: number;
+    /** Frames drawn by this render; fewer than expected when it resumed part way. */
+    rendered: number;
+    inFile: number | null;
+    /** Expected frames the file lacks, as when `captureStream` drops frames under load. */
+    missing: number | null;
+  };
+  duration: { expectedSeconds: number; actualSeconds: number | null };
+  /** Bits per second over the whole file, soundtrack included. */
+  bitrate: { requested: number; achieved: number | null };
+  timings: {
+    totalMs: number;
+    phases: PhaseTiming[];
+    firstFrame: number;
+    frames: FrameTimingSummary | null;
+    /** Milliseconds spent on each frame, from `firstFrame` on. */
+    frameMs: number[];
+  };
+  fingerprint: string | null;
+  browser: BrowserCapabilities;
+}
+
+export interface RenderReportInput {
+  clip: EncodedClip;
+  timeline: TimelineSlice[];
+  settings: GenerationSettings;
+  mode: RenderMode;
+  engine: RenderEngine;
+  hasAudio: boolean;
+  trace: RenderTrace;
+  totalMs: number;
+  fingerprint: string | null;
+}
+
+const RECORDER_TYPES = [
+  "video/mp4;codecs=avc1",
+  "video/mp4;codecs=avc1,mp4a",
+  "video/webm;codecs=vp9",
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8",
+  "video/webm",
+];
+
+function round(value: number, digits = 2) {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
+
+// A phase can be recorded more than once, such as fonts loaded by the page and the worker.
+function mergePhases(phases: PhaseTiming[]) {
+  const merged: PhaseTiming[] = [];
+  for (const { phase, ms } of phases) {
+    const existing = merged.find((entry) => entry.phase === phase);
+    if (existing) existing.ms += ms;
+    else merged.push({ phase, ms });
+  }
+  return merged.map(({ phase, ms }) => ({ phase, ms: round(ms) }));
+}
+
+function roundFrameTimings(summary: FrameTimingSummary | null): FrameTimingSummary | null {
+  return (
+    summary && {
+      meanMs: round(summary.meanMs),
+      medianMs: round(summary.medianMs),
+      p95Ms: round(summary.p95Ms),
+      maxMs: round(summary.maxMs),
+      lateFrames: summary.lateFrames,
+      slowest: summary.slowest.map(({ frameIndex, ms }) => ({ frameIndex, ms: round(ms) })),
+    }
+  );
+}
+
+function readRecorderCodecs(mimeType: string) {
+  const codecs = /codecs="?([^";]+)/.exec(mimeType)?.[1].split(",") ?? [];
+  return { video: codecs[0]?.trim() || null, audio: codecs[1]?.trim() || null };
+}
+
+function describeEncoder(
+  { clip, settings, engine, hasAudio }: RenderReportInput,
+  width: number,
+  height: number,
+): RenderEncoderSettings {
+  const { fps, bitrate } = settings;
+  if (engine === "mediarecorder") {
+    const codecs = readRecorderCodecs(clip.blob.type);
+    return {
+      engine,
+      mimeType: clip.blob.type,
+      videoCodec: codecs.video,
+      audioCodec: codecs.audio,
+      requestedBitrate: bitrate,
+      audioBitrate: null,
+      framerate: fps,
+      keyFrameInterval: null,
+    };
+  }
+  const video = getVideoEncoderConfig(clip.extension, width, height, fps, bitrate);
+  // The sample rate does not change the codec or bitrate, so any will do here.
+  const audio = hasAudio
+    ? getAudioEncoderConfig(clip.extension, { sampleRate: 48_000, numberOfChannels: 2 })
+    : null;
+  return {
+    engine,
+    mimeType: clip.blob.type,
+    videoCodec: video.codec,
+    audioCodec: audio?.codec ?? null,
+    requestedBitrate: bitrate,
+    audioBitrate: audio?.bitrate ?? null,
+    framerate: fps,
+    keyFrameInterval: fps * KEY_FRAME_INTERVAL_SECONDS,
+  };
+}
+
+async function probeEncoder(config: VideoEncoderConfig) {
+  try {
+    return (await VideoEncoder.isConfigSupported(config)).supported ?? false;
+  } catch {
+    return false;
+  }
+}
+
+export async function collectBrowserCapabilities(
+  settings: GenerationSettings,
+): Promise<BrowserCapabilities> {
+  const { width, height } = getOutputDimensions(settings.output);
+  const webCodecs = isOfflineRenderSupported();
+  const formats: ExportFormat[] = ["mp4", "webm"];
+  const supported = await Promise.all(
+    formats.map((format) =>
+      webCodecs
+        ? probeEncoder(getVideoEncoderConfig(format, width, height, settings.fps, settings.bitrate))
+        : null,
+    ),
+  );
+  const recorder = typeof MediaRecorder !== "undefined";
+  const { deviceMemory } = navigator as Navigator & { deviceMemory?: number };
+  return {
+    userAgent: navigator.userAgent,
+    hardwareConcurrency: navigator.hardwareConcurrency ?? null,
+    deviceMemoryGb: deviceMemory ?? null,
+    devicePixelRatio: window.devicePixelRatio,
+    webCodecs,
+    workerRendering: isWorkerRenderSupported(),
+    recorderTypes: recorder
+      ? RECORDER_TYPES.filter((type) => MediaRecorder.isTypeSupported(type))
+      : [],
+    encoders: { mp4: supported[0], webm: supported[1] },
+  };
+}
+
+/**
+ * Puts a finished render's timings next to what actually ended up in the file, for judging
+ * how well it went and for attaching to bug reports.
+ */
+export async function buildRenderReport(input: RenderReportInput): Promise<RenderReport> {
+  const { clip, timeline, settings, mode, trace, totalMs, fingerprint } = input;
+  const { width, height } = getOutputDimensions(settings.output);
+  const [metadata, browser] = await Promise.all([
+    readClipMetadata(clip.blob),
+    collectBrowserCapabilities(settings),
+  ]);
+
+  const expectedFrames = getTotalFrames(timeline, settings);
+  const expectedSeconds = expectedFrames / settings.fps;
+  const seconds = metadata.durationSeconds ?? expectedSeconds;
+  return {
+    schema: RENDER_REPORT_SCHEMA_ID,
+    version: RENDER_REPORT_VERSION,
+    createdAt: new Date().toISOString(),
+    mode,
+    output: {
+      ...settings.output,
+      width,
+      height,
+      fps: settings.fps,
+      format: settings.format,
+      scenes: timeline.length,
+    },
+    encoder: describeEncoder(input, width, height),
+    file: { ...metadata, sizeBytes: clip.blob.size },
+    frames: {
+      expected: expectedFrames,
+      rendered: trace.frameMs.length,
+      inFile: metadata.videoFrames,
+      missing:
+        metadata.videoFrames === null ? null : Math.max(0, expectedFrames - metadata.videoFrames),
+    },
+    duration: {
+      expectedSeconds: round(expectedSeconds, 3),
+      actualSeconds: metadata.durationSeconds === null ? null : round(metadata.durationSeconds, 3),
+    },
+    bitrate: {
+      requested: settings.bitrate,
+      achieved: seconds > 0 ? Math.round((clip.blob.size * 8) / seconds) : null,
+    },
+    timings: {
+      totalMs: round(totalMs),
+      phases: mergePhases(trace.phases),
+      firstFrame: trace.firstFrame,
+      frames: roundFrameTimings(summarizeFrameTimings(trace, settings.fps, mode)),
+      frameMs: trace.frameMs.map((ms) => round(ms)),
+    },
+    fingerprint,
+    browser,
+  };
+}
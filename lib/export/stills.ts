@@ -0,0 +1,174 @@
+import {
+  getSceneTimings,
+  getTotalFrames,
+  renderFrame,
+  type AssetImages,
+  type GenerationSettings,
+  type RenderContext2D,
+  type TimelineSlice,
+} from "@/lib/compositor";
+import { toRenderFrameError, type RenderControl } from "./control";
+import { createGifWriter } from "./gif";
+import { createZip } from "./zip";
+
+/** Frames `start` up to but not including `end`. */
+export interface FrameRange {
+  start: number;
+  end: number;
+}
+
+export type StillExportKind = "poster" | "gif" | "png-sequence";
+
+export interface GifOptions {
+  fps: number;
+  /** Height follows the frame's aspect ratio. */
+  width: number;
+}
+
+export const GIF_FRAME_RATES = [10, 15, 20];
+export const GIF_WIDTHS = [320, 480, 640];
+export const DEFAULT_GIF_OPTIONS: GifOptions = { fps: 15, width: 480 };
+
+// Far enough into a scene for its text to have animated in, and clear of the transition out.
+const SCENE_STILL_POSITION = 0.6;
+
+export function getFullFrameRange(timeline: TimelineSlice[], settings: GenerationSettings) {
+  return { start: 0, end: getTotalFrames(timeline, settings) };
+}
+
+/** Keeps `range` inside the timeline and at least one frame long. */
+export function clampFrameRange(
+  range: FrameRange,
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+): FrameRange {
+  const totalFrames = getTotalFrames(timeline, settings);
+  const start = Math.min(Math.max(0, Math.round(range.start)), Math.max(0, totalFrames - 1));
+  const end = Math.min(Math.max(start + 1, Math.round(range.end)), totalFrames);
+  return { start, end };
+}
+
+/** The frame each scene is pictured by, in thumbnails and by default on the poster. */
+export function getSceneStillFrames(timeline: TimelineSlice[], settings: GenerationSettings) {
+  return getSceneTimings(timeline, settings).map(
+    ({ startFrame, frameCount }) => startFrame + Math.floor(frameCount * SCENE_STILL_POSITION),
+  );
+}
+
+export function getDefaultPosterFrame(timeline: TimelineSlice[], settings: GenerationSettings) {
+  return getSceneStillFrames(timeline, settings)[0] ?? 0;
+}
+
+/** Height of a `width`-wide copy of the frame, rounded to an even number of pixels. */
+export function scaledHeight(width: number, frameWidth: number, frameHeight: number) {
+  return Math.max(2, Math.round((width * frameHeight) / frameWidth / 2) * 2);
+}
+
+function canvasToBlob(canvas: RenderContext2D["canvas"], type = "image/png") {
+  if ("convertToBlob" in canvas) {
+    return canvas.convertToBlob({ type });
+  }
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("The frame could not be encoded."))),
+      type,
+    ),
+  );
+}
+
+/** Draws one frame at the size of `ctx`'s canvas and encodes it as a PNG. */
+export function renderStill(
+  ctx: RenderContext2D,
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+  frameIndex: number,
+  images: AssetImages = new Map(),
+) {
+  renderFrame(ctx, timeline, settings, frameIndex, images);
+  return canvasToBlob(ctx.canvas);
+}
+
+/** One still per scene, for the Production Timeline. Draw onto a small canvas. */
+export async function renderSceneThumbnails(
+  ctx: RenderContext2D,
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+  images: AssetImages = new Map(),
+) {
+  const thumbnails: Blob[] = [];
+  for (const frameIndex of getSceneStillFrames(timeline, settings)) {
+    thumbnails.push(await renderStill(ctx, timeline, settings, frameIndex, images));
+  }
+  return thumbnails;
+}
+
+/**
+ * A ZIP of numbered PNG frames for editing software that imports image sequences. Frames
+ * are drawn at the size of `ctx`'s canvas.
+ */
+export async function renderPngSequence(
+  ctx: RenderContext2D,
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+  range: FrameRange,
+  onProgress: (complete: number) => void,
+  images: AssetImages = new Map(),
+  { signal, pause }: RenderControl = {},
+) {
+  const digits = Math.max(4, String(range.end).length);
+  const folder = `nebula-synth-${settings.fps}fps`;
+  const frames: { name: string; data: Blob }[] = [];
+  let frameIndex = range.start;
+  try {
+    for (; frameIndex < range.end; frameIndex++) {
+      await pause?.whilePaused(signal);
+      signal?.throwIfAborted();
+      frames.push({
+        name: `${folder}/frame-${String(frameIndex + 1).padStart(digits, "0")}.png`,
+        data: await renderStill(ctx, timeline, settings, frameIndex, images),
+      });
+      onProgress((frameIndex - range.start + 1) / (range.end - range.start));
+    }
+  } catch (err) {
+    throw toRenderFrameError(err, timeline, settings, frameIndex);
+  }
+  return createZip(frames);
+}
+
+/**
+ * An animated GIF of `range`, sampled at the GIF's own frame rate. Each frame gets its own
+ * palette, so scenes with different gradients keep their colours.
+ */
+export async function renderGif(
+  ctx: RenderContext2D,
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+  range: FrameRange,
+  { fps }: GifOptions,
+  onProgress: (complete: number) => void,
+  images: AssetImages = new Map(),
+  { signal, pause }: RenderControl = {},
+) {
+  const { width, height } = ctx.canvas;
+  const writer = createGifWriter(width, height);
+  const step = settings.fps / fps;
+  const count = Math.max(1, Math.floor((range.end - range.start) / step));
+  let frameIndex = range.start;
+  try {
+    for (let index = 0; index < count; index++) {
+      await pause?.whilePaused(signal);
+      signal?.throwIfAborted();
+      frameIndex = range.start + Math.floor(index * step);
+      renderFrame(ctx, timeline, settings, frameIndex, images);
+      // Delays are whole hundredths of a second; rounding the running total keeps the pace.
+      const delay = Math.round(((index + 1) * 100) / fps) - Math.round((index * 100) / fps);
+      writer.addFrame(ctx.getImageData(0, 0, width, height).data, delay);
+      onProgress((index + 1) / count);
+      // Quantising blocks the thread, so let the page repaint between frames.
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  } catch (err) {
+    throw toRenderFrameError(err, timeline, settings, frameIndex);
+  }
+  return writer.finish();
+}
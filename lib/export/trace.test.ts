@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { createRenderTrace, summarizeFrameTimings } from "./trace";
+
+// Four frames at 24 fps where the third starts three intervals after the second.
+function slowTrace() {
+  const trace = createRenderTrace();
+  trace.frameMs.push(10, 20, 30, 40);
+  trace.frameStartMs.push(0, 42, 167, 209);
+  return trace;
+}
+
+describe("summarizeFrameTimings", () => {
+  it("counts frames that fell behind a realtime render", () => {
+    expect(summarizeFrameTimings(slowTrace(), 24, "realtime")?.lateFrames).toBe(1);
+  });
+
+  it("leaves late frames out for offline renders", () => {
+    const summary = summarizeFrameTimings(slowTrace(), 24, "offline");
+    expect(summary?.lateFrames).toBeNull();
+    expect(summary?.maxMs).toBe(40);
+    expect(summary?.slowest[0]).toEqual({ frameIndex: 3, ms: 40 });
+  });
+
+  it("has nothing to summarize without frames", () => {
+    expect(summarizeFrameTimings(createRenderTrace(), 24, "realtime")).toBeNull();
+  });
+});
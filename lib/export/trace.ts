@@ -0,0 +1,105 @@
+import type { RenderMode } from "./types";
+
+export type RenderPhase = "inputs" | "setup" | "frames" | "flush" | "audio" | "mux" | "poster";
+
+export const RENDER_PHASE_LABELS: Record<RenderPhase, string> = {
+  inputs: "Loading audio, images and fonts",
+  setup: "Preparing the encoder",
+  frames: "Drawing and encoding frames",
+  flush: "Finishing the video track",
+  audio: "Encoding the soundtrack",
+  mux: "Writing the container",
+  poster: "Drawing the poster",
+};
+
+export interface PhaseTiming {
+  phase: RenderPhase;
+  ms: number;
+}
+
+/**
+ * Timings collected while a render runs. It is plain data, so the render worker can post
+ * its trace back to the page.
+ */
+export interface RenderTrace {
+  /** Index of the first frame drawn; later than zero when a render resumes. */
+  firstFrame: number;
+  /** Milliseconds spent drawing each frame. */
+  frameMs: number[];
+  /** When each frame started, in milliseconds from the start of the first. */
+  frameStartMs: number[];
+  phases: PhaseTiming[];
+}
+
+export interface FrameTimingSummary {
+  meanMs: number;
+  medianMs: number;
+  p95Ms: number;
+  maxMs: number;
+  /**
+   * Frames that started more than one and a half frame intervals after the one before;
+   * `null` for offline renders, which are not meant to keep up with the clock.
+   */
+  lateFrames: number | null;
+  slowest: { frameIndex: number; ms: number }[];
+}
+
+const SLOWEST_FRAMES = 5;
+
+export function createRenderTrace(): RenderTrace {
+  return { firstFrame: 0, frameMs: [], frameStartMs: [], phases: [] };
+}
+
+/** Records the time since `startedAt` against `phase`, and returns the time now. */
+export function tracePhase(trace: RenderTrace | undefined, phase: RenderPhase, startedAt: number) {
+  const now = performance.now();
+  trace?.phases.push({ phase, ms: now - startedAt });
+  return now;
+}
+
+/** Records a frame that started drawing at `startedAt`, in a loop that started at `loopStart`. */
+export function traceFrame(trace: RenderTrace | undefined, loopStart: number, startedAt: number) {
+  if (!trace) return;
+  trace.frameMs.push(performance.now() - startedAt);
+  trace.frameStartMs.push(startedAt - loopStart);
+}
+
+/** Adds a worker's trace to the page's. */
+export function appendRenderTrace(target: RenderTrace, source: RenderTrace) {
+  if (target.frameMs.length === 0) target.firstFrame = source.firstFrame;
+  for (let index = 0; index < source.frameMs.length; index++) {
+    target.frameMs.push(source.frameMs[index]);
+    target.frameStartMs.push(source.frameStartMs[index]);
+  }
+  target.phases.push(...source.phases);
+}
+
+function countLateFrames(trace: RenderTrace, fps: number) {
+  const interval = 1000 / fps;
+  let lateFrames = 0;
+  for (let index = 1; index < trace.frameStartMs.length; index++) {
+    if (trace.frameStartMs[index] - trace.frameStartMs[index - 1] > interval * 1.5) lateFrames++;
+  }
+  return lateFrames;
+}
+
+export function summarizeFrameTimings(
+  trace: RenderTrace,
+  fps: number,
+  mode: RenderMode,
+): FrameTimingSummary | null {
+  const count = trace.frameMs.length;
+  if (count === 0) return null;
+  const sorted = [...trace.frameMs].sort((a, b) => a - b);
+  return {
+    meanMs: trace.frameMs.reduce((total, ms) => total + ms, 0) / count,
+    medianMs: sorted[Math.floor((count - 1) / 2)],
+    p95Ms: sorted[Math.min(count - 1, Math.ceil(count * 0.95) - 1)],
+    maxMs: sorted[count - 1],
+    lateFrames: mode === "realtime" ? countLateFrames(trace, fps) : null,
+    slowest: trace.frameMs
+      .map((ms, index) => ({ frameIndex: trace.firstFrame + index, ms }))
+      .sort((a, b) => b.ms - a.ms)
+      .slice(0, SLOWEST_FRAMES),
+  };
+}
@@ -0,0 +1,8 @@
+import type { ExportFormat } from "@/lib/compositor";
+
+export interface EncodedClip {
+  blob: Blob;
+  extension: ExportFormat;
+}
+
+export type RenderMode = "realtime" | "offline";
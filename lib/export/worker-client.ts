@@ -0,0 +1,154 @@
+import type { AssetImages, GenerationSettings, TimelineSlice } from "@/lib/compositor";
+import type { FontSource } from "@/lib/fonts";
+import { RenderFrameError } from "./control";
+import {
+  isOfflineRenderSupported,
+  type OfflineRenderControl,
+  type PcmAudio,
+} from "./offline";
+import { appendRenderTrace } from "./trace";
+import type { EncodedClip } from "./types";
+import type { AudioSamples, RenderWorkerMessage, RenderWorkerRequest } from "./worker-protocol";
+
+export interface WorkerRenderResult {
+  clip: EncodedClip;
+  fingerprint: string | null;
+}
+
+/** Renders offline in a worker. It owns its canvas, so it renders one timeline at a time. */
+export interface WorkerRenderer {
+  render: (
+    timeline: TimelineSlice[],
+    settings: GenerationSettings,
+    onProgress: (complete: number) => void,
+    audio?: PcmAudio | null,
+    images?: AssetImages,
+    fonts?: FontSource[],
+    control?: OfflineRenderControl,
+    onFrame?: (frameIndex: number, sceneIndex: number) => void,
+  ) => Promise<WorkerRenderResult>;
+  dispose: () => void;
+}
+
+export function isWorkerRenderSupported() {
+  return (
+    typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    "transferControlToOffscreen" in HTMLCanvasElement.prototype &&
+    isOfflineRenderSupported()
+  );
+}
+
+function toAudioSamples(audio: PcmAudio): AudioSamples {
+  return {
+    sampleRate: audio.sampleRate,
+    channels: Array.from({ length: audio.numberOfChannels }, (_, channel) =>
+      audio.getChannelData(channel).slice(),
+    ),
+  };
+}
+
+function toError(message: Extract<RenderWorkerMessage, { type: "error" }>) {
+  if (message.cancelled) {
+    return new DOMException(message.message, "AbortError");
+  }
+  if (message.frameIndex !== null && message.sceneIndex !== null) {
+    return new RenderFrameError(
+      message.frameIndex,
+      message.sceneIndex,
+      new Error(message.message),
+      message.checkpoint,
+    );
+  }
+  return new Error(message.message);
+}
+
+/**
+ * Starts a render worker and hands it `canvas`. A canvas can only be transferred once, so
+ * keep the renderer for the page's lifetime rather than creating one per render.
+ */
+export function createWorkerRenderer(canvas: HTMLCanvasElement): WorkerRenderer {
+  const worker = new Worker(new URL("./render-worker.ts", import.meta.url), { type: "module" });
+  const post = (request: RenderWorkerRequest, transfer: Transferable[] = []) =>
+    worker.postMessage(request, transfer);
+  const offscreen = canvas.transferControlToOffscreen();
+  post({ type: "init", canvas: offscreen }, [offscreen]);
+  let busy = false;
+
+  const render: WorkerRenderer["render"] = (
+    timeline,
+    settings,
+    onProgress,
+    audio = null,
+    images = new Map(),
+    fonts = [],
+    { signal, pause, resumeFrom = null, trace, fingerprint = false } = {},
+    onFrame,
+  ) => {
+    if (busy) {
+      return Promise.reject(new Error("The render worker is already busy."));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+    busy = true;
+    return new Promise((resolve, reject) => {
+      const unsubscribe = pause?.subscribe((paused) =>
+        post({ type: paused ? "pause" : "resume" }),
+      );
+      const onAbort = () => post({ type: "cancel" });
+      const finish = () => {
+        busy = false;
+        unsubscribe?.();
+        signal?.removeEventListener("abort", onAbort);
+        worker.removeEventListener("message", onMessage);
+        worker.removeEventListener("error", onError);
+      };
+      const onMessage = (event: MessageEvent<RenderWorkerMessage>) => {
+        const message = event.data;
+        switch (message.type) {
+          case "progress":
+            onProgress(message.complete);
+            break;
+          case "frame":
+            onFrame?.(message.frameIndex, message.sceneIndex);
+            break;
+          case "complete":
+            finish();
+            if (trace) appendRenderTrace(trace, message.trace);
+            resolve({ clip: message.clip, fingerprint: message.fingerprint });
+            break;
+          case "error":
+            finish();
+            reject(toError(message));
+            break;
+        }
+      };
+      const onError = (event: ErrorEvent) => {
+        finish();
+        reject(new Error(event.message || "The render worker stopped unexpectedly."));
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      worker.addEventListener("message", onMessage);
+      worker.addEventListener("error", onError);
+      const samples = audio ? toAudioSamples(audio) : null;
+      post(
+        {
+          type: "start",
+          timeline,
+          settings,
+          audio: samples,
+          images,
+          fonts,
+          resumeFrom,
+          fingerprint,
+          paused: pause?.paused ?? false,
+        },
+        samples ? samples.channels.map((channel) => channel.buffer) : [],
+      );
+    });
+  };
+
+  return { render, dispose: () => worker.terminate() };
+}
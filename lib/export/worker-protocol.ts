@@ -0,0 +1,45 @@
+import type { AssetImages, GenerationSettings, TimelineSlice } from "@/lib/compositor";
+import type { FontSource } from "@/lib/fonts";
+import type { OfflineCheckpoint } from "./offline";
+import type { RenderTrace } from "./trace";
+import type { EncodedClip } from "./types";
+
+/** `AudioBuffer` cannot be posted, so the soundtrack crosses as raw samples. */
+export interface AudioSamples {
+  sampleRate: number;
+  channels: Float32Array<ArrayBuffer>[];
+}
+
+/** Messages the page posts to the render worker. */
+export type RenderWorkerRequest =
+  | { type: "init"; canvas: OffscreenCanvas }
+  | {
+      type: "start";
+      timeline: TimelineSlice[];
+      settings: GenerationSettings;
+      audio: AudioSamples | null;
+      images: AssetImages;
+      /** The worker has its own font set, so the faces the page loaded are sent along. */
+      fonts: FontSource[];
+      resumeFrom: OfflineCheckpoint | null;
+      fingerprint: boolean;
+      paused: boolean;
+    }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "cancel" };
+
+/** Messages the render worker posts back. Progress and frame updates are throttled. */
+export type RenderWorkerMessage =
+  | { type: "progress"; complete: number }
+  | { type: "frame"; frameIndex: number; sceneIndex: number }
+  | { type: "complete"; clip: EncodedClip; fingerprint: string | null; trace: RenderTrace }
+  | {
+      type: "error";
+      message: string;
+      cancelled: boolean;
+      /** Set when the failure could be pinned to a frame. */
+      frameIndex: number | null;
+      sceneIndex: number | null;
+      checkpoint: OfflineCheckpoint | null;
+    };
@@ -0,0 +1,206 @@
+import {
+  FONT_ROLE_LABELS,
+  splitGraphemes,
+  type FontUsage,
+  type RenderContext2D,
+} from "@/lib/compositor";
+import type { FontFallback, FontSource, StoredFont } from "./types";
+
+// next/font registers each family under a generated name, found through these variables.
+// Themes and the canvas use the plain names, so the same files are registered again as those.
+const BUILT_IN_FONTS: [family: string, variable: string][] = [
+  ["Space Grotesk", "--font-space-grotesk"],
+  ["DM Sans", "--font-dm-sans"],
+];
+
+const GENERIC_FAMILIES = [
+  "serif",
+  "sans-serif",
+  "monospace",
+  "cursive",
+  "fantasy",
+  "system-ui",
+  "ui-serif",
+  "ui-sans-serif",
+  "ui-monospace",
+  "ui-rounded",
+  "emoji",
+  "math",
+];
+
+const PROBE_FONT_SIZE = 32;
+const LISTED_CHARACTERS = 12;
+
+const registered = new WeakMap<FontFaceSet, Map<string, FontFace>>();
+
+/** The names in a CSS font-family list, without their quotes. */
+export function parseFontFamilies(list: string) {
+  return list
+    .split(",")
+    .map((name) => name.trim().replace(/^(['"])(.*)\1$/, "$2"))
+    .filter(Boolean);
+}
+
+// Workers resolve relative URLs against the worker script, so every URL is made absolute.
+function absoluteSource(src: string, base: string) {
+  return src.replace(
+    /url\((['"]?)(.*?)\1\)/g,
+    (_, quote: string, url: string) => `url("${new URL(url, base).href}")`,
+  );
+}
+
+function readDescriptors(style: CSSStyleDeclaration): FontFaceDescriptors {
+  const descriptors: FontFaceDescriptors = {};
+  const weight = style.getPropertyValue("font-weight");
+  const fontStyle = style.getPropertyValue("font-style");
+  const unicodeRange = style.getPropertyValue("unicode-range");
+  if (weight) descriptors.weight = weight;
+  if (fontStyle) descriptors.style = fontStyle;
+  if (unicodeRange) descriptors.unicodeRange = unicodeRange;
+  return descriptors;
+}
+
+/** The faces next/font loaded for the built-in families, under the names themes use. */
+export function findBuiltInFontSources(): FontSource[] {
+  if (typeof document === "undefined") return [];
+  const styles = getComputedStyle(document.body);
+  const generated = new Map(
+    BUILT_IN_FONTS.flatMap(([family, variable]) => {
+      const [name] = parseFontFamilies(styles.getPropertyValue(variable));
+      return name ? [[name, family] as const] : [];
+    }),
+  );
+  const sources: FontSource[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let rules: CSSRuleList;
+    try {
+      rules = sheet.cssRules;
+    } catch {
+      // Stylesheets from other origins cannot be read.
+      continue;
+    }
+    for (const rule of Array.from(rules)) {
+      if (!(rule instanceof CSSFontFaceRule)) continue;
+      const [name] = parseFontFamilies(rule.style.getPropertyValue("font-family"));
+      const family = generated.get(name);
+      const src = rule.style.getPropertyValue("src");
+      if (!family || !src) continue;
+      sources.push({
+        family,
+        source: absoluteSource(src, sheet.href ?? document.baseURI),
+        descriptors: readDescriptors(rule.style),
+      });
+    }
+  }
+  return sources;
+}
+
+/** Every face a render may need: the built-in families plus the uploaded fonts. */
+export async function collectFontSources(library: StoredFont[]): Promise<FontSource[]> {
+  const uploads = await Promise.all(
+    library.map(
+      async (font): Promise<FontSource> => ({
+        family: font.family,
+        source: await font.blob.arrayBuffer(),
+        descriptors: {},
+      }),
+    ),
+  );
+  return [...findBuiltInFontSources(), ...uploads];
+}
+
+function sourceKey({ family, source, descriptors }: FontSource) {
+  const file = typeof source === "string" ? source : `${source.byteLength} bytes`;
+  return `${family}\n${file}\n${JSON.stringify(descriptors)}`;
+}
+
+/**
+ * Adds `sources` to `set`, skipping faces it already has, then waits until every face
+ * `usage` draws with has loaded. Pass `document.fonts` on the page and `self.fonts` in a
+ * worker. Faces that fail to load are logged and left to fall back.
+ */
+export async function loadFonts(set: FontFaceSet, sources: FontSource[], usage: FontUsage[]) {
+  let faces = registered.get(set);
+  if (!faces) {
+    faces = new Map();
+    registered.set(set, faces);
+  }
+  for (const source of sources) {
+    const key = sourceKey(source);
+    if (faces.has(key)) continue;
+    const face = new FontFace(source.family, source.source, source.descriptors);
+    faces.set(key, face);
+    set.add(face);
+  }
+  await Promise.all(
+    usage.map(({ family, text }) =>
+      set
+        .load(`${PROBE_FONT_SIZE}px ${family}`, text || undefined)
+        .catch((err) => console.error(`The font ${family} could not be loaded.`, err)),
+    ),
+  );
+  await set.ready;
+}
+
+/** Removes the faces of a deleted font from `set`. */
+export function releaseFont(set: FontFaceSet, family: string) {
+  const faces = registered.get(set);
+  if (!faces) return;
+  for (const [key, face] of faces) {
+    if (face.family !== family) continue;
+    set.delete(face);
+    faces.delete(key);
+  }
+}
+
+function glyphSignature(ctx: RenderContext2D, font: string, text: string) {
+  ctx.font = font;
+  const metrics = ctx.measureText(text);
+  return [
+    metrics.width,
+    metrics.actualBoundingBoxLeft,
+    metrics.actualBoundingBoxRight,
+    metrics.actualBoundingBoxAscent,
+    metrics.actualBoundingBoxDescent,
+  ].join();
+}
+
+/**
+ * Characters of `text` the first font in `family` has no glyph for. A missing glyph is
+ * drawn by whichever font comes next, so it measures exactly like that font alone. Generic
+ * families such as `sans-serif` are assumed to cover everything.
+ */
+export function findFallbackCharacters(ctx: RenderContext2D, family: string, text: string) {
+  const [primary] = parseFontFamilies(family);
+  if (!primary || GENERIC_FAMILIES.includes(primary.toLowerCase())) return [];
+  const quoted = `"${primary.replace(/"/g, '\\"')}"`;
+  const characters = [...new Set(splitGraphemes(text))].filter((char) => /\S/.test(char));
+  return characters.filter((char) =>
+    ["monospace", "serif"].every(
+      (generic) =>
+        glyphSignature(ctx, `${PROBE_FONT_SIZE}px ${quoted}, ${generic}`, char) ===
+        glyphSignature(ctx, `${PROBE_FONT_SIZE}px ${generic}`, char),
+    ),
+  );
+}
+
+/** Every font in `usage` that is missing glyphs for the text drawn in it. */
+export function findFontFallbacks(ctx: RenderContext2D, usage: FontUsage[]): FontFallback[] {
+  const saved = ctx.font;
+  const fallbacks = usage.flatMap(({ role, family, text }) => {
+    const characters = findFallbackCharacters(ctx, family, text);
+    return characters.length > 0 ? [{ role, family, characters }] : [];
+  });
+  ctx.font = saved;
+  return fallbacks;
+}
+
+export function formatFontFallback({ role, family, characters }: FontFallback) {
+  const listed = characters.slice(0, LISTED_CHARACTERS).join(" ");
+  const more =
+    characters.length > LISTED_CHARACTERS
+      ? ` (+${characters.length - LISTED_CHARACTERS} more)`
+      : "";
+  const [name] = parseFontFamilies(family);
+  return `${FONT_ROLE_LABELS[role]} font ${name} has no glyphs for ${listed}${more}; a fallback font draws them instead.`;
+}
@@ -0,0 +1,12 @@
+export {
+  collectFontSources,
+  findBuiltInFontSources,
+  findFallbackCharacters,
+  findFontFallbacks,
+  formatFontFallback,
+  loadFonts,
+  parseFontFamilies,
+  releaseFont,
+} from "./faces";
+export { ACCEPTED_FONT_EXTENSIONS, deleteFont, listFonts, saveFont } from "./storage";
+export type { FontFallback, FontSource, FontSummary, StoredFont } from "./types";
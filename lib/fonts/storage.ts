@@ -0,0 +1,62 @@
+import { withStore } from "@/lib/storage";
+import type { StoredFont } from "./types";
+
+export const ACCEPTED_FONT_EXTENSIONS = [".ttf", ".woff2"];
+
+const FONT_TYPES: Record<string, string> = {
+  ".ttf": "font/ttf",
+  ".woff2": "font/woff2",
+};
+
+function fontExtension(name: string) {
+  const extension = name.slice(name.lastIndexOf(".")).toLowerCase();
+  return ACCEPTED_FONT_EXTENSIONS.includes(extension) ? extension : null;
+}
+
+/** A family name from the file name, numbered when the library already has one like it. */
+function familyName(fileName: string, taken: string[]) {
+  const base =
+    fileName
+      .replace(/\.[^.]+$/, "")
+      .replace(/[-_]+/g, " ")
+      .replace(/[^\p{L}\p{N} ]/gu, "")
+      .replace(/\s+/g, " ")
+      .trim()
+      .slice(0, 60) || "Uploaded Font";
+  let family = base;
+  for (let copy = 2; taken.includes(family); copy++) family = `${base} ${copy}`;
+  return family;
+}
+
+/** Stores an uploaded font after checking that the browser can load it. */
+export async function saveFont(file: File, library: StoredFont[]): Promise<StoredFont> {
+  const extension = fontExtension(file.name);
+  if (!extension) {
+    throw new Error(`${file.name} is not a TTF or WOFF2 font.`);
+  }
+  const family = familyName(file.name, library.map((font) => font.family));
+  try {
+    await new FontFace(family, await file.arrayBuffer()).load();
+  } catch {
+    throw new Error(`${file.name} could not be loaded as a font.`);
+  }
+  const font: StoredFont = {
+    id: crypto.randomUUID(),
+    family,
+    name: file.name,
+    type: FONT_TYPES[extension],
+    createdAt: new Date().toISOString(),
+    blob: file,
+  };
+  await withStore("fonts", "readwrite", (store) => store.put(font));
+  return font;
+}
+
+export async function listFonts() {
+  const fonts = await withStore<StoredFont[]>("fonts", "readonly", (store) => store.getAll());
+  return fonts.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+export async function deleteFont(id: string) {
+  await withStore("fonts", "readwrite", (store) => store.delete(id));
+}
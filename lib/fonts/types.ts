@@ -0,0 +1,33 @@
+import type { FontRole } from "@/lib/compositor";
+
+export interface FontSummary {
+  id: string;
+  /** Family name the font is registered under; unique within the library. */
+  family: string;
+  /** Name of the uploaded file. */
+  name: string;
+  type: string;
+  createdAt: string;
+}
+
+/** An uploaded TTF or WOFF2 font as kept in IndexedDB. */
+export interface StoredFont extends FontSummary {
+  blob: Blob;
+}
+
+/**
+ * One font face in a form that can be posted to a worker, which has its own font set and
+ * cannot see the page's. `source` is a CSS `src` value with absolute URLs, or the font file.
+ */
+export interface FontSource {
+  family: string;
+  source: string | ArrayBuffer;
+  descriptors: FontFaceDescriptors;
+}
+
+/** Characters a render draws in a fallback font because the chosen one lacks them. */
+export interface FontFallback {
+  role: FontRole;
+  family: string;
+  characters: string[];
+}
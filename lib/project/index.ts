@@ -0,0 +1,21 @@
+export {
+  DEFAULT_PROJECT_SETTINGS,
+  PROJECT_FILE_EXTENSION,
+  PROJECT_FILE_VERSION,
+  PROJECT_SCHEMA_ID,
+  ProjectFileError,
+  createProject,
+  parseProjectFile,
+  projectFilename,
+  serializeProject,
+  toProjectFile,
+} from "./schema";
+export { deleteProject, listRecentProjects, loadProject, saveProject } from "./storage";
+export type { NebulaProject, ProjectFile, ProjectSummary } from "./types";
+export {
+  buildShareUrl,
+  decodeProjectState,
+  encodeProjectState,
+  readShareLink,
+  type ShareLink,
+} from "./share";
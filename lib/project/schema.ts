@@ -0,0 +1,499 @@
+import { DEFAULT_AUDIO_SETTINGS } from "@/lib/audio";
+import {
+  ASPECT_RATIO_LABELS,
+  ASSET_FIT_LABELS,
+  ASSET_MOTION_LABELS,
+  DEFAULT_OUTPUT_SIZE,
+  DEFAULT_THEME,
+  DEFAULT_TRANSITION,
+  RESOLUTION_LABELS,
+  TRANSITION_LABELS,
+  findTextAnimation,
+  type AspectRatio,
+  type AssetFit,
+  type AssetMotion,
+  type GenerationSettings,
+  type OutputResolution,
+  type SceneAsset,
+  type SceneOverride,
+  type SceneOverrides,
+  type TextRange,
+  type TransitionSettings,
+} from "@/lib/compositor";
+import { validatePalette, validateTheme } from "@/lib/themes";
+import type { NebulaProject, ProjectFile } from "./types";
+
+export const PROJECT_SCHEMA_ID = "nebula-studio/project";
+export const PROJECT_FILE_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = ".nebula.json";
+
+export const DEFAULT_PROJECT_SETTINGS: GenerationSettings = {
+  fps: 24,
+  segmentSeconds: 3,
+  theme: DEFAULT_THEME,
+  output: DEFAULT_OUTPUT_SIZE,
+  format: "mp4",
+  bitrate: 6_000_000,
+  transition: DEFAULT_TRANSITION,
+  captionStyle: "centered",
+};
+
+export class ProjectFileError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : "";
+    super(`Invalid project: ${issues[0]}${more}`);
+    this.name = "ProjectFileError";
+    this.issues = issues;
+  }
+}
+
+type RawProject = Record<string, unknown>;
+
+/**
+ * Upgrades keyed by the version they upgrade from. Each one receives the raw `project`
+ * object of that version and returns the shape of the next version.
+ */
+const MIGRATIONS: Record<number, (project: RawProject) => RawProject> = {
+  // Version 1 always rendered 1280×720.
+  1: (project) => ({
+    ...project,
+    settings: isObject(project.settings)
+      ? { ...project.settings, output: { aspectRatio: "16:9", resolution: "720p" } }
+      : project.settings,
+    batchAspectRatios: [],
+  }),
+};
+
+function migrate(project: RawProject, version: number) {
+  let current = project;
+  for (let from = version; from < PROJECT_FILE_VERSION; from += 1) {
+    const step = MIGRATIONS[from];
+    if (!step) {
+      throw new ProjectFileError([`No migration from project version ${from}.`]);
+    }
+    current = step(current);
+  }
+  return current;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+function readString(value: unknown, path: string, issues: string[], fallback?: string) {
+  if (value === undefined && fallback !== undefined) return fallback;
+  if (typeof value !== "string") {
+    issues.push(`${path} must be a string.`);
+    return fallback ?? "";
+  }
+  return value;
+}
+
+function readNumber(
+  value: unknown,
+  path: string,
+  issues: string[],
+  min: number,
+  max: number,
+  fallback: number,
+) {
+  if (value === undefined) return fallback;
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    issues.push(`${path} must be a number between ${min} and ${max}.`);
+    return fallback;
+  }
+  return value;
+}
+
+function readChoice<T extends string>(
+  value: unknown,
+  path: string,
+  issues: string[],
+  choices: readonly T[],
+  fallback: T,
+): T {
+  if (value === undefined) return fallback;
+  if (!choices.includes(value as T)) {
+    issues.push(`${path} must be one of: ${choices.join(", ")}.`);
+    return fallback;
+  }
+  return value as T;
+}
+
+function readTransition(value: unknown, path: string, issues: string[]): TransitionSettings {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object.`);
+    return DEFAULT_TRANSITION;
+  }
+  return {
+    type: readChoice(
+      value.type,
+      `${path}.type`,
+      issues,
+      Object.keys(TRANSITION_LABELS) as TransitionSettings["type"][],
+      DEFAULT_TRANSITION.type,
+    ),
+    durationSeconds: readNumber(
+      value.durationSeconds,
+      `${path}.durationSeconds`,
+      issues,
+      0,
+      5,
+      DEFAULT_TRANSITION.durationSeconds,
+    ),
+    direction: readChoice(
+      value.direction,
+      `${path}.direction`,
+      issues,
+      ["left", "right", "up", "down"] as const,
+      DEFAULT_TRANSITION.direction,
+    ),
+  };
+}
+
+const ASPECT_RATIOS = Object.keys(ASPECT_RATIO_LABELS) as AspectRatio[];
+
+function readSettings(value: unknown, issues: string[]): GenerationSettings {
+  const input = isObject(value) ? value : {};
+  if (!isObject(value)) issues.push("project.settings must be an object.");
+  const defaults = DEFAULT_PROJECT_SETTINGS;
+  return {
+    fps: Math.round(readNumber(input.fps, "project.settings.fps", issues, 1, 60, defaults.fps)),
+    segmentSeconds: readNumber(
+      input.segmentSeconds,
+      "project.settings.segmentSeconds",
+      issues,
+      1,
+      30,
+      defaults.segmentSeconds,
+    ),
+    theme:
+      input.theme === undefined
+        ? defaults.theme
+        : validateTheme(input.theme, "project.settings.theme", issues),
+    output: isObject(input.output)
+      ? {
+          aspectRatio: readChoice(
+            input.output.aspectRatio,
+            "project.settings.output.aspectRatio",
+            issues,
+            ASPECT_RATIOS,
+            defaults.output.aspectRatio,
+          ),
+          resolution: readChoice(
+            input.output.resolution,
+            "project.settings.output.resolution",
+            issues,
+            Object.keys(RESOLUTION_LABELS) as OutputResolution[],
+            defaults.output.resolution,
+          ),
+        }
+      : defaults.output,
+    format: readChoice(
+      input.format,
+      "project.settings.format",
+      issues,
+      ["mp4", "webm"],
+      defaults.format,
+    ),
+    bitrate: readNumber(
+      input.bitrate,
+      "project.settings.bitrate",
+      issues,
+      250_000,
+      50_000_000,
+      defaults.bitrate,
+    ),
+    transition:
+      input.transition === undefined
+        ? defaults.transition
+        : readTransition(input.transition, "project.settings.transition", issues),
+    captionStyle: readChoice(
+      input.captionStyle,
+      "project.settings.captionStyle",
+      issues,
+      ["centered", "lower-third"],
+      defaults.captionStyle,
+    ),
+  };
+}
+
+function readLayerToggles(value: unknown, path: string, issues: string[]) {
+  if (!isObject(value)) {
+    issues.push(`${path} must be an object.`);
+    return {};
+  }
+  const toggles: Record<string, boolean> = {};
+  for (const [id, enabled] of Object.entries(value)) {
+    if (typeof enabled !== "boolean") {
+      issues.push(`${path}[${JSON.stringify(id)}] must be true or false.`);
+      continue;
+    }
+    toggles[id] = enabled;
+  }
+  return toggles;
+}
+
+function readHighlights(value: unknown, path: string, issues: string[]): TextRange[] {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array.`);
+    return [];
+  }
+  return value.flatMap((raw, index) => {
+    const rangePath = `${path}[${index}]`;
+    if (
+      !isObject(raw) ||
+      typeof raw.start !== "number" ||
+      typeof raw.end !== "number" ||
+      !Number.isInteger(raw.start) ||
+      !Number.isInteger(raw.end) ||
+      raw.start < 0 ||
+      raw.end <= raw.start
+    ) {
+      issues.push(`${rangePath} must be { start, end } with whole numbers and start before end.`);
+      return [];
+    }
+    return [{ start: raw.start, end: raw.end }];
+  });
+}
+
+function readSceneAssets(value: unknown, path: string, issues: string[]): SceneAsset[] {
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array.`);
+    return [];
+  }
+  return value.flatMap((raw, index) => {
+    const assetPath = `${path}[${index}]`;
+    if (!isObject(raw)) {
+      issues.push(`${assetPath} must be an object.`);
+      return [];
+    }
+    const mode = readChoice(
+      raw.mode,
+      `${assetPath}.mode`,
+      issues,
+      ["background", "overlay"] as const,
+      "background",
+    );
+    return [
+      {
+        assetId: readString(raw.assetId, `${assetPath}.assetId`, issues),
+        mode,
+        fit: readChoice(
+          raw.fit,
+          `${assetPath}.fit`,
+          issues,
+          Object.keys(ASSET_FIT_LABELS) as AssetFit[],
+          mode === "background" ? "cover" : "contain",
+        ),
+        motion: readChoice(
+          raw.motion,
+          `${assetPath}.motion`,
+          issues,
+          Object.keys(ASSET_MOTION_LABELS) as AssetMotion[],
+          "none",
+        ),
+        x: readNumber(raw.x, `${assetPath}.x`, issues, 0, 1, 0.5),
+        y: readNumber(raw.y, `${assetPath}.y`, issues, 0, 1, 0.5),
+        size: readNumber(raw.size, `${assetPath}.size`, issues, 0.05, 1, 1),
+        opacity: readNumber(raw.opacity, `${assetPath}.opacity`, issues, 0, 1, 1),
+      },
+    ];
+  });
+}
+
+function readOverrides(value: unknown, issues: string[]): SceneOverrides {
+  if (value === undefined) return {};
+  if (!isObject(value)) {
+    issues.push("project.sceneOverrides must be an object.");
+    return {};
+  }
+  const overrides: SceneOverrides = {};
+  for (const [key, raw] of Object.entries(value)) {
+    const path = `project.sceneOverrides[${JSON.stringify(key)}]`;
+    if (!isObject(raw)) {
+      issues.push(`${path} must be an object.`);
+      continue;
+    }
+    const override: SceneOverride = {};
+    if (raw.durationSeconds !== undefined) {
+      override.durationSeconds = readNumber(
+        raw.durationSeconds,
+        `${path}.durationSeconds`,
+        issues,
+        1,
+        30,
+        3,
+      );
+    }
+    if (raw.palette !== undefined) {
+      override.palette = validatePalette(raw.palette, `${path}.palette`, issues);
+    }
+    if (raw.textAlign !== undefined) {
+      override.textAlign = readChoice(
+        raw.textAlign,
+        `${path}.textAlign`,
+        issues,
+        ["left", "center", "right"] as const,
+        "center",
+      );
+    }
+    if (raw.transition !== undefined) {
+      override.transition = readTransition(raw.transition, `${path}.transition`, issues);
+    }
+    if (raw.animation !== undefined) {
+      const animation = readString(raw.animation, `${path}.animation`, issues);
+      if (findTextAnimation(animation)) {
+        override.animation = animation;
+      } else if (typeof raw.animation === "string") {
+        issues.push(`${path}.animation "${animation}" is not a text animation preset.`);
+      }
+    }
+    if (raw.assets !== undefined) {
+      override.assets = readSceneAssets(raw.assets, `${path}.assets`, issues);
+    }
+    if (raw.highlights !== undefined) {
+      override.highlights = readHighlights(raw.highlights, `${path}.highlights`, issues);
+    }
+    if (raw.layerToggles !== undefined) {
+      override.layerToggles = readLayerToggles(raw.layerToggles, `${path}.layerToggles`, issues);
+    }
+    overrides[key] = override;
+  }
+  return overrides;
+}
+
+function readBatchAspectRatios(value: unknown, issues: string[]) {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) {
+    issues.push("project.batchAspectRatios must be an array.");
+    return [];
+  }
+  return value.map((ratio, index) =>
+    readChoice(
+      ratio,
+      `project.batchAspectRatios[${index}]`,
+      issues,
+      ASPECT_RATIOS,
+      DEFAULT_OUTPUT_SIZE.aspectRatio,
+    ),
+  );
+}
+
+/** Reads a project file of any known version, migrating it to the current one. */
+export function parseProjectFile(value: unknown): NebulaProject {
+  if (!isObject(value) || value.schema !== PROJECT_SCHEMA_ID) {
+    throw new ProjectFileError([`file.schema must be "${PROJECT_SCHEMA_ID}".`]);
+  }
+  const version = value.version;
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new ProjectFileError(["file.version must be a positive integer."]);
+  }
+  if (version > PROJECT_FILE_VERSION) {
+    throw new ProjectFileError([
+      `This project was saved by a newer version of Nebula Studio (file version ${version}).`,
+    ]);
+  }
+  if (!isObject(value.project)) {
+    throw new ProjectFileError(["file.project must be an object."]);
+  }
+
+  const input = migrate(value.project, version);
+  const issues: string[] = [];
+  const now = new Date().toISOString();
+  const audio = isObject(input.audio) ? input.audio : {};
+  const audioSettings = isObject(audio.settings) ? audio.settings : {};
+  const project: NebulaProject = {
+    id: readString(input.id, "project.id", issues),
+    name: readString(input.name, "project.name", issues, "Untitled project"),
+    createdAt: readString(input.createdAt, "project.createdAt", issues, now),
+    updatedAt: readString(input.updatedAt, "project.updatedAt", issues, now),
+    prompt: readString(input.prompt, "project.prompt", issues),
+    settings: readSettings(input.settings, issues),
+    sceneOverrides: readOverrides(input.sceneOverrides, issues),
+    batchAspectRatios: readBatchAspectRatios(input.batchAspectRatios, issues),
+    renderMode: readChoice(
+      input.renderMode,
+      "project.renderMode",
+      issues,
+      ["offline", "realtime"],
+      "offline",
+    ),
+    audio: {
+      settings: {
+        volume: readNumber(
+          audioSettings.volume,
+          "project.audio.settings.volume",
+          issues,
+          0,
+          1,
+          DEFAULT_AUDIO_SETTINGS.volume,
+        ),
+        fadeInSeconds: readNumber(
+          audioSettings.fadeInSeconds,
+          "project.audio.settings.fadeInSeconds",
+          issues,
+          0,
+          5,
+          DEFAULT_AUDIO_SETTINGS.fadeInSeconds,
+        ),
+        fadeOutSeconds: readNumber(
+          audioSettings.fadeOutSeconds,
+          "project.audio.settings.fadeOutSeconds",
+          issues,
+          0,
+          5,
+          DEFAULT_AUDIO_SETTINGS.fadeOutSeconds,
+        ),
+      },
+      timingMode: readChoice(
+        audio.timingMode,
+        "project.audio.timingMode",
+        issues,
+        ["fixed", "beats", "pauses"],
+        "fixed",
+      ),
+    },
+  };
+  if (project.id === "") {
+    issues.push("project.id must not be empty.");
+  }
+  if (issues.length > 0) {
+    throw new ProjectFileError(issues);
+  }
+  return project;
+}
+
+export function createProject(prompt = ""): NebulaProject {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name: "Untitled project",
+    createdAt: now,
+    updatedAt: now,
+    prompt,
+    settings: DEFAULT_PROJECT_SETTINGS,
+    sceneOverrides: {},
+    batchAspectRatios: [],
+    renderMode: "offline",
+    audio: { settings: DEFAULT_AUDIO_SETTINGS, timingMode: "fixed" },
+  };
+}
+
+export function toProjectFile(project: NebulaProject): ProjectFile {
+  return { schema: PROJECT_SCHEMA_ID, version: PROJECT_FILE_VERSION, project };
+}
+
+export function serializeProject(project: NebulaProject) {
+  return JSON.stringify(toProjectFile(project), null, 2);
+}
+
+export function projectFilename(project: NebulaProject) {
+  const slug = project.name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `${slug || "untitled"}${PROJECT_FILE_EXTENSION}`;
+}
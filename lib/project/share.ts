@@ -0,0 +1,83 @@
+import { ProjectFileError, parseProjectFile, toProjectFile } from "./schema";
+import type { NebulaProject } from "./types";
+
+const SHARE_PROJECT_PARAM = "project";
+const SHARE_CLIP_PARAM = "clip";
+// The first character of a token says how the rest is encoded.
+const RAW_ENCODING = "0";
+const DEFLATE_ENCODING = "1";
+
+export interface ShareLink {
+  token: string;
+  /** Id of a clip hosted under `/api/clips/:id`, if one was uploaded with the link. */
+  clipId: string | null;
+}
+
+function toBase64Url(bytes: Uint8Array) {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+async function pipeBytes(
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream,
+) {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Packs the whole project into a URL-safe token. Soundtrack and image files are not
+ * included; only how they were used travels with the link.
+ */
+export async function encodeProjectState(project: NebulaProject) {
+  const bytes = new TextEncoder().encode(JSON.stringify(toProjectFile(project)));
+  if (typeof CompressionStream === "undefined") {
+    return `${RAW_ENCODING}${toBase64Url(bytes)}`;
+  }
+  const compressed = await pipeBytes(bytes, new CompressionStream("deflate-raw"));
+  return `${DEFLATE_ENCODING}${toBase64Url(compressed)}`;
+}
+
+/**
+ * Reads a token made by `encodeProjectState`. The project gets a fresh id so opening a
+ * link never overwrites a project already saved in this browser.
+ */
+export async function decodeProjectState(token: string): Promise<NebulaProject> {
+  if (token[0] !== RAW_ENCODING && token[0] !== DEFLATE_ENCODING) {
+    throw new ProjectFileError(["The share link was made by a newer version of Nebula Studio."]);
+  }
+  let value: unknown;
+  try {
+    let bytes = fromBase64Url(token.slice(1));
+    if (token[0] === DEFLATE_ENCODING) {
+      bytes = await pipeBytes(bytes, new DecompressionStream("deflate-raw"));
+    }
+    value = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    throw new ProjectFileError(["The share link is incomplete or damaged."]);
+  }
+  return { ...parseProjectFile(value), id: crypto.randomUUID() };
+}
+
+/** Puts the token in the URL fragment, which browsers never send to the server. */
+export function buildShareUrl(base: string, { token, clipId }: ShareLink) {
+  const url = new URL(base);
+  const params = new URLSearchParams({ [SHARE_PROJECT_PARAM]: token });
+  if (clipId) params.set(SHARE_CLIP_PARAM, clipId);
+  url.hash = params.toString();
+  return url.toString();
+}
+
+export function readShareLink(hash: string): ShareLink | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const token = params.get(SHARE_PROJECT_PARAM);
+  if (!token) return null;
+  return { token, clipId: params.get(SHARE_CLIP_PARAM) };
+}
@@ -0,0 +1,39 @@
+import { withStore } from "@/lib/storage";
+import { parseProjectFile, toProjectFile } from "./schema";
+import type { NebulaProject, ProjectFile, ProjectSummary } from "./types";
+
+interface ProjectRecord extends ProjectSummary {
+  file: ProjectFile;
+}
+
+export async function saveProject(project: NebulaProject) {
+  const record: ProjectRecord = {
+    id: project.id,
+    name: project.name,
+    updatedAt: project.updatedAt,
+    file: toProjectFile(project),
+  };
+  await withStore("projects", "readwrite", (store) => store.put(record));
+}
+
+/** Loads a saved project, migrating records written by older versions. */
+export async function loadProject(id: string) {
+  const record = await withStore<ProjectRecord | undefined>("projects", "readonly", (store) =>
+    store.get(id),
+  );
+  return record ? parseProjectFile(record.file) : null;
+}
+
+export async function listRecentProjects(limit = 8): Promise<ProjectSummary[]> {
+  const records = await withStore<ProjectRecord[]>("projects", "readonly", (store) =>
+    store.getAll(),
+  );
+  return records
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .slice(0, limit);
+}
+
+export async function deleteProject(id: string) {
+  await withStore("projects", "readwrite", (store) => store.delete(id));
+}
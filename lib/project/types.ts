@@ -0,0 +1,37 @@
+import type { AudioTrackSettings, SceneTimingMode } from "@/lib/audio";
+import type { AspectRatio, GenerationSettings, SceneOverrides } from "@/lib/compositor";
+import type { RenderMode } from "@/lib/export";
+
+/**
+ * Everything needed to reopen a piece of work. The soundtrack file itself is not stored,
+ * only how it is mixed, so it has to be attached again after a project is opened.
+ */
+export interface NebulaProject {
+  id: string;
+  name: string;
+  /** ISO timestamps. */
+  createdAt: string;
+  updatedAt: string;
+  prompt: string;
+  settings: GenerationSettings;
+  sceneOverrides: SceneOverrides;
+  /** Extra aspect ratios rendered alongside `settings.output`, at the same resolution. */
+  batchAspectRatios: AspectRatio[];
+  renderMode: RenderMode;
+  audio: {
+    settings: AudioTrackSettings;
+    timingMode: SceneTimingMode;
+  };
+}
+
+export interface ProjectFile {
+  schema: "nebula-studio/project";
+  version: number;
+  project: NebulaProject;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: string;
+}
@@ -0,0 +1,90 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+type ClipStore = typeof import("./clip-store");
+
+let directory: string;
+let store: ClipStore;
+
+// The clip directory and limits are read when the module loads.
+beforeAll(async () => {
+  directory = await mkdtemp(path.join(tmpdir(), "nebula-clips-"));
+  process.env.NEBULA_CLIP_DIR = directory;
+  process.env.NEBULA_MAX_CLIPS = "2";
+  store = await import("./clip-store");
+});
+
+afterAll(async () => {
+  delete process.env.NEBULA_CLIP_DIR;
+  delete process.env.NEBULA_MAX_CLIPS;
+  await rm(directory, { recursive: true, force: true });
+});
+
+function upload(bytes: Uint8Array<ArrayBuffer>, type = "video/mp4") {
+  return new Request("http://localhost/api/clips", {
+    method: "POST",
+    headers: { "Content-Type": type },
+    body: bytes,
+  });
+}
+
+const CLIP = Uint8Array.from({ length: 1000 }, (_, index) => index % 251);
+
+async function read(id: string, range: string | null = null) {
+  const clip = await store.readClip(id);
+  if (!clip) throw new Error(`Clip ${id} is missing.`);
+  const response = store.clipResponse(clip, range);
+  return { response, bytes: new Uint8Array(await response.arrayBuffer()) };
+}
+
+describe("clip store", () => {
+  it("streams an upload to disk and serves it whole", async () => {
+    const { id, url } = await store.saveClip(upload(CLIP));
+    expect(url).toBe(`/api/clips/${id}`);
+    const { response, bytes } = await read(id);
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Length")).toBe("1000");
+    expect(bytes).toEqual(CLIP);
+  });
+
+  it("serves only the requested byte range", async () => {
+    const { id } = await store.saveClip(upload(CLIP));
+    const { response, bytes } = await read(id, "bytes=100-199");
+    expect(response.status).toBe(206);
+    expect(response.headers.get("Content-Range")).toBe("bytes 100-199/1000");
+    expect(bytes).toEqual(CLIP.subarray(100, 200));
+
+    const suffix = await read(id, "bytes=-10");
+    expect(suffix.bytes).toEqual(CLIP.subarray(990));
+    expect((await read(id, "bytes=5000-")).response.status).toBe(416);
+  });
+
+  it("rejects other types and empty uploads without writing them", async () => {
+    const before = await readdir(directory);
+    await expect(store.saveClip(upload(CLIP, "text/plain"))).rejects.toMatchObject({
+      status: 415,
+    });
+    await expect(store.saveClip(upload(new Uint8Array(0)))).rejects.toMatchObject({
+      status: 400,
+    });
+    expect(await readdir(directory)).toEqual(before);
+  });
+
+  it("deletes the oldest clips beyond the limit", async () => {
+    const ids: string[] = [];
+    for (let index = 0; index < 3; index++) {
+      ids.push((await store.saveClip(upload(CLIP))).id);
+      // Modification times need to differ for the oldest to be picked.
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+    const kept = ids.slice(1).map((id) => `${id}.mp4`);
+    expect((await readdir(directory)).sort()).toEqual(kept.sort());
+    expect(await store.readClip(ids[0])).toBeNull();
+  });
+
+  it("ignores ids that are not clip ids", async () => {
+    expect(await store.readClip("../package")).toBeNull();
+  });
+});
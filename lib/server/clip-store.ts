@@ -0,0 +1,180 @@
+import { randomUUID } from "node:crypto";
+import { createReadStream, createWriteStream } from "node:fs";
+import { mkdir, readdir, rename, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { Readable, Transform } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import type { ReadableStream as NodeReadableStream } from "node:stream/web";
+import type { GenerationSettings } from "@/lib/compositor";
+
+const CLIP_DIRECTORY = process.env.NEBULA_CLIP_DIR ?? path.join(process.cwd(), ".nebula-clips");
+export const MAX_CLIP_BYTES = 512 * 1024 * 1024;
+/** Older clips are deleted once there are more than this many. */
+const MAX_STORED_CLIPS = Math.max(1, Number(process.env.NEBULA_MAX_CLIPS) || 50);
+/** Clips, and uploads that never finished, are deleted after this many days. */
+const MAX_CLIP_AGE_DAYS = Number(process.env.NEBULA_CLIP_MAX_AGE_DAYS) || 7;
+const MAX_CLIP_AGE_MS = MAX_CLIP_AGE_DAYS * 24 * 60 * 60 * 1000;
+
+type ClipExtension = GenerationSettings["format"];
+
+const CLIP_TYPES: Record<ClipExtension, string> = {
+  mp4: "video/mp4",
+  webm: "video/webm",
+};
+
+const CLIP_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export class ClipUploadError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ClipUploadError";
+    this.status = status;
+  }
+}
+
+export interface StoredClip {
+  id: string;
+  file: string;
+  size: number;
+  mimeType: string;
+  extension: ClipExtension;
+}
+
+function extensionForType(contentType: string | null): ClipExtension | null {
+  const mimeType = contentType?.split(";")[0].trim().toLowerCase();
+  const match = Object.entries(CLIP_TYPES).find(([, type]) => type === mimeType);
+  return match ? (match[0] as ClipExtension) : null;
+}
+
+function tooLarge() {
+  return new ClipUploadError("Clips are limited to 512 MB.", 413);
+}
+
+// Stops the upload as soon as it passes the limit, whatever Content-Length claimed.
+function limitBytes(max: number) {
+  let received = 0;
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      received += chunk.length;
+      callback(received > max ? tooLarge() : null, chunk);
+    },
+  });
+}
+
+/** Deletes clips past their age, then the oldest beyond the count limit. */
+async function pruneClips(now = Date.now()) {
+  const names = await readdir(CLIP_DIRECTORY).catch(() => [] as string[]);
+  const files = await Promise.all(
+    names.map(async (name) => {
+      const info = await stat(path.join(CLIP_DIRECTORY, name)).catch(() => null);
+      return info?.isFile() ? { name, modified: info.mtimeMs } : null;
+    }),
+  );
+  let kept = 0;
+  const expired = files
+    .filter((file) => file !== null)
+    .sort((a, b) => b.modified - a.modified)
+    .filter(({ name, modified }) => {
+      if (now - modified > MAX_CLIP_AGE_MS) return true;
+      // Uploads in progress are left alone until they are old enough to count as abandoned.
+      if (name.endsWith(".part")) return false;
+      return ++kept > MAX_STORED_CLIPS;
+    });
+  await Promise.all(
+    expired.map(({ name }) => rm(path.join(CLIP_DIRECTORY, name), { force: true })),
+  );
+}
+
+/**
+ * Streams an uploaded render into the clip directory and returns the id it is served under.
+ * Each upload also clears out clips past their age or count limit.
+ */
+export async function saveClip(request: Request): Promise<{ id: string; url: string }> {
+  const extension = extensionForType(request.headers.get("Content-Type"));
+  if (!extension) {
+    throw new ClipUploadError("Clips must be uploaded as video/mp4 or video/webm.", 415);
+  }
+  const declared = Number(request.headers.get("Content-Length"));
+  if (declared > MAX_CLIP_BYTES) {
+    throw tooLarge();
+  }
+  if (!request.body) {
+    throw new ClipUploadError("The uploaded clip is empty.");
+  }
+
+  const id = randomUUID();
+  const file = path.join(CLIP_DIRECTORY, `${id}.${extension}`);
+  const partial = `${file}.part`;
+  await mkdir(CLIP_DIRECTORY, { recursive: true });
+  try {
+    await pipeline(
+      Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>),
+      limitBytes(MAX_CLIP_BYTES),
+      createWriteStream(partial),
+    );
+    if ((await stat(partial)).size === 0) {
+      throw new ClipUploadError("The uploaded clip is empty.");
+    }
+    await rename(partial, file);
+  } catch (err) {
+    await rm(partial, { force: true });
+    throw err;
+  }
+  await pruneClips();
+  return { id, url: `/api/clips/${id}` };
+}
+
+export async function readClip(id: string): Promise<StoredClip | null> {
+  if (!CLIP_ID_PATTERN.test(id)) return null;
+  for (const extension of Object.keys(CLIP_TYPES) as ClipExtension[]) {
+    const file = path.join(CLIP_DIRECTORY, `${id}.${extension}`);
+    const info = await stat(file).catch(() => null);
+    if (info?.isFile()) {
+      return { id, file, size: info.size, mimeType: CLIP_TYPES[extension], extension };
+    }
+  }
+  return null;
+}
+
+function streamFile(file: string, start: number, end: number) {
+  return Readable.toWeb(createReadStream(file, { start, end })) as ReadableStream<Uint8Array>;
+}
+
+/**
+ * Serves a stored clip inline, streamed from disk. Browsers seek in `<video>` with byte
+ * ranges, so a single `Range: bytes=start-end` is answered with a 206 of just that range.
+ */
+export function clipResponse(clip: StoredClip, range: string | null) {
+  const { size } = clip;
+  const headers = {
+    "Content-Type": clip.mimeType,
+    "Accept-Ranges": "bytes",
+    "Cache-Control": "public, max-age=31536000, immutable",
+    "Content-Disposition": `inline; filename="nebula-synth.${clip.extension}"`,
+  };
+  const match = range?.match(/^bytes=(\d*)-(\d*)$/);
+  if (!match || (!match[1] && !match[2])) {
+    return new Response(streamFile(clip.file, 0, size - 1), {
+      headers: { ...headers, "Content-Length": String(size) },
+    });
+  }
+
+  const start = match[1] ? Number(match[1]) : Math.max(0, size - Number(match[2]));
+  const end = match[1] && match[2] ? Math.min(Number(match[2]), size - 1) : size - 1;
+  if (start >= size || start > end) {
+    return new Response(null, {
+      status: 416,
+      headers: { ...headers, "Content-Range": `bytes */${size}` },
+    });
+  }
+  return new Response(streamFile(clip.file, start, end), {
+    status: 206,
+    headers: {
+      ...headers,
+      "Content-Length": String(end - start + 1),
+      "Content-Range": `bytes ${start}-${end}/${size}`,
+    },
+  });
+}
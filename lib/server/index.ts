@@ -0,0 +1,22 @@
+export {
+  ClipUploadError,
+  MAX_CLIP_BYTES,
+  clipResponse,
+  readClip,
+  saveClip,
+  type StoredClip,
+} from "./clip-store";
+export { renderTimelineOnServer, type ServerRenderResult } from "./node-renderer";
+export {
+  RenderQueueFullError,
+  createRenderJob,
+  getRenderJob,
+  summarizeRenderJob,
+  videoResponse,
+  waitForRenderJob,
+  type RenderJob,
+  type RenderJobStatus,
+  type RenderJobSummary,
+} from "./render-jobs";
+export { RenderRequestError, parseRenderRequest, type RenderRequest } from "./render-request";
+export { getPromptProvider, listPromptProviders } from "./prompt-providers";
@@ -0,0 +1,132 @@
+import { spawn } from "node:child_process";
+import { once } from "node:events";
+import { rm, stat } from "node:fs/promises";
+import { createCanvas } from "@napi-rs/canvas";
+import {
+  getOutputDimensions,
+  getTotalFrames,
+  renderFrame,
+  splitOverflowingScenes,
+  type GenerationSettings,
+  type RenderContext2D,
+  type TimelineSlice,
+} from "@/lib/compositor";
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH ?? "ffmpeg";
+
+export type ServerRenderPhase = "rendering" | "encoding";
+
+export interface ServerRenderResult {
+  /** Where the encoded clip was written. */
+  file: string;
+  size: number;
+  mimeType: string;
+  extension: GenerationSettings["format"];
+}
+
+function buildEncoderArgs(settings: GenerationSettings, outputPath: string) {
+  const { width, height } = getOutputDimensions(settings.output);
+  const codecArgs =
+    settings.format === "mp4"
+      ? ["-c:v", "libx264", "-pix_fmt", "yuv420p", "-movflags", "+faststart"]
+      : ["-c:v", "libvpx-vp9", "-pix_fmt", "yuv420p", "-deadline", "good"];
+  return [
+    "-y",
+    "-loglevel",
+    "error",
+    "-f",
+    "rawvideo",
+    "-pix_fmt",
+    "rgba",
+    "-s",
+    `${width}x${height}`,
+    "-r",
+    String(settings.fps),
+    "-i",
+    "pipe:0",
+    ...codecArgs,
+    "-b:v",
+    String(settings.bitrate),
+    outputPath,
+  ];
+}
+
+/** Encodes the timeline to `outputPath`, which is removed again if the render fails. */
+export async function renderTimelineOnServer(
+  timeline: TimelineSlice[],
+  settings: GenerationSettings,
+  outputPath: string,
+  onProgress: (complete: number) => void,
+  onPhase: (phase: ServerRenderPhase) => void,
+): Promise<ServerRenderResult> {
+  const { width, height } = getOutputDimensions(settings.output);
+  const canvas = createCanvas(width, height);
+  // @napi-rs/canvas implements the 2D context API the compositor relies on.
+  const ctx = canvas.getContext("2d") as unknown as RenderContext2D;
+  const scenes = splitOverflowingScenes(ctx, timeline, settings);
+
+  try {
+    const encoder = spawn(FFMPEG_PATH, buildEncoderArgs(settings, outputPath), {
+      stdio: ["pipe", "ignore", "pipe"],
+    });
+    let stderr = "";
+    encoder.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    // Write failures surface through the exit handler below.
+    encoder.stdin.on("error", () => {});
+    const exited = new Promise<void>((resolve, reject) => {
+      encoder.on("error", (err: NodeJS.ErrnoException) => {
+        reject(
+          err.code === "ENOENT"
+            ? new Error("ffmpeg was not found. Install it or set FFMPEG_PATH.")
+            : err,
+        );
+      });
+      encoder.on("close", (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`ffmpeg exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+    });
+    exited.catch(() => {});
+
+    try {
+      onPhase("rendering");
+      const totalFrames = getTotalFrames(scenes, settings);
+      for (let frameIndex = 0; frameIndex < totalFrames; frameIndex++) {
+        renderFrame(ctx, scenes, settings, frameIndex);
+        const { data } = ctx.getImageData(0, 0, width, height);
+        const frame = Buffer.from(data.buffer, data.byteOffset, data.length);
+        if (!encoder.stdin.write(frame)) {
+          await Promise.race([once(encoder.stdin, "drain"), exited]);
+        }
+        onProgress((frameIndex + 1) / totalFrames);
+      }
+
+      onPhase("encoding");
+      encoder.stdin.end();
+      await exited;
+    } catch (err) {
+      // ffmpeg must be gone before its partial output is removed.
+      encoder.stdin.destroy();
+      encoder.kill("SIGKILL");
+      if (encoder.exitCode === null && encoder.signalCode === null) {
+        await Promise.race([once(encoder, "exit"), exited]).catch(() => {});
+      }
+      throw err;
+    }
+
+    return {
+      file: outputPath,
+      size: (await stat(outputPath)).size,
+      mimeType: settings.format === "mp4" ? "video/mp4" : "video/webm",
+      extension: settings.format,
+    };
+  } catch (err) {
+    await rm(outputPath, { force: true });
+    throw err;
+  }
+}
@@ -0,0 +1,37 @@
+import {
+  EnhancementError,
+  createMockProvider,
+  createOpenAiProvider,
+  type PromptProvider,
+  type PromptProviderSummary,
+} from "@/lib/enhance";
+
+// Any OpenAI-compatible chat completions API, such as Ollama's at http://localhost:11434/v1.
+const LLM_URL = process.env.NEBULA_LLM_URL ?? null;
+const LLM_MODEL = process.env.NEBULA_LLM_MODEL ?? "llama3.2";
+const LLM_API_KEY = process.env.NEBULA_LLM_API_KEY ?? null;
+
+/** The configured language model, when there is one, and the local stand-in. */
+function createPromptProviders(): PromptProvider[] {
+  const mock = createMockProvider();
+  return LLM_URL
+    ? [createOpenAiProvider({ url: LLM_URL, model: LLM_MODEL, apiKey: LLM_API_KEY }), mock]
+    : [mock];
+}
+
+const providers = createPromptProviders();
+
+export function listPromptProviders(): PromptProviderSummary[] {
+  return providers.map(({ id, label }) => ({ id, label }));
+}
+
+/** The provider with `id`, or the first one when no id is given. */
+export function getPromptProvider(id: unknown) {
+  if (id === undefined) return providers[0];
+  const provider = providers.find((item) => item.id === id);
+  if (!provider) {
+    const ids = providers.map((item) => item.id).join(", ");
+    throw new EnhancementError(`Unknown provider "${String(id)}". Use one of: ${ids}.`);
+  }
+  return provider;
+}
@@ -0,0 +1,190 @@
+import { randomUUID } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { Readable } from "node:stream";
+import { renderTimelineOnServer, type ServerRenderResult } from "./node-renderer";
+import { buildRequestTimeline, type RenderRequest } from "./render-request";
+
+export type RenderJobStatus = "queued" | "rendering" | "encoding" | "complete" | "error";
+
+export interface RenderJob {
+  id: string;
+  status: RenderJobStatus;
+  progress: number;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  request: RenderRequest;
+  result: ServerRenderResult | null;
+}
+
+export interface RenderJobSummary {
+  id: string;
+  status: RenderJobStatus;
+  progress: number;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  statusUrl: string;
+  videoUrl: string | null;
+}
+
+const MAX_RETAINED_JOBS = 20;
+/** Finished jobs, and the files they rendered, are dropped after an hour. */
+const RESULT_TTL_MS = 60 * 60 * 1000;
+const MAX_RUNNING_JOBS = Math.max(1, Number(process.env.NEBULA_MAX_RENDERS) || 2);
+const MAX_WAITING_JOBS = 8;
+
+export class RenderQueueFullError extends Error {
+  constructor() {
+    super("Too many renders are in progress. Try again shortly.");
+    this.name = "RenderQueueFullError";
+  }
+}
+
+// Kept on globalThis so jobs survive module reloads in `next dev`.
+const registry = globalThis as typeof globalThis & {
+  __nebulaRenderJobs?: Map<string, { job: RenderJob; done: Promise<RenderJob> }>;
+  __nebulaRenderSlots?: { running: number; waiting: (() => void)[] };
+  __nebulaRenderDirectory?: Promise<string>;
+};
+const jobs = (registry.__nebulaRenderJobs ??= new Map());
+const slots = (registry.__nebulaRenderSlots ??= { running: 0, waiting: [] });
+
+// Results live in a directory of this process's own, as its jobs do not outlive it.
+function getResultDirectory() {
+  registry.__nebulaRenderDirectory ??= mkdtemp(path.join(tmpdir(), "nebula-renders-")).catch(
+    (err) => {
+      registry.__nebulaRenderDirectory = undefined;
+      throw err;
+    },
+  );
+  return registry.__nebulaRenderDirectory;
+}
+
+async function acquireSlot() {
+  if (slots.running < MAX_RUNNING_JOBS) {
+    slots.running++;
+    return;
+  }
+  await new Promise<void>((resolve) => slots.waiting.push(resolve));
+}
+
+// A finished render hands its slot straight to the longest-waiting job.
+function releaseSlot() {
+  const next = slots.waiting.shift();
+  if (next) next();
+  else slots.running--;
+}
+
+function touch(job: RenderJob, patch: Partial<RenderJob>) {
+  Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+}
+
+function dropJob(job: RenderJob) {
+  jobs.delete(job.id);
+  if (job.result) {
+    rm(job.result.file, { force: true }).catch((err) => console.error(err));
+  }
+}
+
+function pruneJobs(now = Date.now()) {
+  const finished = [...jobs.values()]
+    .map(({ job }) => job)
+    .filter((job) => job.status === "complete" || job.status === "error");
+  const expired = finished.filter((job) => now - Date.parse(job.updatedAt) > RESULT_TTL_MS);
+  expired.forEach(dropJob);
+  const excess = jobs.size - MAX_RETAINED_JOBS;
+  finished
+    .filter((job) => !expired.includes(job))
+    .slice(0, Math.max(0, excess))
+    .forEach(dropJob);
+}
+
+async function runJob(job: RenderJob) {
+  const { settings } = job.request;
+  await acquireSlot();
+  try {
+    const directory = await getResultDirectory();
+    const result = await renderTimelineOnServer(
+      buildRequestTimeline(job.request),
+      settings,
+      path.join(directory, `${job.id}.${settings.format}`),
+      (progress) => {
+        job.progress = progress;
+      },
+      (phase) => touch(job, { status: phase }),
+    );
+    touch(job, { status: "complete", progress: 1, result });
+  } catch (err) {
+    console.error(err);
+    touch(job, {
+      status: "error",
+      error: err instanceof Error ? err.message : "Failed to render video.",
+    });
+  } finally {
+    releaseSlot();
+  }
+  return job;
+}
+
+/** Runs at most `NEBULA_MAX_RENDERS` jobs at once and queues a few more behind them. */
+export function createRenderJob(request: RenderRequest) {
+  if (slots.running >= MAX_RUNNING_JOBS && slots.waiting.length >= MAX_WAITING_JOBS) {
+    throw new RenderQueueFullError();
+  }
+  pruneJobs();
+  const now = new Date().toISOString();
+  const job: RenderJob = {
+    id: randomUUID(),
+    status: "queued",
+    progress: 0,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+    request,
+    result: null,
+  };
+  jobs.set(job.id, { job, done: runJob(job) });
+  return job;
+}
+
+export function getRenderJob(id: string) {
+  pruneJobs();
+  return jobs.get(id)?.job ?? null;
+}
+
+export function waitForRenderJob(id: string) {
+  return jobs.get(id)?.done ?? Promise.resolve(null);
+}
+
+export function summarizeRenderJob(job: RenderJob): RenderJobSummary {
+  return {
+    id: job.id,
+    status: job.status,
+    progress: job.progress,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    statusUrl: `/api/render/${job.id}`,
+    videoUrl: job.status === "complete" ? `/api/render/${job.id}/video` : null,
+  };
+}
+
+export function videoResponse(job: RenderJob) {
+  if (!job.result) {
+    return null;
+  }
+  const { file, size, mimeType, extension } = job.result;
+  const body = Readable.toWeb(createReadStream(file)) as ReadableStream<Uint8Array>;
+  return new Response(body, {
+    headers: {
+      "Content-Type": mimeType,
+      "Content-Length": String(size),
+      "Content-Disposition": `attachment; filename="nebula-synth.${extension}"`,
+      "X-Render-Job-Id": job.id,
+    },
+  });
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import {
+  MAX_PROMPT_LENGTH,
+  RenderRequestError,
+  parseRenderRequest,
+} from "./render-request";
+
+const PROMPT = "Meet the new studio. Render anywhere.";
+
+describe("parseRenderRequest", () => {
+  it("fills in defaults for a bare prompt", () => {
+    const { settings } = parseRenderRequest({ prompt: PROMPT });
+    expect(settings.fps).toBe(24);
+    expect(settings.format).toBe("mp4");
+    expect(settings.output).toEqual({ aspectRatio: "16:9", resolution: "720p" });
+  });
+
+  it("rejects a transition type that is only an inherited object key", () => {
+    expect(() =>
+      parseRenderRequest({ prompt: PROMPT, transition: { type: "constructor" } }),
+    ).toThrow(RenderRequestError);
+  });
+
+  it("rejects output sizes that are only inherited object keys", () => {
+    expect(() => parseRenderRequest({ prompt: PROMPT, aspectRatio: "constructor" })).toThrow(
+      RenderRequestError,
+    );
+    expect(() => parseRenderRequest({ prompt: PROMPT, resolution: "toString" })).toThrow(
+      RenderRequestError,
+    );
+  });
+
+  it("rejects prompts over the length limit", () => {
+    const prompt = "Render anywhere. ".repeat(MAX_PROMPT_LENGTH / 10);
+    expect(() => parseRenderRequest({ prompt })).toThrow(/limited to 10000 characters/);
+  });
+
+  it("rejects renders over the duration or frame limit", () => {
+    const prompt = Array.from({ length: 11 }, (_, index) => `Scene ${index + 1}.`).join(" ");
+    expect(() => parseRenderRequest({ prompt, segmentSeconds: 30 })).toThrow(
+      /limited to 300 seconds/,
+    );
+    expect(() =>
+      parseRenderRequest({ prompt, segmentSeconds: 12, fps: 60, resolution: "4k" }),
+    ).toThrow(new RegExp(`${11 * 12 * 60} frames`));
+    expect(() => parseRenderRequest({ prompt, segmentSeconds: 10 })).not.toThrow();
+  });
+});
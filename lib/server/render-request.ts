@@ -0,0 +1,227 @@
+import {
+  ASPECT_RATIO_LABELS,
+  BUILT_IN_THEMES,
+  DEFAULT_OUTPUT_SIZE,
+  DEFAULT_THEME,
+  DEFAULT_TRANSITION,
+  RESOLUTION_LABELS,
+  TRANSITION_LABELS,
+  createPaletteTimeline,
+  findTheme,
+  formatScriptIssue,
+  getTotalFrames,
+  isBuiltInTheme,
+  parseScript,
+  type AspectRatio,
+  type CaptionStyle,
+  type ExportFormat,
+  type GenerationSettings,
+  type OutputResolution,
+  type OutputSize,
+  type Theme,
+  type TimelineSlice,
+  type TransitionDirection,
+  type TransitionSettings,
+  type TransitionType,
+} from "@/lib/compositor";
+import { ThemeValidationError, parseTheme } from "@/lib/themes";
+
+export interface RenderRequest {
+  prompt: string;
+  settings: GenerationSettings;
+}
+
+export class RenderRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RenderRequestError";
+  }
+}
+
+const DEFAULT_SETTINGS: GenerationSettings = {
+  fps: 24,
+  segmentSeconds: 3,
+  theme: DEFAULT_THEME,
+  output: DEFAULT_OUTPUT_SIZE,
+  format: "mp4",
+  bitrate: 6_000_000,
+  transition: DEFAULT_TRANSITION,
+  captionStyle: "centered",
+};
+
+const TRANSITION_DIRECTIONS: TransitionDirection[] = ["left", "right", "up", "down"];
+
+// One request must not be able to tie up the server's CPU and memory for long.
+export const MAX_PROMPT_LENGTH = 10_000;
+export const MAX_RENDER_SECONDS = 300;
+export const MAX_RENDER_FRAMES = 7_200;
+
+function readNumber(value: unknown, field: string, min: number, max: number, fallback: number) {
+  if (value === undefined) {
+    return fallback;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    throw new RenderRequestError(`"${field}" must be a number between ${min} and ${max}.`);
+  }
+  return value;
+}
+
+function readTransition(value: unknown): TransitionSettings {
+  if (value === undefined) {
+    return DEFAULT_SETTINGS.transition;
+  }
+  if (!value || typeof value !== "object") {
+    throw new RenderRequestError('"transition" must be an object.');
+  }
+  const input = value as Record<string, unknown>;
+  const type = input.type ?? DEFAULT_TRANSITION.type;
+  if (typeof type !== "string" || !Object.hasOwn(TRANSITION_LABELS, type)) {
+    throw new RenderRequestError(
+      `"transition.type" must be one of: ${Object.keys(TRANSITION_LABELS).join(", ")}.`,
+    );
+  }
+  const direction = input.direction ?? DEFAULT_TRANSITION.direction;
+  if (!TRANSITION_DIRECTIONS.includes(direction as TransitionDirection)) {
+    throw new RenderRequestError(
+      `"transition.direction" must be one of: ${TRANSITION_DIRECTIONS.join(", ")}.`,
+    );
+  }
+  return {
+    type: type as TransitionType,
+    durationSeconds: readNumber(
+      input.durationSeconds,
+      "transition.durationSeconds",
+      0,
+      5,
+      DEFAULT_TRANSITION.durationSeconds,
+    ),
+    direction: direction as TransitionDirection,
+  };
+}
+
+function readTheme(style: unknown, theme: unknown): Theme {
+  if (theme !== undefined) {
+    try {
+      return parseTheme(theme);
+    } catch (err) {
+      if (err instanceof ThemeValidationError) {
+        throw new RenderRequestError(err.issues.join(" "));
+      }
+      throw err;
+    }
+  }
+  const builtIn = typeof style === "string" ? findTheme(BUILT_IN_THEMES, style) : undefined;
+  if (style !== undefined && !builtIn) {
+    throw new RenderRequestError(
+      `"style" must be one of: ${BUILT_IN_THEMES.map(({ id }) => id).join(", ")}.`,
+    );
+  }
+  return builtIn ?? DEFAULT_SETTINGS.theme;
+}
+
+function readOutputSize(aspectRatio: unknown, resolution: unknown): OutputSize {
+  const output = {
+    aspectRatio: aspectRatio ?? DEFAULT_SETTINGS.output.aspectRatio,
+    resolution: resolution ?? DEFAULT_SETTINGS.output.resolution,
+  };
+  if (
+    typeof output.aspectRatio !== "string" ||
+    !Object.hasOwn(ASPECT_RATIO_LABELS, output.aspectRatio)
+  ) {
+    throw new RenderRequestError(
+      `"aspectRatio" must be one of: ${Object.keys(ASPECT_RATIO_LABELS).join(", ")}.`,
+    );
+  }
+  if (
+    typeof output.resolution !== "string" ||
+    !Object.hasOwn(RESOLUTION_LABELS, output.resolution)
+  ) {
+    throw new RenderRequestError(
+      `"resolution" must be one of: ${Object.keys(RESOLUTION_LABELS).join(", ")}.`,
+    );
+  }
+  return {
+    aspectRatio: output.aspectRatio as AspectRatio,
+    resolution: output.resolution as OutputResolution,
+  };
+}
+
+/** Themes a script's `[style: …]` directives can name: the built-ins and the request's theme. */
+export function scriptThemes(theme: Theme) {
+  return isBuiltInTheme(theme.id) ? BUILT_IN_THEMES : [theme, ...BUILT_IN_THEMES];
+}
+
+export function buildRequestTimeline({ prompt, settings }: RenderRequest): TimelineSlice[] {
+  const { scenes } = parseScript(prompt, scriptThemes(settings.theme));
+  return createPaletteTimeline(
+    scenes.map((scene) => scene.text),
+    settings.theme,
+    {},
+    scenes,
+  );
+}
+
+export function parseRenderRequest(body: unknown): RenderRequest {
+  if (!body || typeof body !== "object") {
+    throw new RenderRequestError("Request body must be a JSON object.");
+  }
+  const input = body as Record<string, unknown>;
+
+  if (typeof input.prompt !== "string") {
+    throw new RenderRequestError('"prompt" must contain at least one sentence.');
+  }
+  if (input.prompt.length > MAX_PROMPT_LENGTH) {
+    throw new RenderRequestError(`"prompt" is limited to ${MAX_PROMPT_LENGTH} characters.`);
+  }
+
+  const format = input.format ?? DEFAULT_SETTINGS.format;
+  if (format !== "mp4" && format !== "webm") {
+    throw new RenderRequestError('"format" must be "mp4" or "webm".');
+  }
+
+  const captionStyle = input.captionStyle ?? DEFAULT_SETTINGS.captionStyle;
+  if (captionStyle !== "centered" && captionStyle !== "lower-third") {
+    throw new RenderRequestError('"captionStyle" must be "centered" or "lower-third".');
+  }
+
+  const theme = readTheme(input.style, input.theme);
+  const script = parseScript(input.prompt, scriptThemes(theme));
+  if (script.issues.length > 0) {
+    throw new RenderRequestError(
+      `"prompt" has script errors. ${script.issues.map(formatScriptIssue).join(" ")}`,
+    );
+  }
+  if (script.scenes.length === 0) {
+    throw new RenderRequestError('"prompt" must contain at least one sentence.');
+  }
+
+  const request: RenderRequest = {
+    prompt: input.prompt,
+    settings: {
+      fps: Math.round(readNumber(input.fps, "fps", 1, 60, DEFAULT_SETTINGS.fps)),
+      segmentSeconds: readNumber(
+        input.segmentSeconds,
+        "segmentSeconds",
+        1,
+        30,
+        DEFAULT_SETTINGS.segmentSeconds,
+      ),
+      theme,
+      output: readOutputSize(input.aspectRatio, input.resolution),
+      format: format as ExportFormat,
+      bitrate: readNumber(input.bitrate, "bitrate", 250_000, 50_000_000, DEFAULT_SETTINGS.bitrate),
+      transition: readTransition(input.transition),
+      captionStyle: captionStyle as CaptionStyle,
+    },
+  };
+
+  const { fps } = request.settings;
+  const frames = getTotalFrames(buildRequestTimeline(request), request.settings);
+  if (frames / fps > MAX_RENDER_SECONDS || frames > MAX_RENDER_FRAMES) {
+    throw new RenderRequestError(
+      `Renders are limited to ${MAX_RENDER_SECONDS} seconds and ${MAX_RENDER_FRAMES} frames; ` +
+        `this one is ${(frames / fps).toFixed(1)} seconds, or ${frames} frames at ${fps} fps.`,
+    );
+  }
+  return request;
+}
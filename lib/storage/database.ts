@@ -0,0 +1,59 @@
+const DATABASE_NAME = "nebula-studio";
+/** Version 2 added the asset library; version 3 added uploaded fonts. */
+const DATABASE_VERSION = 3;
+
+export type StoreName = "projects" | "assets" | "fonts";
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export function isDatabaseAvailable() {
+  return typeof indexedDB !== "undefined";
+}
+
+function openDatabase() {
+  return new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of ["projects", "assets", "fonts"] satisfies StoreName[]) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: "id" });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB could not be opened."));
+    request.onblocked = () => reject(new Error("IndexedDB is blocked by another open tab."));
+  });
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("IndexedDB request failed."));
+  });
+}
+
+/** Runs `action` against one object store and resolves once the transaction has committed. */
+export async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+) {
+  if (!databasePromise) {
+    databasePromise = openDatabase().catch((err) => {
+      databasePromise = null;
+      throw err;
+    });
+  }
+  const db = await databasePromise;
+  const transaction = db.transaction(name, mode);
+  const result = promisifyRequest(action(transaction.objectStore(name)));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    const fail = () => reject(transaction.error ?? new Error("IndexedDB transaction failed."));
+    transaction.onerror = fail;
+    transaction.onabort = fail;
+  });
+  return result;
+}
@@ -0,0 +1 @@
+export { isDatabaseAvailable, promisifyRequest, withStore, type StoreName } from "./database";
@@ -0,0 +1,20 @@
+export {
+  THEME_SCHEMA_ID,
+  THEME_SCHEMA_VERSION,
+  ThemeValidationError,
+  parseTheme,
+  parseThemeFile,
+  serializeThemes,
+  validateLayers,
+  validatePalette,
+  validateTheme,
+  type ThemeFile,
+} from "./schema";
+export {
+  deleteCustomTheme,
+  getCustomThemes,
+  getServerCustomThemes,
+  saveCustomThemes,
+  subscribeCustomThemes,
+  upsertCustomTheme,
+} from "./storage";
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import { validateLayers, validatePalette } from "./schema";
+
+function validate(value: unknown) {
+  const issues: string[] = [];
+  return { palette: validatePalette(value, "palette", issues), issues };
+}
+
+describe("validatePalette", () => {
+  it("accepts any number of stops from two up", () => {
+    const stops = Array.from({ length: 12 }, (_, index) => `#${String(index).padStart(6, "0")}`);
+    expect(validate(stops)).toEqual({ palette: stops, issues: [] });
+  });
+
+  it("needs at least two stops", () => {
+    expect(validate(["#ffffff"]).issues).toEqual(["palette must list at least 2 colour stops."]);
+  });
+});
+
+describe("validateLayers", () => {
+  function validateTracks(tracks: unknown) {
+    const issues: string[] = [];
+    const layer = { id: "logo", type: "logo", enabled: true, params: {}, tracks };
+    const [result] = validateLayers([layer], "layers", issues);
+    return { tracks: result.tracks, issues };
+  }
+
+  it("reads keyframe tracks with their easing", () => {
+    const tracks = {
+      opacity: [
+        { at: 0, value: 0 },
+        { at: 0.2, value: 1, easing: { type: "cubic-bezier", x1: 0, y1: 0, x2: 0.58, y2: 1 } },
+      ],
+      rotation: [{ at: 1, value: 45, easing: { type: "steps", count: 4, position: "start" } }],
+    };
+    expect(validateTracks(tracks)).toEqual({ tracks, issues: [] });
+  });
+
+  it("reports unknown properties, empty tracks and keyframes out of order", () => {
+    const { issues } = validateTracks({
+      letterSpacing: [{ at: 0, value: 1 }],
+      x: [],
+      y: [
+        { at: 0.5, value: 0 },
+        { at: 0.2, value: 1 },
+      ],
+      blur: [{ at: 0, value: 0, easing: { type: "bounce" } }],
+    });
+    expect(issues).toEqual([
+      "layers[0].tracks.letterSpacing must be one of: opacity, x, y, scale, rotation, blur.",
+      "layers[0].tracks.x must be a non-empty array of keyframes.",
+      "layers[0].tracks.y[1].at must not come before the keyframe above it.",
+      "layers[0].tracks.blur[0].easing.type must be one of: linear, cubic-bezier, spring, steps.",
+    ]);
+  });
+});
@@ -0,0 +1,323 @@
+import {
+  DEFAULT_LAYERS,
+  EASINGS,
+  LAYER_ANIMATED_PROPERTIES,
+  cubicBezier,
+  getLayerDefinition,
+  spring,
+  steps,
+  type AnimatedProperty,
+  type Easing,
+  type Keyframe,
+  type KeyframeTracks,
+  type LayerInstance,
+  type LayerParamValue,
+  type Palette,
+  type Theme,
+} from "@/lib/compositor";
+
+export const THEME_SCHEMA_ID = "nebula-studio/theme";
+/**
+ * Version 2 added `layers`; version 1 themes get the default layer stack. Version 3 added
+ * `fonts.sceneNumber`; older themes draw the scene number in the title font. Version 4 added
+ * keyframe `tracks` to layers.
+ */
+export const THEME_SCHEMA_VERSION = 4;
+
+export interface ThemeFile {
+  schema: typeof THEME_SCHEMA_ID;
+  version: number;
+  themes: Theme[];
+}
+
+export class ThemeValidationError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : "";
+    super(`Invalid theme: ${issues[0]}${more}`);
+    this.name = "ThemeValidationError";
+    this.issues = issues;
+  }
+}
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const UNSAFE_FONT = /[;{}<>]/;
+
+function readColor(value: unknown, path: string, issues: string[]) {
+  if (typeof value !== "string" || !HEX_COLOR.test(value)) {
+    issues.push(`${path} must be a hex colour such as "#1b0033".`);
+    return "#000000";
+  }
+  const hex = value.toLowerCase();
+  return hex.length === 4 ? `#${[...hex.slice(1)].map((c) => c + c).join("")}` : hex;
+}
+
+function readString(value: unknown, path: string, issues: string[], maxLength = 80) {
+  if (typeof value !== "string" || value.trim() === "" || value.length > maxLength) {
+    issues.push(`${path} must be a non-empty string of at most ${maxLength} characters.`);
+    return "";
+  }
+  return value.trim();
+}
+
+function readNumber(value: unknown, path: string, issues: string[], min: number, max: number) {
+  if (typeof value !== "number" || !Number.isFinite(value) || value < min || value > max) {
+    issues.push(`${path} must be a number between ${min} and ${max}.`);
+    return min;
+  }
+  return value;
+}
+
+function readFont(value: unknown, path: string, issues: string[]) {
+  const font = readString(value, path, issues, 200);
+  if (font && UNSAFE_FONT.test(font)) {
+    issues.push(`${path} must be a CSS font-family list.`);
+  }
+  return font;
+}
+
+function readObject(value: unknown, path: string, issues: string[]) {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    issues.push(`${path} must be an object.`);
+    return {} as Record<string, unknown>;
+  }
+  return value as Record<string, unknown>;
+}
+
+function readPalettes(value: unknown, path: string, issues: string[]): Palette[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    issues.push(`${path} must be a non-empty array of gradients.`);
+    return [];
+  }
+  return value.map((palette, index) => validatePalette(palette, `${path}[${index}]`, issues));
+}
+
+export function validatePalette(value: unknown, path: string, issues: string[]): Palette {
+  if (!Array.isArray(value) || value.length < 2) {
+    issues.push(`${path} must list at least 2 colour stops.`);
+    return [];
+  }
+  return value.map((color, stop) => readColor(color, `${path}[${stop}]`, issues));
+}
+
+function readLayerParams(
+  type: string,
+  value: unknown,
+  path: string,
+  issues: string[],
+): Record<string, LayerParamValue> {
+  const definition = getLayerDefinition(type);
+  const input = value === undefined ? {} : readObject(value, path, issues);
+  if (!definition) return {};
+  for (const name of Object.keys(input)) {
+    if (!(name in definition.params)) {
+      issues.push(`${path}.${name} is not a parameter of the ${type} layer.`);
+    }
+  }
+  return Object.fromEntries(
+    Object.entries(definition.params).map(([name, spec]) => {
+      const raw = input[name];
+      const paramPath = `${path}.${name}`;
+      if (raw === undefined) return [name, spec.default];
+      switch (spec.kind) {
+        case "number":
+          return [name, readNumber(raw, paramPath, issues, spec.min, spec.max)];
+        case "color":
+          return [name, readColor(raw, paramPath, issues)];
+        case "boolean":
+          if (typeof raw !== "boolean") issues.push(`${paramPath} must be true or false.`);
+          return [name, raw === true];
+        case "select":
+          if (typeof raw !== "string" || !spec.options.includes(raw)) {
+            issues.push(`${paramPath} must be one of: ${spec.options.join(", ")}.`);
+            return [name, spec.default];
+          }
+          return [name, raw];
+        case "text":
+          return [name, readString(raw, paramPath, issues, spec.maxLength)];
+        case "asset":
+          if (typeof raw !== "string") {
+            issues.push(`${paramPath} must be an asset id, or empty for no image.`);
+            return [name, spec.default];
+          }
+          return [name, raw];
+      }
+    }),
+  );
+}
+
+function readEasing(value: unknown, path: string, issues: string[]): Easing | undefined {
+  if (value === undefined) return undefined;
+  const input = readObject(value, path, issues);
+  const number = (name: string, min: number, max: number) =>
+    readNumber(input[name], `${path}.${name}`, issues, min, max);
+  switch (input.type) {
+    case "linear":
+      return EASINGS.linear;
+    case "cubic-bezier":
+      return cubicBezier(
+        number("x1", 0, 1),
+        number("y1", -2, 3),
+        number("x2", 0, 1),
+        number("y2", -2, 3),
+      );
+    case "spring":
+      return spring(
+        number("stiffness", 1, 1000),
+        number("damping", 1, 200),
+        number("mass", 0.1, 10),
+      );
+    case "steps":
+      if (input.position !== "start" && input.position !== "end") {
+        issues.push(`${path}.position must be "start" or "end".`);
+      }
+      return steps(
+        Math.round(number("count", 1, 100)),
+        input.position === "start" ? "start" : "end",
+      );
+    default:
+      issues.push(`${path}.type must be one of: linear, cubic-bezier, spring, steps.`);
+      return undefined;
+  }
+}
+
+function readKeyframe(value: unknown, path: string, issues: string[]): Keyframe {
+  const input = readObject(value, path, issues);
+  const easing = readEasing(input.easing, `${path}.easing`, issues);
+  return {
+    at: readNumber(input.at, `${path}.at`, issues, -1, 2),
+    value: readNumber(input.value, `${path}.value`, issues, -1000, 1000),
+    ...(easing && { easing }),
+  };
+}
+
+function readLayerTracks(value: unknown, path: string, issues: string[]) {
+  const input = readObject(value, path, issues);
+  const tracks: KeyframeTracks = {};
+  for (const [property, raw] of Object.entries(input)) {
+    const trackPath = `${path}.${property}`;
+    if (!LAYER_ANIMATED_PROPERTIES.includes(property as AnimatedProperty)) {
+      issues.push(`${trackPath} must be one of: ${LAYER_ANIMATED_PROPERTIES.join(", ")}.`);
+      continue;
+    }
+    if (!Array.isArray(raw) || raw.length === 0) {
+      issues.push(`${trackPath} must be a non-empty array of keyframes.`);
+      continue;
+    }
+    const keyframes = raw.map((item, index) =>
+      readKeyframe(item, `${trackPath}[${index}]`, issues),
+    );
+    keyframes.forEach((keyframe, index) => {
+      if (index > 0 && keyframe.at < keyframes[index - 1].at) {
+        issues.push(`${trackPath}[${index}].at must not come before the keyframe above it.`);
+      }
+    });
+    tracks[property as AnimatedProperty] = keyframes;
+  }
+  return tracks;
+}
+
+export function validateLayers(value: unknown, path: string, issues: string[]): LayerInstance[] {
+  if (value === undefined) return DEFAULT_LAYERS;
+  if (!Array.isArray(value)) {
+    issues.push(`${path} must be an array of layers.`);
+    return [];
+  }
+  const ids = new Set<string>();
+  return value.map((raw, index) => {
+    const layerPath = `${path}[${index}]`;
+    const input = readObject(raw, layerPath, issues);
+    const type = readString(input.type, `${layerPath}.type`, issues);
+    if (type && !getLayerDefinition(type)) {
+      issues.push(`${layerPath}.type "${type}" is not a registered layer.`);
+    }
+    const id = readString(input.id, `${layerPath}.id`, issues);
+    if (ids.has(id)) {
+      issues.push(`${layerPath}.id "${id}" is used by another layer.`);
+    }
+    ids.add(id);
+    if (typeof input.enabled !== "boolean") {
+      issues.push(`${layerPath}.enabled must be true or false.`);
+    }
+    const layer: LayerInstance = {
+      id,
+      type,
+      enabled: input.enabled !== false,
+      params: readLayerParams(type, input.params, `${layerPath}.params`, issues),
+    };
+    if (input.tracks !== undefined) {
+      layer.tracks = readLayerTracks(input.tracks, `${layerPath}.tracks`, issues);
+    }
+    return layer;
+  });
+}
+
+/** Validates one theme, appending a message with a JSON path for every problem found. */
+export function validateTheme(value: unknown, path: string, issues: string[]): Theme {
+  const input = readObject(value, path, issues);
+  const colors = readObject(input.colors, `${path}.colors`, issues);
+  const fonts = readObject(input.fonts, `${path}.fonts`, issues);
+  const titleFont = readFont(fonts.title, `${path}.fonts.title`, issues);
+  return {
+    id: readString(input.id, `${path}.id`, issues),
+    name: readString(input.name, `${path}.name`, issues),
+    palettes: readPalettes(input.palettes, `${path}.palettes`, issues),
+    angle: readNumber(input.angle, `${path}.angle`, issues, 0, 360),
+    colors: {
+      title: readColor(colors.title, `${path}.colors.title`, issues),
+      body: readColor(colors.body, `${path}.colors.body`, issues),
+      sceneNumber: readColor(colors.sceneNumber, `${path}.colors.sceneNumber`, issues),
+      accent: readColor(colors.accent, `${path}.colors.accent`, issues),
+    },
+    fonts: {
+      title: titleFont,
+      body: readFont(fonts.body, `${path}.fonts.body`, issues),
+      sceneNumber:
+        fonts.sceneNumber === undefined
+          ? titleFont
+          : readFont(fonts.sceneNumber, `${path}.fonts.sceneNumber`, issues),
+    },
+    overlayOpacity: readNumber(input.overlayOpacity, `${path}.overlayOpacity`, issues, 0, 1),
+    layers: validateLayers(input.layers, `${path}.layers`, issues),
+  };
+}
+
+export function parseTheme(value: unknown, path = "theme") {
+  const issues: string[] = [];
+  const theme = validateTheme(value, path, issues);
+  if (issues.length > 0) {
+    throw new ThemeValidationError(issues);
+  }
+  return theme;
+}
+
+export function parseThemeFile(value: unknown): Theme[] {
+  const issues: string[] = [];
+  const file = readObject(value, "file", issues);
+  if (file.schema !== THEME_SCHEMA_ID) {
+    issues.push(`file.schema must be "${THEME_SCHEMA_ID}".`);
+  }
+  if (typeof file.version !== "number" || file.version > THEME_SCHEMA_VERSION) {
+    issues.push(`file.version must be a number no greater than ${THEME_SCHEMA_VERSION}.`);
+  }
+  if (!Array.isArray(file.themes)) {
+    issues.push("file.themes must be an array.");
+  }
+  const themes = Array.isArray(file.themes)
+    ? file.themes.map((theme, index) => validateTheme(theme, `themes[${index}]`, issues))
+    : [];
+  if (issues.length > 0) {
+    throw new ThemeValidationError(issues);
+  }
+  return themes;
+}
+
+export function serializeThemes(themes: Theme[]) {
+  const file: ThemeFile = {
+    schema: THEME_SCHEMA_ID,
+    version: THEME_SCHEMA_VERSION,
+    themes,
+  };
+  return JSON.stringify(file, null, 2);
+}
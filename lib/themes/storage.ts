@@ -0,0 +1,67 @@
+import type { Theme } from "@/lib/compositor";
+import { parseThemeFile, serializeThemes } from "./schema";
+
+const STORAGE_KEY = "nebula-studio:themes";
+const EMPTY: Theme[] = [];
+
+const listeners = new Set<() => void>();
+let cachedRaw: string | null = null;
+let cachedThemes: Theme[] = EMPTY;
+
+function readRaw() {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/** Snapshot for `useSyncExternalStore`; stays referentially stable until storage changes. */
+export function getCustomThemes(): Theme[] {
+  const raw = readRaw();
+  if (raw !== cachedRaw) {
+    cachedRaw = raw;
+    try {
+      cachedThemes = raw ? parseThemeFile(JSON.parse(raw)) : EMPTY;
+    } catch (err) {
+      console.error("Ignoring unreadable saved themes.", err);
+      cachedThemes = EMPTY;
+    }
+  }
+  return cachedThemes;
+}
+
+export function getServerCustomThemes(): Theme[] {
+  return EMPTY;
+}
+
+export function subscribeCustomThemes(listener: () => void) {
+  listeners.add(listener);
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
+
+export function saveCustomThemes(themes: Theme[]) {
+  window.localStorage.setItem(STORAGE_KEY, serializeThemes(themes));
+  listeners.forEach((listener) => listener());
+}
+
+export function upsertCustomTheme(theme: Theme) {
+  const themes = getCustomThemes();
+  const exists = themes.some((existing) => existing.id === theme.id);
+  saveCustomThemes(
+    exists
+      ? themes.map((existing) => (existing.id === theme.id ? theme : existing))
+      : [...themes, theme],
+  );
+}
+
+export function deleteCustomTheme(id: string) {
+  saveCustomThemes(getCustomThemes().filter((theme) => theme.id !== id));
+}
@@ -0,0 +1,27 @@
+import {
+  DEFAULT_OUTPUT_SIZE,
+  DEFAULT_THEME,
+  DEFAULT_TRANSITION,
+  createPaletteTimeline,
+  type GenerationSettings,
+} from "@/lib/compositor";
+
+export function createSettings(overrides: Partial<GenerationSettings> = {}): GenerationSettings {
+  return {
+    fps: 24,
+    segmentSeconds: 2,
+    theme: DEFAULT_THEME,
+    output: DEFAULT_OUTPUT_SIZE,
+    format: "mp4",
+    bitrate: 6_000_000,
+    transition: { ...DEFAULT_TRANSITION, type: "cut" },
+    captionStyle: "centered",
+    ...overrides,
+  };
+}
+
+export const SENTENCES = ["Meet the new studio", "Render anywhere", "Share in seconds"];
+
+export function createTimeline(sentences = SENTENCES) {
+  return createPaletteTimeline(sentences, DEFAULT_THEME);
+}
@@ -0,0 +1,86 @@
+import type { RenderContext2D } from "@/lib/compositor";
+
+export interface RecordedCall {
+  method: string;
+  args: unknown[];
+}
+
+export interface MockContext {
+  ctx: RenderContext2D;
+  /** Every method called on the context, in order. */
+  calls: RecordedCall[];
+  /** Every property assigned on the context, in order, as `[name, value]`. */
+  assignments: [string, unknown][];
+  /** What `getImageData` returns; fill it in to stand for the drawn pixels. */
+  pixels: Uint8ClampedArray;
+}
+
+/** Keeps its stops, so tests can check the colours a gradient was built from. */
+export class MockGradient {
+  readonly stops: [number, string][] = [];
+
+  addColorStop(offset: number, color: string) {
+    this.stops.push([offset, color]);
+  }
+}
+
+function fontSize(font: unknown) {
+  const match = typeof font === "string" ? /(\d+(?:\.\d+)?)px/.exec(font) : null;
+  return match ? Number(match[1]) : 10;
+}
+
+/**
+ * A 2D context that draws nothing and records what it is asked to do. Text is measured as
+ * half an em per character, so layout is deterministic.
+ */
+export function createMockContext(width = 1280, height = 720): MockContext {
+  const calls: RecordedCall[] = [];
+  const assignments: [string, unknown][] = [];
+  const pixels = new Uint8ClampedArray(width * height * 4);
+  const state: Record<string, unknown> = {
+    canvas: { width, height },
+    font: "10px sans-serif",
+    globalAlpha: 1,
+  };
+  const gradient = () => new MockGradient();
+  const results: Record<string, (...args: unknown[]) => unknown> = {
+    measureText: (text) => {
+      const size = fontSize(state.font);
+      return {
+        width: String(text).length * size * 0.5,
+        actualBoundingBoxAscent: size * 0.8,
+        actualBoundingBoxDescent: size * 0.2,
+        actualBoundingBoxLeft: 0,
+        actualBoundingBoxRight: String(text).length * size * 0.5,
+        fontBoundingBoxAscent: size * 0.8,
+        fontBoundingBoxDescent: size * 0.2,
+      };
+    },
+    createLinearGradient: gradient,
+    createRadialGradient: gradient,
+    createConicGradient: gradient,
+    createPattern: () => null,
+    getImageData: () => ({ data: pixels, width, height }),
+    getLineDash: () => [],
+    isPointInPath: () => false,
+  };
+
+  const ctx = new Proxy(state, {
+    get: (target, property) => {
+      if (typeof property !== "string") return undefined;
+      if (property in target) return target[property];
+      return (...args: unknown[]) => {
+        calls.push({ method: property, args });
+        return results[property]?.(...args);
+      };
+    },
+    set: (target, property, value) => {
+      if (typeof property !== "string") return false;
+      target[property] = value;
+      assignments.push([property, value]);
+      return true;
+    },
+  }) as unknown as RenderContext2D;
+
+  return { ctx, calls, assignments, pixels };
+}